@@ -1,32 +1,119 @@
-import { CameraView, useCameraPermissions } from 'expo-camera';
+import { BarcodeScanningResult, CameraView, useCameraPermissions } from 'expo-camera';
 import { useRef, useState, useCallback, useEffect } from 'react';
-import { StyleSheet, Text, TouchableOpacity, View, Button, Image, Alert, ActivityIndicator, FlatList, TextInput } from 'react-native';
+import { StyleSheet, Text, TouchableOpacity, View, Button, Image, Alert, ActivityIndicator, FlatList, TextInput, ScrollView, Platform } from 'react-native';
 import { router, useLocalSearchParams, useFocusEffect } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { FontAwesome } from '@expo/vector-icons';
-import { supabase, Property } from '@/lib/supabase';
-import { analyzeImage } from '@/lib/gemini';
+import { supabase, uploadPhoto, updateCatalog, Property, InventoryItem, SurfaceFinding, PriceListEntry, AnalysisProvenance, CatalogEntry, TemplateRoom } from '@/lib/supabase';
+import { preparePhoto } from '@/lib/imagePipeline';
+import { extractKeyframes, MAX_VIDEO_SECONDS } from '@/lib/videoPipeline';
+import { MAX_IMAGES_PER_REQUEST } from '@/server/handler';
+import { AnalysisCancelledError } from '@/lib/resilience';
+import { ScanAnalysis, ScanMode, analyzeScanPhotos, describeAnalysisFailure, suggestScanPlacement } from '@/lib/scanAnalysis';
+import { listKnownRooms } from '@/lib/rooms';
+import { CatalogSuggestion, addCatalogAlias, addCatalogName, matchItemsToCatalog, normalizeCatalogName } from '@/lib/catalog';
+import { ScanToQueue, enqueueScan, isOfflineError, isOnline } from '@/lib/offlineQueue';
+import { BatchCapture, BatchShot, createBatchCapture, isShotPending } from '@/lib/batchCapture';
+import { ScannedPlace, TemplateSpot, computeCoverage, isSameSpot, nextUnscannedSpot } from '@/lib/roomTemplate';
+import { TAG_BARCODE_TYPES, TAG_RESCAN_MS, findAssetByTag, normalizeTagCode } from '@/lib/assets';
+import { ImportedPhoto, importDroppedFiles, pickPhotoFiles, pickPhotosFromLibrary } from '@/lib/importPhotos';
+import SeverityBadge from '@/components/SeverityBadge';
+import { REVIEW_COLOR } from '@/components/ReviewBadge';
+import ItemEditor from '@/components/ItemEditor';
+import EditStatusBar from '@/components/EditStatusBar';
+import CatalogSuggestionList from '@/components/CatalogSuggestionList';
+import { useScanEdits } from '@/components/useScanEdits';
+import { useBurstEdits } from '@/components/useBurstEdits';
+import BatchReviewTray from '@/components/BatchReviewTray';
+import WalkthroughChecklist from '@/components/WalkthroughChecklist';
+import TagScanSheet, { ScannedTag } from '@/components/TagScanSheet';
+import PhotoDropZone from '@/components/PhotoDropZone';
+import { countItemsNeedingReview } from '@/lib/inventory';
+import { insertScan } from '@/lib/scans';
+import { formatTotals, valueItems } from '@/lib/valuation';
 
-interface AnalysisItem {
-  name: string;
-  count: number;
-  condition: string;
-}
+// 'photo' takes stills; 'burst' saves every still as its own scan in the background;
+// 'video' records a walkthrough and keeps its best keyframes; 'tag' reads asset tags
+type CaptureKind = 'photo' | 'burst' | 'video' | 'tag';
+
+const CAPTURE_KIND_LABELS: Record<CaptureKind, string> = {
+  photo: 'Photo',
+  burst: 'Burst',
+  video: 'Video',
+  tag: 'Tag',
+};
+
+// The web build has no camera preview; photos are dropped or picked from disk instead
+const IMPORT_ONLY = Platform.OS === 'web';
 
 export default function ScanScreen() {
-  const params = useLocalSearchParams<{ propertyId: string }>();
+  // room and location are set when opened from an unscanned spot on the property page
+  const params = useLocalSearchParams<{ propertyId: string; room?: string; location?: string }>();
   const [selectedPropId, setSelectedPropId] = useState<string | null>(params.propertyId || null);
   const [properties, setProperties] = useState<Property[]>([]);
   
   const [permission, requestPermission] = useCameraPermissions();
-  const [photo, setPhoto] = useState<string | null>(null);
+  // All angles captured for the current location; saved together as one scan
+  const [photos, setPhotos] = useState<string[]>([]);
+  const [addingAngle, setAddingAngle] = useState(false);
+  // When the first photo was originally taken, if it was imported rather than shot just now
+  const [capturedAt, setCapturedAt] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
   const [uploading, setUploading] = useState(false);
   const [analyzing, setAnalyzing] = useState(false);
-  const [analysisResults, setAnalysisResults] = useState<AnalysisItem[] | null>(null);
-  const [currentScanId, setCurrentScanId] = useState<string | null>(null);
-  const [roomName, setRoomName] = useState('Kitchen');
+  const [analysisResults, setAnalysisResults] = useState<InventoryItem[] | null>(null);
+  const [findings, setFindings] = useState<SurfaceFinding[]>([]);
+  const [provenance, setProvenance] = useState<AnalysisProvenance | undefined>(undefined);
+  const [scanMode, setScanMode] = useState<ScanMode>('items');
+  const [captureKind, setCaptureKind] = useState<CaptureKind>('photo');
+  const [recording, setRecording] = useState(false);
+  const [recordingSeconds, setRecordingSeconds] = useState(0);
+  const [extractingFrames, setExtractingFrames] = useState(false);
+  const [priceList, setPriceList] = useState<PriceListEntry[]>([]);
+  const [catalog, setCatalog] = useState<CatalogEntry[]>([]);
+  // New item names that look like something already in the catalog
+  const [catalogSuggestions, setCatalogSuggestions] = useState<CatalogSuggestion[]>([]);
+  const [roomName, setRoomName] = useState('');
   const [locationName, setLocationName] = useState('');
+  // Room names this property's scans already use, most used first
+  const [knownRooms, setKnownRooms] = useState<string[]>([]);
+  // The property's walkthrough template and where its scans were taken, for the checklist
+  const [roomTemplate, setRoomTemplate] = useState<TemplateRoom[]>([]);
+  const [scannedPlaces, setScannedPlaces] = useState<ScannedPlace[]>([]);
+  const [checklistVisible, setChecklistVisible] = useState(false);
+  // The asset tag being confirmed or registered, and the note shown after saving one
+  const [scannedTag, setScannedTag] = useState<ScannedTag | null>(null);
+  const [tagMessage, setTagMessage] = useState<string | null>(null);
+  const [suggestingPlacement, setSuggestingPlacement] = useState(false);
+  const [placementSuggested, setPlacementSuggested] = useState(false);
+  // Shots from the current burst, in the order they were taken
+  const [burstShots, setBurstShots] = useState<BatchShot[]>([]);
+  const [reviewingBurst, setReviewingBurst] = useState(false);
   const cameraRef = useRef<CameraView>(null);
+  const batchRef = useRef<BatchCapture | null>(null);
+  // Read by the batch when it suggests a room, so it sees rooms added since it started
+  const knownRoomsRef = useRef<string[]>([]);
+  knownRoomsRef.current = knownRooms;
+  // takePictureAsync can't overlap, so taps while a shot is being taken are dropped
+  const shootingRef = useRef(false);
+  const tagLookupRef = useRef(false);
+  const lastTagRef = useRef<{ code: string; at: number } | null>(null);
+  // Set while an analysis is running so the overlay's Cancel button can stop it
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  const placementAbortRef = useRef<AbortController | null>(null);
+  // Typed values always win over a suggestion that arrives later
+  const roomEditedRef = useRef(false);
+  const locationEditedRef = useRef(false);
+  // Uploads of the photos on screen by local uri, shared by the room suggestion and Save
+  const photoUploadsRef = useRef(new Map<string, Promise<string>>());
+  // The mode to return to once a burst that an import switched to is finished
+  const kindBeforeImportRef = useRef<CaptureKind | null>(null);
+  // The overlay's items as last corrected, read once the scan has been inserted
+  const overlayItemsRef = useRef<InventoryItem[] | null>(null);
+  // The saved scan's results while they're corrected on the overlay
+  const edits = useScanEdits();
+  // One edit store per burst shot, from when its scan is saved
+  const burstEdits = useBurstEdits();
 
   // If params change (e.g. navigation from property detail), update state
   useEffect(() => {
@@ -38,10 +125,47 @@ export default function ScanScreen() {
   // Persist selected property ID even if params are cleared (optional but safer)
   useEffect(() => {
     if (selectedPropId) {
-      // Logic to ensure ID is tracked if needed
+      fetchPropertyLists(selectedPropId);
+      fetchKnownRooms(selectedPropId);
     }
+    setRoomName('');
+    roomEditedRef.current = false;
+    // Shots already taken keep saving in the background; they just leave the tray
+    batchRef.current = null;
+    setBurstShots([]);
+    burstEdits.reset();
   }, [selectedPropId]);
 
+  // A burst shot's items are filed in the catalog once its scan is saved, as after a single scan
+  useEffect(() => {
+    if (!selectedPropId) return;
+    const saved = burstShots.filter(shot => burstEdits.load(selectedPropId, shot));
+    if (saved.length > 0) fileInCatalog(saved.flatMap(shot => shot.analysis?.items || []));
+  }, [burstShots]);
+
+  // Opened from an unscanned spot on the property page; runs after the reset above
+  useEffect(() => {
+    if (!params.room || !selectedPropId || selectedPropId !== params.propertyId) return;
+    setRoomName(params.room);
+    setLocationName(params.location || '');
+    roomEditedRef.current = true;
+    locationEditedRef.current = true;
+  }, [selectedPropId, params.room, params.location]);
+
+  useEffect(() => {
+    if (!tagMessage) return;
+    const timer = setTimeout(() => setTagMessage(null), 3000);
+    return () => clearTimeout(timer);
+  }, [tagMessage]);
+
+  useEffect(() => {
+    if (!recording) return;
+    const startedAt = Date.now();
+    setRecordingSeconds(0);
+    const timer = setInterval(() => setRecordingSeconds(Math.floor((Date.now() - startedAt) / 1000)), 1000);
+    return () => clearInterval(timer);
+  }, [recording]);
+
   useFocusEffect(
     useCallback(() => {
       if (!selectedPropId) {
@@ -50,11 +174,66 @@ export default function ScanScreen() {
     }, [selectedPropId])
   );
 
+  async function fetchPropertyLists(propertyId: string) {
+    const { data } = await supabase.from('properties').select('price_list, catalog, room_template').eq('id', propertyId).single();
+    setPriceList(data?.price_list || []);
+    setCatalog(data?.catalog || []);
+    setRoomTemplate(data?.room_template || []);
+  }
+
+  // Applied to the saved catalog rather than this screen's copy, so names filed elsewhere since it loaded are kept
+  async function persistCatalog(change: (catalog: CatalogEntry[]) => CatalogEntry[]) {
+    setCatalog(change(catalog));
+    if (!selectedPropId) return;
+    try {
+      setCatalog(await updateCatalog(selectedPropId, change));
+    } catch (error) {
+      console.error('Failed to save catalog:', error);
+    }
+  }
+
+  // Known names need nothing, lookalikes are offered as merges, anything else is added
+  async function fileInCatalog(items: InventoryItem[]) {
+    const names = items.map(item => item.name);
+    const { catalog: next, suggestions } = matchItemsToCatalog(catalog, names);
+    // A burst files each shot as it's saved, so earlier shots' suggestions stay until answered
+    setCatalogSuggestions(prev => [
+      ...prev,
+      ...suggestions.filter(suggestion => !prev.some(shown => normalizeCatalogName(shown.name) === normalizeCatalogName(suggestion.name))),
+    ]);
+    if (next !== catalog) await persistCatalog(saved => matchItemsToCatalog(saved, names).catalog);
+  }
+
+  function resolveSuggestion(suggestion: CatalogSuggestion, sameItem: boolean) {
+    setCatalogSuggestions(prev => prev.filter(s => s !== suggestion));
+    persistCatalog(saved => sameItem
+      ? addCatalogAlias(saved, suggestion.entry.id, suggestion.name)
+      : addCatalogName(saved, suggestion.name));
+  }
+
+  async function fetchKnownRooms(propertyId: string) {
+    const { data } = await supabase.from('scans').select('room_name, location').eq('property_id', propertyId);
+    setKnownRooms(listKnownRooms((data || []).map(scan => scan.room_name)));
+    setScannedPlaces(data || []);
+  }
+
+  // Counts towards the checklist as soon as it's saved, queued or handed to a burst
+  function recordScannedPlace(savedRoomName: string, location: string) {
+    setKnownRooms(prev => listKnownRooms([...prev, savedRoomName]));
+    setScannedPlaces(prev => [...prev, { room_name: savedRoomName, location }]);
+  }
+
   async function fetchProperties() {
     const { data } = await supabase.from('properties').select('*').order('created_at', { ascending: false });
     if (data) setProperties(data);
   }
 
+  // Once the scan is saved its items live in the edit store, which can undo them
+  const shownItems = edits.state?.results.items ?? analysisResults;
+  const coverage = computeCoverage(roomTemplate, scannedPlaces);
+  // The template spot the room and location fields currently point at, if any
+  const currentSpot = coverage.spots.find(spot => isSameSpot(spot, { room: roomName, location: locationName })) || null;
+
   if (!selectedPropId) {
     return (
       <SafeAreaView style={styles.selectionContainer}>
@@ -81,12 +260,12 @@ export default function ScanScreen() {
     );
   }
 
-  if (!permission) {
+  if (!IMPORT_ONLY && !permission) {
     // Camera permissions are still loading.
     return <View style={styles.container} />;
   }
 
-  if (!permission.granted) {
+  if (!IMPORT_ONLY && !permission?.granted) {
     // Camera permissions are not granted yet.
     return (
       <View style={styles.container}>
@@ -100,112 +279,490 @@ export default function ScanScreen() {
     if (cameraRef.current) {
       const result = await cameraRef.current.takePictureAsync();
       if (result) {
-        setPhoto(result.uri);
+        const photo = await preparePhoto(result.uri);
+        if (photos.length === 0) requestPlacementSuggestion(photo.uri);
+        setPhotos(prev => [...prev, photo.uri]);
+        setAddingAngle(false);
         setAnalysisResults(null);
       }
     }
   }
 
-  const updateAnalysisItem = async (index: number, updates: Partial<AnalysisItem>) => {
-    if (!analysisResults || !currentScanId) return;
-    
-    const newResults = [...analysisResults];
-    newResults[index] = { ...newResults[index], ...updates };
-    setAnalysisResults(newResults);
+  function burstBatch(propertyId: string) {
+    if (!batchRef.current) {
+      // A finished or abandoned batch keeps saving but no longer fills the tray
+      const batch: BatchCapture = createBatchCapture(
+        propertyId,
+        shots => { if (batchRef.current === batch) setBurstShots(shots); },
+        { knownRooms: () => knownRoomsRef.current }
+      );
+      batchRef.current = batch;
+    }
+    return batchRef.current;
+  }
+
+  // Without a room typed in, the batch suggests one from the photo
+  function addToBurst(propertyId: string, uri: string, shotCapturedAt: string | null = null) {
+    const savedRoomName = roomName.trim();
+    burstBatch(propertyId).add({
+      uri,
+      roomName: savedRoomName,
+      location: locationName,
+      mode: scanMode,
+      capturedAt: shotCapturedAt,
+    });
+    if (savedRoomName) recordScannedPlace(savedRoomName, locationName);
+  }
+
+  // Burst shots go straight into the background batch; the camera stays open
+  async function takeBurstShot() {
+    if (!cameraRef.current || !selectedPropId || shootingRef.current) return;
+    shootingRef.current = true;
+    try {
+      const result = await cameraRef.current.takePictureAsync();
+      if (!result) return;
+      const photo = await preparePhoto(result.uri);
+      addToBurst(selectedPropId, photo.uri);
+    } catch (error: any) {
+      console.error('Burst capture error:', error);
+      Alert.alert('Error', error.message || 'Failed to take photo');
+    } finally {
+      shootingRef.current = false;
+    }
+  }
+
+  // Several photos become separate scans through the burst batch; one photo (or extra angles) opens the usual review
+  async function importPhotos(source: () => Promise<ImportedPhoto[]>) {
+    if (!selectedPropId || importing) return;
+    setImporting(true);
+    try {
+      const imported = await source();
+      if (imported.length === 0) return;
+
+      const asBurst = captureKind === 'burst' || (imported.length > 1 && photos.length === 0 && !addingAngle);
+      if (asBurst) {
+        imported.forEach(photo => addToBurst(selectedPropId, photo.uri, photo.capturedAt));
+        if (captureKind !== 'burst') {
+          kindBeforeImportRef.current = captureKind;
+          setCaptureKind('burst');
+        }
+        setReviewingBurst(true);
+        return;
+      }
+
+      // The analysis service refuses a scan with more photos than this
+      const added = imported.slice(0, Math.max(0, MAX_IMAGES_PER_REQUEST - photos.length));
+      if (added.length < imported.length) {
+        Alert.alert(
+          'Too Many Photos',
+          added.length > 0
+            ? `A scan can have at most ${MAX_IMAGES_PER_REQUEST} photos, so only the first ${added.length} were added.`
+            : `This scan already has ${MAX_IMAGES_PER_REQUEST} photos, the most one scan can have.`
+        );
+      }
+      if (added.length === 0) return;
+
+      if (photos.length === 0) {
+        requestPlacementSuggestion(added[0].uri);
+        setCapturedAt(added[0].capturedAt);
+      }
+      setPhotos(prev => [...prev, ...added.map(photo => photo.uri)]);
+      setAddingAngle(false);
+      setAnalysisResults(null);
+    } catch (error: any) {
+      console.error('Photo import error:', error);
+      Alert.alert('Error', error.message || 'Failed to import photos');
+    } finally {
+      setImporting(false);
+    }
+  }
+
+  async function handleBarcodeScanned({ data, type }: BarcodeScanningResult) {
+    const code = normalizeTagCode(data);
+    if (!code || tagLookupRef.current) return;
+    const last = lastTagRef.current;
+    if (last && last.code === code && Date.now() - last.at < TAG_RESCAN_MS) return;
+
+    tagLookupRef.current = true;
+    try {
+      const asset = await findAssetByTag(code);
+      setScannedTag({ code, type, asset });
+    } catch (error: any) {
+      console.error('Tag lookup error:', error);
+      lastTagRef.current = { code, at: Date.now() };
+      Alert.alert('Error', error.message || 'Could not look up this tag');
+    } finally {
+      tagLookupRef.current = false;
+    }
+  }
+
+  function closeTag(message?: string) {
+    if (scannedTag) lastTagRef.current = { code: scannedTag.code, at: Date.now() };
+    setScannedTag(null);
+    if (message) setTagMessage(message);
+  }
+
+  async function takeTagPhoto() {
+    if (!cameraRef.current) return null;
+    const result = await cameraRef.current.takePictureAsync();
+    if (!result) return null;
+    const photo = await preparePhoto(result.uri);
+    return photo.uri;
+  }
+
+  async function completeBurst() {
+    if (!(await burstEdits.confirmLeave())) return;
+    const names = burstShots.flatMap(shot =>
+      (burstEdits.states[shot.id]?.results.items ?? shot.analysis?.items ?? []).map(item => item.name)
+    );
+    // Lookalike names are left for the catalog screen to suggest as merges
+    if (matchItemsToCatalog(catalog, names).catalog !== catalog) {
+      await persistCatalog(saved => matchItemsToCatalog(saved, names).catalog);
+    }
+    batchRef.current = null;
+    setBurstShots([]);
+    burstEdits.reset();
+    setCatalogSuggestions([]);
+    setReviewingBurst(false);
+    if (kindBeforeImportRef.current) setCaptureKind(kindBeforeImportRef.current);
+    kindBeforeImportRef.current = null;
+    router.replace({ pathname: '/property/[id]', params: { id: selectedPropId } });
+    setSelectedPropId(null);
+  }
+
+  function finishBurst() {
+    const pending = burstShots.filter(isShotPending).length;
+    if (pending === 0) {
+      completeBurst();
+      return;
+    }
+    Alert.alert(
+      'Still Analyzing',
+      `${pending} photo(s) are still being analyzed. They will be saved either way; finishing now means reviewing them from the property page instead.`,
+      [
+        { text: 'Wait', style: 'cancel' },
+        { text: 'Finish Anyway', onPress: completeBurst },
+      ]
+    );
+  }
+
+  // Corrections to a saved scan are written by the edit store, debounced and in order
+  function updateAnalysisItems(items: InventoryItem[]) {
+    if (edits.state) {
+      edits.change({ ...edits.state.results, items });
+      return;
+    }
+    overlayItemsRef.current = items;
+    setAnalysisResults(items);
+  }
+
+  function selectCaptureKind(kind: CaptureKind) {
+    kindBeforeImportRef.current = null;
+    setCaptureKind(kind);
+    // Walkthroughs are for counting items; damage checks need close-up stills
+    if (kind === 'video') setScanMode('items');
+  }
+
+  // First tap starts recording, second tap (or the time limit) stops it
+  async function toggleRecording() {
+    if (!cameraRef.current) return;
+    if (recording) {
+      cameraRef.current.stopRecording();
+      return;
+    }
+
+    // Frames go on top of the photos already attached, and a scan can't have more than the limit
+    const slots = MAX_IMAGES_PER_REQUEST - photos.length;
+    if (slots <= 0) {
+      Alert.alert('Too Many Photos', `This scan already has ${MAX_IMAGES_PER_REQUEST} photos, the most one scan can have.`);
+      return;
+    }
+
+    setRecording(true);
+    const startedAt = Date.now();
+    try {
+      const video = await cameraRef.current.recordAsync({ maxDuration: MAX_VIDEO_SECONDS });
+      const durationMs = Date.now() - startedAt;
+      setRecording(false);
+      if (!video) return;
+
+      setExtractingFrames(true);
+      const keyframes = await extractKeyframes(video.uri, durationMs, slots);
+      if (keyframes.length === 0) {
+        Alert.alert('No Usable Frames', 'The video was too blurry to analyze. Try moving the camera more slowly.');
+        return;
+      }
+      if (photos.length === 0) requestPlacementSuggestion(keyframes[0]);
+      setPhotos(prev => [...prev, ...keyframes]);
+      setAddingAngle(false);
+      setAnalysisResults(null);
+    } catch (error: any) {
+      console.error('Video capture error:', error);
+      Alert.alert('Error', error.message || 'Failed to record video');
+    } finally {
+      setRecording(false);
+      setExtractingFrames(false);
+    }
+  }
+
+  // Each photo is uploaded once, whether the room suggestion or Save gets to it first
+  function uploadScanPhoto(uri: string, index: number) {
+    let upload = photoUploadsRef.current.get(uri);
+    if (!upload) {
+      upload = uploadPhoto(uri, index);
+      photoUploadsRef.current.set(uri, upload);
+      // A failed upload is tried again by whatever needs it next
+      upload.catch(() => photoUploadsRef.current.delete(uri));
+    }
+    return upload;
+  }
+
+  // Removes uploads that never became part of a saved or queued scan
+  function discardPhotoUploads() {
+    const uploads = Array.from(photoUploadsRef.current.values());
+    photoUploadsRef.current.clear();
+    if (uploads.length === 0) return;
+    Promise.allSettled(uploads).then(async results => {
+      const paths = results.flatMap(result => (result.status === 'fulfilled' ? [result.value] : []));
+      if (paths.length === 0) return;
+      const { error } = await supabase.storage.from('Photos').remove(paths);
+      if (error) console.warn('Could not remove unsaved photo uploads:', error);
+    });
+  }
 
-    // Persist changes to DB
+  // Runs while the user reviews the photo; a failure just leaves the fields as they are
+  async function requestPlacementSuggestion(photoUri: string) {
+    placementAbortRef.current?.abort();
+    const controller = new AbortController();
+    placementAbortRef.current = controller;
+    setSuggestingPlacement(true);
+    setPlacementSuggested(false);
     try {
-      await supabase
-        .from('scans')
-        .update({ 
-          ai_analysis: { 
-            items: newResults,
-            location: locationName 
-          }
-        })
-        .eq('id', currentScanId);
+      // Save reuses this upload instead of sending the photo again
+      const storagePath = await uploadScanPhoto(photoUri, 0);
+      const suggestion = await suggestScanPlacement([photoUri], knownRooms, { storagePaths: [storagePath], signal: controller.signal });
+      if (controller.signal.aborted) return;
+      if (!roomEditedRef.current) setRoomName(suggestion.room);
+      if (!locationEditedRef.current && suggestion.location) setLocationName(suggestion.location);
+      setPlacementSuggested(true);
     } catch (error) {
-      console.error('Failed to auto-save scan edits:', error);
+      if (!(error instanceof AnalysisCancelledError)) {
+        console.warn('Could not suggest a room for this photo:', error);
+      }
+    } finally {
+      if (placementAbortRef.current === controller) {
+        placementAbortRef.current = null;
+        setSuggestingPlacement(false);
+      }
     }
-  };
+  }
+
+  function editRoomName(text: string) {
+    setRoomName(text);
+    roomEditedRef.current = true;
+  }
+
+  function editLocationName(text: string) {
+    setLocationName(text);
+    locationEditedRef.current = true;
+  }
+
+  function goToSpot(spot: TemplateSpot) {
+    setRoomName(spot.room);
+    setLocationName(spot.location);
+    roomEditedRef.current = true;
+    locationEditedRef.current = true;
+    setChecklistVisible(false);
+  }
+
+  // Moves the camera on to the next spot in the template that hasn't been scanned
+  function advanceChecklist() {
+    if (roomTemplate.length === 0) return;
+    const next = nextUnscannedSpot(coverage, { room: roomName, location: locationName });
+    if (next) {
+      goToSpot(next);
+    } else {
+      Alert.alert('Walkthrough Complete', 'Every spot in this property\'s room template has been scanned.');
+    }
+  }
+
+  // Waits for the last correction to be written, and asks first if it couldn't be
+  async function leaveResults(then?: () => void) {
+    if (!(await edits.confirmLeave())) return;
+    resetCapture();
+    then?.();
+  }
+
+  function scanNext() {
+    leaveResults(advanceChecklist);
+  }
+
+  function finishRoom() {
+    leaveResults(() => {
+      // Navigate to the property detail for the current property
+      router.replace({ pathname: '/property/[id]', params: { id: selectedPropId } });
+      setSelectedPropId(null); // Reset if they come back to scan tab directly
+    });
+  }
+
+  function resetCapture() {
+    placementAbortRef.current?.abort();
+    discardPhotoUploads();
+    locationEditedRef.current = false;
+    setPlacementSuggested(false);
+    setPhotos([]);
+    setCapturedAt(null);
+    setAddingAngle(false);
+    setAnalysisResults(null);
+    setFindings([]);
+    setProvenance(undefined);
+    setCatalogSuggestions([]);
+    edits.clear();
+  }
+
+  // Keeps the scan on the device until there's a connection; the queue picks up where this left off
+  async function saveForLater(savedRoomName: string, progress: Pick<ScanToQueue, 'storagePaths' | 'analysis'> = {}) {
+    if (!selectedPropId) return;
+    await enqueueScan({
+      propertyId: selectedPropId,
+      roomName: savedRoomName,
+      location: locationName,
+      mode: scanMode,
+      photos,
+      capturedAt,
+      ...progress,
+    });
+    // The queue owns the uploads it was given; any others are discarded below
+    if (progress.storagePaths) photoUploadsRef.current.clear();
+    recordScannedPlace(savedRoomName, locationName);
+    Alert.alert(
+      'Saved Offline',
+      "There's no connection right now. The scan will upload and be analyzed automatically when you're back online; the property page shows its progress."
+    );
+    resetCapture();
+  }
 
   async function uploadAndAnalyzePhoto() {
-    if (!photo) return;
+    if (photos.length === 0) return;
+    // Whatever is in the fields now is what gets saved
+    placementAbortRef.current?.abort();
+    const savedRoomName = roomName.trim() || 'Unassigned';
 
     try {
       setUploading(true);
-      
-      const fileExt = photo.split('.').pop();
-      const fileName = `${Date.now()}.${fileExt}`;
-      
-      const formData = new FormData();
-      formData.append('file', {
-        uri: photo,
-        name: fileName,
-        type: `image/${fileExt === 'jpg' ? 'jpeg' : fileExt}`,
-      } as any);
-
-      console.log('Attempting upload to Photos bucket:', fileName);
-      const { data, error } = await supabase.storage
-        .from('Photos')
-        .upload(fileName, formData);
-
-      if (error) {
-        console.error('Storage upload error details:', error);
-        throw error;
+
+      if (!(await isOnline())) {
+        await saveForLater(savedRoomName);
+        return;
+      }
+
+      const fileNames: string[] = [];
+      try {
+        for (let i = 0; i < photos.length; i++) {
+          fileNames.push(await uploadScanPhoto(photos[i], i));
+        }
+      } catch (uploadError) {
+        if (!isOfflineError(uploadError)) throw uploadError;
+        console.warn('Upload failed offline, queueing the scan:', uploadError);
+        // Photos that made it up are kept; the queue uploads the rest
+        await saveForLater(savedRoomName, { storagePaths: fileNames });
+        return;
       }
-      console.log('Upload successful:', data);
 
       // Start Analysis before inserting to bypass potential RLS update restrictions
+      const controller = new AbortController();
+      analysisAbortRef.current = controller;
       setAnalyzing(true);
-      let results: AnalysisItem[] = [];
+      let analysis: ScanAnalysis = { items: [], findings: [] };
+      let failureReason: string | null = null;
+      let lostConnection = false;
+      overlayItemsRef.current = null;
       try {
-        console.log('Starting AI Analysis...');
-        results = await analyzeImage(photo);
-        console.log('AI Analysis Results:', JSON.stringify(results, null, 2));
-        setAnalysisResults(results);
-      } catch (analysisError: any) {
+        analysis = await analyzeScanPhotos(scanMode, photos, { storagePaths: fileNames, signal: controller.signal });
+        setFindings(analysis.findings);
+        setProvenance(analysis.provenance);
+        overlayItemsRef.current = analysis.items;
+        setAnalysisResults(analysis.items);
+      } catch (analysisError) {
+        if (analysisError instanceof AnalysisCancelledError) {
+          // Nothing is saved for a cancelled scan; the photos stay on screen so it can be retried
+          photoUploadsRef.current.clear();
+          await supabase.storage.from('Photos').remove(fileNames);
+          return;
+        }
+        // The model being down is saved as a failed scan; the phone being offline waits in the queue
+        lostConnection = isOfflineError(analysisError) && !(await isOnline());
+        // Save the scan anyway so the photos aren't lost and it can be re-run later
         console.error('Analysis error:', analysisError);
-        // Continue to save the scan even if analysis fails, but with empty results
+        failureReason = describeAnalysisFailure(analysisError);
       } finally {
+        analysisAbortRef.current = null;
         setAnalyzing(false);
       }
 
+      if (lostConnection) {
+        await saveForLater(savedRoomName, { storagePaths: fileNames });
+        return;
+      }
+
       if (!selectedPropId) {
         Alert.alert('Error', 'Every item needs a home. Please select a property first.');
         return;
       }
 
       console.log('Attempting database insert into scans table...');
-      const { data: dbData, error: dbError } = await supabase
-        .from('scans')
-        .insert({
-          image_path: fileName,
-          status: results.length > 0 ? 'complete' : 'uploaded',
-          room_name: roomName,
-          property_id: selectedPropId,
-          // Store location inside ai_analysis JSON since we can't easily add a column
-          ai_analysis: { 
-            items: results,
-            location: locationName 
-          }
-        })
-        .select();
-
-      if (dbError) {
+      let scanId: string;
+      try {
+        scanId = await insertScan({
+          propertyId: selectedPropId,
+          roomName: savedRoomName,
+          location: locationName,
+          imagePaths: fileNames,
+          status: failureReason ? 'failed' : 'complete',
+          failureReason,
+          items: analysis.items,
+          findings: analysis.findings,
+          provenance: analysis.provenance,
+          capturedAt,
+        });
+      } catch (dbError: any) {
+        if (isOfflineError(dbError)) {
+          console.warn('Insert failed offline, queueing the scan:', dbError);
+          await saveForLater(savedRoomName, { storagePaths: fileNames, ...(failureReason ? {} : { analysis }) });
+          return;
+        }
         console.error('Database insert error details:', dbError);
-        Alert.alert('Database Error', (dbError as any).message);
+        Alert.alert('Database Error', dbError?.message);
         return;
       }
-      
-      console.log('Database insert successful:', dbData);
-      if (dbData && dbData[0]) {
-        setCurrentScanId(dbData[0].id);
+
+      console.log('Database insert successful:', scanId);
+      // The photos belong to the scan now
+      photoUploadsRef.current.clear();
+      const saved = { items: analysis.items, location: locationName, findings: analysis.findings, provenance: analysis.provenance };
+      edits.load(selectedPropId, scanId, saved);
+      // Corrections made on the overlay while the insert was running are saved like any later edit
+      const corrected = overlayItemsRef.current;
+      overlayItemsRef.current = null;
+      if (corrected && corrected !== analysis.items) edits.change({ ...saved, items: corrected });
+      recordScannedPlace(savedRoomName, locationName);
+
+      if (failureReason) {
+        Alert.alert(
+          'Analysis Failed',
+          `${failureReason}\n\nThe photos were saved. You can re-run the analysis from the scan's page.`
+        );
+        resetCapture();
+        return;
       }
 
-      const totalItems = Array.isArray(results) 
-        ? results.reduce((sum: number, item: AnalysisItem) => sum + (item.count || 0), 0)
-        : 0;
+      if (scanMode === 'damage') {
+        Alert.alert('Damage Check Complete!', `Found ${analysis.findings.length} surface defects.`);
+        return;
+      }
+
+      await fileInCatalog(corrected || analysis.items);
+      const totalItems = analysis.items.reduce((sum: number, item: InventoryItem) => sum + (item.count || 0), 0);
         
       Alert.alert('Inventory Complete!', `Found ${totalItems} items.`);
 
@@ -217,75 +774,158 @@ export default function ScanScreen() {
     }
   }
 
-  const renderItem = ({ item, index }: { item: AnalysisItem, index: number }) => (
-    <View style={styles.resultItem}>
-      <TextInput
-        style={[styles.resultText, styles.editableInput]}
-        value={item.name}
-        onChangeText={(text) => updateAnalysisItem(index, { name: text })}
-      />
-      <View style={styles.miniStepper}>
-        <TouchableOpacity onPress={() => updateAnalysisItem(index, { count: Math.max(0, item.count - 1) })}>
-          <FontAwesome name="minus-circle" size={20} color="#FF3B30" />
-        </TouchableOpacity>
-        <Text style={styles.itemCountText}>{item.count}</Text>
-        <TouchableOpacity onPress={() => updateAnalysisItem(index, { count: item.count + 1 })}>
-          <FontAwesome name="plus-circle" size={20} color="#34C759" />
-        </TouchableOpacity>
+  const renderFinding = ({ item }: { item: SurfaceFinding }) => (
+    <View style={[styles.resultItem, styles.resultRow]}>
+      <View style={styles.resultText}>
+        <Text style={styles.findingTitle}>{item.surface}{item.location ? ` - ${item.location}` : ''}</Text>
+        <Text style={styles.findingDescription}>{item.description}</Text>
       </View>
+      <SeverityBadge severity={item.severity} />
     </View>
   );
 
-  if (photo) {
+  if (photos.length > 0 && !addingAngle) {
     return (
       <View style={styles.container}>
-        <Image source={{ uri: photo }} style={styles.preview} />
+        <Image source={{ uri: photos[photos.length - 1] }} style={styles.preview} />
+
+        {photos.length > 1 && (
+          <ScrollView horizontal style={styles.thumbnailStrip} contentContainerStyle={styles.thumbnailStripContent}>
+            {photos.map((uri, index) => (
+              <Image key={uri} source={{ uri }} style={styles.thumbnail} />
+            ))}
+          </ScrollView>
+        )}
         
+        {!analysisResults && (
+          <View style={styles.placementPanel}>
+            <View style={styles.placementHeader}>
+              <Text style={styles.placementTitle}>Where was this taken?</Text>
+              {suggestingPlacement ? (
+                <ActivityIndicator size="small" color="white" />
+              ) : placementSuggested && (
+                <Text style={styles.placementHint}>Suggested from photo</Text>
+              )}
+            </View>
+            <TextInput
+              style={styles.placementInput}
+              value={roomName}
+              onChangeText={editRoomName}
+              placeholder="Room (e.g. Kitchen)"
+              placeholderTextColor="rgba(255,255,255,0.6)"
+              editable={!uploading && !analyzing}
+            />
+            <TextInput
+              style={[styles.placementInput, styles.locationInput]}
+              value={locationName}
+              onChangeText={editLocationName}
+              placeholder="Location (e.g. East Wall)"
+              placeholderTextColor="rgba(255,255,255,0.6)"
+              editable={!uploading && !analyzing}
+            />
+            {knownRooms.length > 0 && (
+              <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                {knownRooms.map(room => (
+                  <TouchableOpacity
+                    key={room}
+                    style={[styles.roomChip, room === roomName && styles.roomChipActive]}
+                    onPress={() => editRoomName(room)}
+                    disabled={uploading || analyzing}
+                  >
+                    <Text style={[styles.roomChipText, room === roomName && styles.roomChipTextActive]}>{room}</Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+            )}
+          </View>
+        )}
+
         {analyzing && (
           <View style={styles.analyzingOverlay}>
             <ActivityIndicator size="large" color="white" />
             <Text style={styles.analyzingText}>Analyzing...</Text>
+            <TouchableOpacity style={styles.cancelAnalysisButton} onPress={() => analysisAbortRef.current?.abort()}>
+              <Text style={styles.cancelAnalysisText}>Cancel</Text>
+            </TouchableOpacity>
           </View>
         )}
 
-        {analysisResults && (
+        {analysisResults && scanMode === 'damage' && (
+          <View style={styles.resultsContainer}>
+            <Text style={styles.resultsTitle}>Surface Damage</Text>
+            {findings.length === 0 ? (
+              <Text style={styles.emptyFindings}>No damage found.</Text>
+            ) : (
+              <FlatList
+                data={findings}
+                renderItem={renderFinding}
+                keyExtractor={(item, index) => index.toString()}
+                style={styles.resultsList}
+              />
+            )}
+
+            <TouchableOpacity 
+              style={styles.scanNextButton} 
+              onPress={scanNext}
+            >
+              <Text style={styles.scanNextText}>Check Next Area</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity 
+              style={styles.finishButton} 
+              onPress={finishRoom}
+            >
+              <Text style={styles.finishText}>Finish Room</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {shownItems && scanMode === 'items' && (
           <View style={styles.resultsContainer}>
             <Text style={styles.resultsTitle}>Analyze Results</Text>
-            <View style={styles.resultHeader}>
-              <Text style={[styles.headerText, { flex: 1 }]}>Item</Text>
-              <Text style={[styles.headerText, { width: 80, textAlign: 'center' }]}>Qty</Text>
-            </View>
-            <FlatList
-              data={analysisResults}
-              renderItem={renderItem}
-              keyExtractor={(item, index) => index.toString()}
-              style={styles.resultsList}
-            />
+            {edits.state && (
+              <EditStatusBar
+                state={edits.state}
+                onUndo={edits.undo}
+                onRedo={edits.redo}
+                onRetry={edits.flush}
+                style={styles.editStatusBar}
+              />
+            )}
+            {countItemsNeedingReview(shownItems) > 0 && (
+              <Text style={styles.reviewSummary}>
+                {countItemsNeedingReview(shownItems)} item(s) need review. Confirm or correct them.
+              </Text>
+            )}
+            <CatalogSuggestionList suggestions={catalogSuggestions} onResolve={resolveSuggestion} />
+            <ScrollView style={styles.resultsList} keyboardShouldPersistTaps="handled">
+              <ItemEditor
+                items={shownItems}
+                onChange={updateAnalysisItems}
+                priceList={priceList}
+                catalog={catalog}
+                compact
+              />
+            </ScrollView>
             <View style={styles.totalContainer}>
               <Text style={styles.totalText}>
-                Total Items: {analysisResults.reduce((sum, item) => sum + item.count, 0)}
+                Total Items: {shownItems.reduce((sum, item) => sum + item.count, 0)}
+              </Text>
+              <Text style={styles.valueText}>
+                Est. value: {formatTotals(valueItems(shownItems, priceList))}
               </Text>
             </View>
             
             <TouchableOpacity 
               style={styles.scanNextButton} 
-              onPress={() => {
-                setPhoto(null);
-                setAnalysisResults(null);
-              }}
+              onPress={scanNext}
             >
               <Text style={styles.scanNextText}>Scan Next Item</Text>
             </TouchableOpacity>
             
             <TouchableOpacity 
               style={styles.finishButton} 
-              onPress={() => {
-                setPhoto(null);
-                setAnalysisResults(null);
-                // Navigate to the property detail for the current property
-                router.replace({ pathname: '/property/[id]', params: { id: selectedPropId } });
-                setSelectedPropId(null); // Reset if they come back to scan tab directly
-              }}
+              onPress={finishRoom}
             >
               <Text style={styles.finishText}>Finish Room</Text>
             </TouchableOpacity>
@@ -295,14 +935,20 @@ export default function ScanScreen() {
         <View style={styles.previewButtonContainer}>
           <TouchableOpacity 
             style={styles.previewButton} 
-            onPress={() => {
-              setPhoto(null);
-              setAnalysisResults(null);
-            }}
+            onPress={() => leaveResults()}
             disabled={uploading || analyzing}
           >
             <Text style={styles.buttonText}>Retake</Text>
           </TouchableOpacity>
+          {!analysisResults && (
+            <TouchableOpacity 
+              style={[styles.previewButton, photos.length >= MAX_IMAGES_PER_REQUEST && styles.disabledButton]} 
+              onPress={() => setAddingAngle(true)}
+              disabled={uploading || analyzing || photos.length >= MAX_IMAGES_PER_REQUEST}
+            >
+              <Text style={styles.buttonText}>Add Angle</Text>
+            </TouchableOpacity>
+          )}
           {!analysisResults && (
             <TouchableOpacity 
               style={[styles.previewButton, styles.saveButton]} 
@@ -310,7 +956,7 @@ export default function ScanScreen() {
               disabled={uploading || analyzing}
             >
               <Text style={styles.buttonText}>
-                {uploading ? 'Uploading...' : 'Save'}
+                {uploading ? 'Uploading...' : photos.length > 1 ? `Save (${photos.length})` : 'Save'}
               </Text>
             </TouchableOpacity>
           )}
@@ -319,32 +965,190 @@ export default function ScanScreen() {
     );
   }
 
-  return (
-    <View style={styles.container}>
-      <CameraView style={styles.camera} facing="back" ref={cameraRef}>
-        <SafeAreaView style={styles.headerOverlay}>
-          <TextInput
-            style={styles.roomInput}
-            value={roomName}
-            onChangeText={setRoomName}
-            placeholder="Room (e.g. Kitchen)"
-            placeholderTextColor="rgba(255,255,255,0.7)"
-          />
-          <TextInput
-            style={[styles.roomInput, styles.locationInput]}
-            value={locationName}
-            onChangeText={setLocationName}
-            placeholder="Location (e.g. East Wall)"
-            placeholderTextColor="rgba(255,255,255,0.7)"
-          />
-        </SafeAreaView>
-        <View style={styles.shutterContainer}>
+  // Drawn over the camera preview, or over the drop zone on web
+  const captureOverlay = (
+    <>
+      <SafeAreaView style={styles.headerOverlay}>
+        {/* Video and tags need a live camera, and imports pick photo or burst by how many come in */}
+        {!IMPORT_ONLY && (
+          <View style={styles.modeToggle}>
+            {(['photo', 'burst', 'video', 'tag'] as CaptureKind[]).map(kind => (
+              <TouchableOpacity
+                key={kind}
+                style={[styles.modeButton, captureKind === kind && styles.modeButtonActive]}
+                onPress={() => selectCaptureKind(kind)}
+                disabled={
+                  recording || extractingFrames || !!scannedTag ||
+                  (photos.length > 0 && (scanMode === 'damage' || kind === 'burst' || kind === 'tag')) ||
+                  // A burst has to be finished before switching, so its tray isn't left behind
+                  (captureKind === 'burst' && burstShots.length > 0)
+                }
+              >
+                <Text style={[styles.modeText, captureKind === kind && styles.modeTextActive]}>
+                  {CAPTURE_KIND_LABELS[kind]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+        {(captureKind === 'photo' || captureKind === 'burst') && (
+          <View style={styles.modeToggle}>
+            {(['items', 'damage'] as ScanMode[]).map(mode => (
+              <TouchableOpacity
+                key={mode}
+                style={[styles.modeButton, scanMode === mode && styles.modeButtonActive]}
+                onPress={() => setScanMode(mode)}
+                disabled={photos.length > 0}
+              >
+                <Text style={[styles.modeText, scanMode === mode && styles.modeTextActive]}>
+                  {mode === 'items' ? 'Items' : 'Damage'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+        {!IMPORT_ONLY && (captureKind === 'photo' || captureKind === 'burst') && (
+          <View style={styles.modeToggle}>
+            <TouchableOpacity style={styles.checklistButton} onPress={() => importPhotos(pickPhotosFromLibrary)} disabled={importing}>
+              <FontAwesome name="image" size={14} color="white" />
+              <Text style={styles.modeText}> Gallery</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.checklistButton} onPress={() => importPhotos(pickPhotoFiles)} disabled={importing}>
+              <FontAwesome name="folder-open" size={14} color="white" />
+              <Text style={styles.modeText}> Files</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+        <TextInput
+          style={styles.roomInput}
+          value={roomName}
+          onChangeText={editRoomName}
+          placeholder="Room (e.g. Kitchen)"
+          placeholderTextColor="rgba(255,255,255,0.7)"
+        />
+        <TextInput
+          style={[styles.roomInput, styles.locationInput]}
+          value={locationName}
+          onChangeText={editLocationName}
+          placeholder="Location (e.g. East Wall)"
+          placeholderTextColor="rgba(255,255,255,0.7)"
+        />
+        {roomTemplate.length > 0 && (
+          <View style={styles.modeToggle}>
+            <TouchableOpacity style={styles.checklistButton} onPress={() => setChecklistVisible(true)}>
+              <FontAwesome name={currentSpot && currentSpot.scanCount > 0 ? 'check-circle' : 'list-ul'} size={14} color="white" />
+              <Text style={styles.modeText}> {coverage.scanned}/{coverage.total} spots</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.checklistButton} onPress={advanceChecklist}>
+              <Text style={styles.modeText}>Next spot </Text>
+              <FontAwesome name="chevron-right" size={12} color="white" />
+            </TouchableOpacity>
+          </View>
+        )}
+      </SafeAreaView>
+      {/* box-none lets taps through to the drop zone's own button on web */}
+      <View style={styles.shutterContainer} pointerEvents="box-none">
+        {addingAngle && (
+          <TouchableOpacity style={styles.anglesButton} onPress={() => setAddingAngle(false)}>
+            <Text style={styles.anglesText}>Done ({photos.length})</Text>
+          </TouchableOpacity>
+        )}
+        {recording && (
+          <Text style={styles.recordingText}>● {recordingSeconds}s / {MAX_VIDEO_SECONDS}s</Text>
+        )}
+        {captureKind === 'burst' && burstShots.length > 0 && (
+          <TouchableOpacity style={styles.anglesButton} onPress={() => setReviewingBurst(true)}>
+            <Text style={styles.anglesText}>
+              Review ({burstShots.length})
+              {burstShots.some(isShotPending) ? ` · ${burstShots.filter(isShotPending).length} analyzing` : ''}
+            </Text>
+          </TouchableOpacity>
+        )}
+        {tagMessage && (
+          <View style={styles.anglesButton}>
+            <Text style={styles.anglesText}>✓ {tagMessage}</Text>
+          </View>
+        )}
+        {IMPORT_ONLY ? null : captureKind === 'tag' ? (
+          <Text style={styles.tagHint}>Point the camera at an asset's QR code or barcode</Text>
+        ) : (
           <TouchableOpacity 
-            style={styles.shutterButton} 
-            onPress={takePicture}
+            style={[styles.shutterButton, captureKind === 'video' && styles.videoShutterButton, recording && styles.recordingShutterButton]} 
+            onPress={captureKind === 'video' ? toggleRecording : captureKind === 'burst' ? takeBurstShot : takePicture}
+            disabled={extractingFrames}
           />
+        )}
+      </View>
+      {scannedTag && selectedPropId && (
+        <TagScanSheet
+          key={scannedTag.code}
+          tag={scannedTag}
+          propertyId={selectedPropId}
+          roomName={roomName}
+          location={locationName}
+          onTakePhoto={takeTagPhoto}
+          onSaved={closeTag}
+          onCancel={() => closeTag()}
+          onViewAsset={(assetId) => router.push({ pathname: '/asset', params: { id: assetId } })}
+        />
+      )}
+      {extractingFrames && (
+        <View style={styles.analyzingOverlay}>
+          <ActivityIndicator size="large" color="white" />
+          <Text style={styles.analyzingText}>Picking keyframes...</Text>
         </View>
-      </CameraView>
+      )}
+      {importing && (
+        <View style={styles.analyzingOverlay}>
+          <ActivityIndicator size="large" color="white" />
+          <Text style={styles.analyzingText}>Importing photos...</Text>
+        </View>
+      )}
+    </>
+  );
+
+  return (
+    <View style={styles.container}>
+      {IMPORT_ONLY ? (
+        <PhotoDropZone
+          style={styles.camera}
+          onDropFiles={(files) => importPhotos(() => importDroppedFiles(files))}
+          onChooseFiles={() => importPhotos(pickPhotoFiles)}
+        >
+          {captureOverlay}
+        </PhotoDropZone>
+      ) : (
+        <CameraView
+          style={styles.camera}
+          facing="back"
+          ref={cameraRef}
+          mode={captureKind === 'video' ? 'video' : 'picture'}
+          mute
+          barcodeScannerSettings={{ barcodeTypes: TAG_BARCODE_TYPES }}
+          onBarcodeScanned={captureKind === 'tag' && !scannedTag ? handleBarcodeScanned : undefined}
+        >
+          {captureOverlay}
+        </CameraView>
+      )}
+      <WalkthroughChecklist
+        visible={checklistVisible}
+        coverage={coverage}
+        current={currentSpot}
+        onSelect={goToSpot}
+        onClose={() => setChecklistVisible(false)}
+      />
+      <BatchReviewTray
+        visible={reviewingBurst}
+        shots={burstShots}
+        edits={burstEdits}
+        priceList={priceList}
+        catalog={catalog}
+        catalogSuggestions={catalogSuggestions}
+        onResolveSuggestion={resolveSuggestion}
+        onRetry={(shotId) => batchRef.current?.retry(shotId)}
+        onClose={() => setReviewingBurst(false)}
+        onFinish={finishBurst}
+      />
     </View>
   );
 }
@@ -415,11 +1219,104 @@ const styles = StyleSheet.create({
     minWidth: 150,
     marginBottom: 8,
   },
+  modeToggle: {
+    flexDirection: 'row',
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    borderRadius: 20,
+    padding: 3,
+    marginBottom: 8,
+  },
+  modeButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+    borderRadius: 17,
+  },
+  tagHint: {
+    color: 'white',
+    fontSize: 15,
+    fontWeight: '600',
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 16,
+    overflow: 'hidden',
+  },
+  checklistButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  modeButtonActive: {
+    backgroundColor: 'white',
+  },
+  modeText: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  modeTextActive: {
+    color: 'black',
+  },
   locationInput: {
     fontSize: 14,
     fontWeight: '400',
     minWidth: 200,
   },
+  placementPanel: {
+    position: 'absolute',
+    top: 50,
+    left: 15,
+    right: 15,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    borderRadius: 12,
+    padding: 12,
+    zIndex: 5,
+  },
+  placementHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  placementTitle: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  placementHint: {
+    color: 'rgba(255,255,255,0.7)',
+    fontSize: 12,
+    fontStyle: 'italic',
+  },
+  placementInput: {
+    backgroundColor: 'rgba(255,255,255,0.15)',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  roomChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 5,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.6)',
+    marginRight: 6,
+  },
+  roomChipActive: {
+    backgroundColor: 'white',
+  },
+  roomChipText: {
+    color: 'white',
+    fontSize: 13,
+  },
+  roomChipTextActive: {
+    color: 'black',
+    fontWeight: '600',
+  },
   shutterButton: {
     width: 70,
     height: 70,
@@ -428,10 +1325,53 @@ const styles = StyleSheet.create({
     borderWidth: 5,
     borderColor: '#ccc',
   },
+  videoShutterButton: {
+    backgroundColor: '#FF3B30',
+  },
+  recordingShutterButton: {
+    borderRadius: 12,
+  },
+  recordingText: {
+    color: 'white',
+    backgroundColor: 'rgba(255,59,48,0.8)',
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderRadius: 12,
+    fontWeight: '600',
+    marginBottom: 12,
+    overflow: 'hidden',
+  },
   preview: {
     flex: 1,
     resizeMode: 'contain',
   },
+  thumbnailStrip: {
+    flexGrow: 0,
+    backgroundColor: 'black',
+  },
+  thumbnailStripContent: {
+    paddingHorizontal: 10,
+    paddingTop: 10,
+  },
+  thumbnail: {
+    width: 60,
+    height: 60,
+    borderRadius: 6,
+    marginRight: 8,
+    backgroundColor: '#333',
+  },
+  anglesButton: {
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 16,
+    marginBottom: 15,
+  },
+  anglesText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
   analyzingOverlay: {
     ...StyleSheet.absoluteFillObject,
     backgroundColor: 'rgba(0,0,0,0.6)',
@@ -444,6 +1384,19 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: 'bold',
   },
+  cancelAnalysisButton: {
+    marginTop: 20,
+    paddingHorizontal: 24,
+    paddingVertical: 10,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: 'white',
+  },
+  cancelAnalysisText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
   resultsContainer: {
     backgroundColor: 'white',
     margin: 20,
@@ -462,48 +1415,47 @@ const styles = StyleSheet.create({
     marginBottom: 10,
     textAlign: 'center',
   },
-  resultHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    borderBottomWidth: 1,
-    borderBottomColor: '#eee',
-    paddingBottom: 5,
-    marginBottom: 5,
-  },
-  headerText: {
-    fontWeight: 'bold',
-    flex: 1,
-  },
   resultsList: {
     flexGrow: 0,
   },
+  editStatusBar: {
+    marginBottom: 6,
+  },
   resultItem: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
     paddingVertical: 5,
     borderBottomWidth: 0.5,
     borderBottomColor: '#f0f0f0',
   },
-  resultText: {
-    flex: 1,
-  },
-  editableInput: {
-    backgroundColor: '#f9f9f9',
-    padding: 5,
-    borderRadius: 4,
-    borderWidth: 0.5,
-    borderColor: '#ddd',
+  reviewSummary: {
+    color: REVIEW_COLOR,
+    fontSize: 13,
+    fontWeight: '600',
+    marginBottom: 8,
   },
-  miniStepper: {
+  resultRow: {
     flexDirection: 'row',
-    alignItems: 'center',
-    width: 80,
     justifyContent: 'space-between',
-    marginLeft: 10,
   },
-  itemCountText: {
-    fontWeight: 'bold',
-    fontSize: 16,
+  valueText: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 2,
+  },
+  findingTitle: {
+    fontWeight: '600',
+  },
+  findingDescription: {
+    fontSize: 12,
+    color: '#666',
+  },
+  emptyFindings: {
+    textAlign: 'center',
+    color: '#999',
+    fontStyle: 'italic',
+    paddingVertical: 10,
+  },
+  resultText: {
+    flex: 1,
   },
   totalContainer: {
     marginTop: 10,
@@ -532,6 +1484,9 @@ const styles = StyleSheet.create({
   saveButton: {
     backgroundColor: '#007AFF',
   },
+  disabledButton: {
+    opacity: 0.5,
+  },
   buttonText: {
     color: 'white',
     fontSize: 16,
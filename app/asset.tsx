@@ -0,0 +1,215 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, Text, View, ScrollView, Image, ActivityIndicator, Alert } from 'react-native';
+import { useLocalSearchParams, Stack } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { FontAwesome } from '@expo/vector-icons';
+import { supabase, getPhotoUrl, AssetSighting } from '@/lib/supabase';
+import { AssetWithSightings, currentCondition, fetchAsset, latestSighting } from '@/lib/assets';
+import { CONDITION_COLORS } from '@/components/ConditionPicker';
+
+const SOURCE_LABELS = {
+  inventory: 'Inventory',
+  audit: 'Audit',
+};
+
+function formatSeenAt(seenAt: string) {
+  return new Date(seenAt).toLocaleString(undefined, {
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+}
+
+function describePlace(sighting: AssetSighting, propertyNames: Record<string, string>) {
+  const property = sighting.property_id ? propertyNames[sighting.property_id] : null;
+  return [property, sighting.room_name, sighting.location].filter(Boolean).join(' · ') || 'Unknown location';
+}
+
+export default function AssetScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [asset, setAsset] = useState<AssetWithSightings | null>(null);
+  // Sightings can be at other properties if the item was moved
+  const [propertyNames, setPropertyNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (id) loadAsset();
+  }, [id]);
+
+  async function loadAsset() {
+    try {
+      setLoading(true);
+      const loaded = await fetchAsset(id);
+      setAsset(loaded);
+      const propertyIds = Array.from(new Set(loaded.sightings.map(s => s.property_id).filter((p): p is string => !!p)));
+      if (propertyIds.length > 0) {
+        const { data } = await supabase.from('properties').select('id, name').in('id', propertyIds);
+        setPropertyNames(Object.fromEntries((data || []).map(property => [property.id, property.name])));
+      }
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to load asset');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  if (loading || !asset) {
+    return (
+      <View style={styles.centerContainer}>
+        {loading ? <ActivityIndicator size="large" color="#007AFF" /> : <Text style={styles.emptyText}>Asset not found.</Text>}
+      </View>
+    );
+  }
+
+  const last = latestSighting(asset.sightings);
+  const condition = currentCondition(asset.sightings);
+
+  return (
+    <SafeAreaView style={styles.container} edges={['left', 'right', 'bottom']}>
+      <Stack.Screen options={{ title: asset.name }} />
+      <ScrollView contentContainerStyle={styles.content}>
+        {asset.image_paths.length > 0 && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.photoStrip}>
+            {[...asset.image_paths].reverse().map(path => (
+              <Image key={path} source={{ uri: getPhotoUrl(path) }} style={styles.photo} />
+            ))}
+          </ScrollView>
+        )}
+
+        <View style={styles.section}>
+          <Text style={styles.name}>{asset.name}</Text>
+          <View style={styles.tagRow}>
+            <FontAwesome name="tag" size={12} color="#666" />
+            <Text style={styles.tagText}>{asset.tag_code}{asset.tag_type ? ` (${asset.tag_type})` : ''}</Text>
+          </View>
+          {condition && (
+            <View style={[styles.conditionBadge, { backgroundColor: CONDITION_COLORS[condition] }]}>
+              <Text style={styles.conditionText}>{condition}</Text>
+            </View>
+          )}
+        </View>
+
+        <View style={styles.lastSeenCard}>
+          <Text style={styles.sectionTitle}>Last Confirmed</Text>
+          {last ? (
+            <>
+              <Text style={styles.lastSeenPlace}>{describePlace(last, propertyNames)}</Text>
+              <Text style={styles.detailText}>{formatSeenAt(last.seen_at)} · {SOURCE_LABELS[last.source]}</Text>
+            </>
+          ) : (
+            <Text style={styles.emptyText}>This tag hasn't been scanned since it was registered.</Text>
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>History</Text>
+          {asset.sightings.map(sighting => (
+            <View key={sighting.id} style={styles.sightingRow}>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.sightingPlace}>{describePlace(sighting, propertyNames)}</Text>
+                <Text style={styles.detailText}>{formatSeenAt(sighting.seen_at)} · {SOURCE_LABELS[sighting.source]}</Text>
+              </View>
+              {sighting.condition && (
+                <View style={[styles.conditionBadge, { backgroundColor: CONDITION_COLORS[sighting.condition] }]}>
+                  <Text style={styles.conditionText}>{sighting.condition}</Text>
+                </View>
+              )}
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: 15,
+  },
+  photoStrip: {
+    marginBottom: 15,
+  },
+  photo: {
+    width: 160,
+    height: 160,
+    borderRadius: 10,
+    marginRight: 10,
+    backgroundColor: '#eee',
+  },
+  section: {
+    marginBottom: 20,
+  },
+  name: {
+    fontSize: 24,
+    fontWeight: 'bold',
+  },
+  tagRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  tagText: {
+    fontSize: 13,
+    color: '#666',
+    marginLeft: 6,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 10,
+  },
+  lastSeenCard: {
+    backgroundColor: 'white',
+    padding: 15,
+    borderRadius: 10,
+    marginBottom: 20,
+  },
+  lastSeenPlace: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  detailText: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  sightingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    padding: 12,
+    borderRadius: 10,
+    marginBottom: 8,
+  },
+  sightingPlace: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  conditionBadge: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  conditionText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  emptyText: {
+    color: '#999',
+    fontStyle: 'italic',
+  },
+});
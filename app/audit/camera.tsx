@@ -1,18 +1,35 @@
-import { CameraView, useCameraPermissions } from 'expo-camera';
-import { useRef, useState } from 'react';
+import { BarcodeScanningResult, CameraView, useCameraPermissions } from 'expo-camera';
+import { useEffect, useRef, useState } from 'react';
 import { StyleSheet, Text, TouchableOpacity, View, Button, Image } from 'react-native';
 import { router, useLocalSearchParams } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { FontAwesome } from '@expo/vector-icons';
+import { preparePhoto } from '@/lib/imagePipeline';
+import { TAG_BARCODE_TYPES, findAssetByTag, normalizeTagCode, recordSighting } from '@/lib/assets';
 
 export default function AuditCameraScreen() {
-  const { originalImageUri, expectedItems } = useLocalSearchParams<{ 
+  // The scan being audited, for recording asset tags seen while lining up the shot
+  const { originalImageUri, originalImagePath, expectedItems, scanId, propertyId, roomName, location } = useLocalSearchParams<{ 
     originalImageUri: string; 
+    originalImagePath: string;
     expectedItems: string; 
+    scanId?: string;
+    propertyId?: string;
+    roomName?: string;
+    location?: string;
   }>();
   
   const [permission, requestPermission] = useCameraPermissions();
+  const [tagMessage, setTagMessage] = useState<string | null>(null);
   const cameraRef = useRef<CameraView>(null);
+  // Each tag is recorded once per audit; the camera reports codes many times a second
+  const handledTagsRef = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (!tagMessage) return;
+    const timer = setTimeout(() => setTagMessage(null), 3000);
+    return () => clearTimeout(timer);
+  }, [tagMessage]);
 
   if (!permission) {
     return <View style={styles.container} />;
@@ -27,15 +44,43 @@ export default function AuditCameraScreen() {
     );
   }
 
+  async function handleBarcodeScanned({ data }: BarcodeScanningResult) {
+    const code = normalizeTagCode(data);
+    if (!code || handledTagsRef.current.has(code)) return;
+    handledTagsRef.current.add(code);
+    try {
+      const asset = await findAssetByTag(code);
+      if (!asset) {
+        setTagMessage('Unknown tag. Register it from the Tag mode on the scan tab.');
+        return;
+      }
+      await recordSighting({
+        assetId: asset.id,
+        propertyId: propertyId || null,
+        roomName: roomName || null,
+        location,
+        source: 'audit',
+        scanId,
+      });
+      setTagMessage(`✓ ${asset.name} seen`);
+    } catch (error) {
+      // Lets the tag be read again to retry
+      handledTagsRef.current.delete(code);
+      console.error('Audit tag sighting error:', error);
+    }
+  }
+
   async function takePicture() {
     if (cameraRef.current) {
       const result = await cameraRef.current.takePictureAsync();
       if (result) {
+        const photo = await preparePhoto(result.uri);
         router.push({
           pathname: '/audit/report',
           params: {
-            newImageUri: result.uri,
+            newImageUri: photo.uri,
             originalImageUri,
+            originalImagePath,
             expectedItems
           }
         });
@@ -45,7 +90,13 @@ export default function AuditCameraScreen() {
 
   return (
     <View style={styles.container}>
-      <CameraView style={styles.camera} facing="back" ref={cameraRef}>
+      <CameraView
+        style={styles.camera}
+        facing="back"
+        ref={cameraRef}
+        barcodeScannerSettings={{ barcodeTypes: TAG_BARCODE_TYPES }}
+        onBarcodeScanned={handleBarcodeScanned}
+      >
         {/* Ghost Overlay */}
         {originalImageUri && (
           <View style={styles.ghostContainer} pointerEvents="none">
@@ -65,6 +116,7 @@ export default function AuditCameraScreen() {
           </View>
           
           <View style={styles.shutterContainer}>
+            {tagMessage && <Text style={styles.tagMessage}>{tagMessage}</Text>}
             <TouchableOpacity style={styles.shutterButton} onPress={takePicture} />
           </View>
         </SafeAreaView>
@@ -111,6 +163,17 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 40,
   },
+  tagMessage: {
+    color: 'white',
+    fontSize: 15,
+    fontWeight: '600',
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 16,
+    overflow: 'hidden',
+    marginBottom: 15,
+  },
   shutterButton: {
     width: 70,
     height: 70,
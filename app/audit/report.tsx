@@ -1,39 +1,54 @@
 import React, { useEffect, useState } from 'react';
-import { StyleSheet, Text, View, FlatList, ActivityIndicator, TouchableOpacity, Image } from 'react-native';
+import { StyleSheet, Text, View, FlatList, ActivityIndicator, TouchableOpacity, Image, Alert } from 'react-native';
 import { useLocalSearchParams, router, Stack } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
-import { verifyInventory } from '@/lib/gemini';
+import { verifyInventory } from '@/lib/vision';
+import { AuditResult, AuditChange, AuditChangeKind } from '@/lib/supabase';
+import { statusForCounts } from '@/lib/validation';
+import { AnalysisCancelledError } from '@/lib/resilience';
+import { describeAnalysisFailure } from '@/lib/scanAnalysis';
+import { getActivePromptVersion } from '@/lib/settings';
 
-interface AuditResult {
-  item: string;
-  expected_count: number;
-  found_count: number;
-  status: 'Match' | 'Mismatch' | 'Missing';
-}
+const CHANGE_LABELS: Record<AuditChangeKind, { label: string; icon: keyof typeof Ionicons.glyphMap; color: string }> = {
+  added: { label: 'Added', icon: 'add-circle', color: '#007AFF' },
+  moved: { label: 'Moved', icon: 'swap-horizontal', color: '#5856D6' },
+  condition_changed: { label: 'Condition', icon: 'construct', color: '#FF9500' },
+};
 
 export default function AuditReportScreen() {
-  const { newImageUri, originalImageUri, expectedItems } = useLocalSearchParams<{
+  const { newImageUri, originalImageUri, originalImagePath, expectedItems } = useLocalSearchParams<{
     newImageUri: string;
     originalImageUri: string;
+    originalImagePath: string;
     expectedItems: string;
   }>();
 
   const [loading, setLoading] = useState(true);
   const [results, setResults] = useState<AuditResult[]>([]);
+  const [changes, setChanges] = useState<AuditChange[]>([]);
 
   useEffect(() => {
-    runVerification();
+    // Leaving the screen stops a verification that is still running
+    const controller = new AbortController();
+    runVerification(controller.signal);
+    return () => controller.abort();
   }, []);
 
-  async function runVerification() {
+  async function runVerification(signal: AbortSignal) {
     try {
       if (newImageUri && expectedItems) {
-        const auditResults = await verifyInventory(newImageUri, expectedItems);
-        setResults(auditResults);
+        const promptVersion = await getActivePromptVersion();
+        // Without the original photo the audit falls back to checking the list alone
+        const baseline = originalImageUri ? { uri: originalImageUri, storagePath: originalImagePath || undefined } : null;
+        const verification = await verifyInventory(newImageUri, expectedItems, baseline, { signal, promptVersion });
+        setResults(verification.results);
+        setChanges(verification.changes);
       }
     } catch (error) {
+      if (error instanceof AnalysisCancelledError) return;
       console.error('Audit verification error:', error);
+      Alert.alert('Verification Failed', describeAnalysisFailure(error));
     } finally {
       setLoading(false);
     }
@@ -43,9 +58,7 @@ export default function AuditReportScreen() {
     const newResults = [...results];
     const newCount = Math.max(0, newResults[index].found_count + change);
     newResults[index].found_count = newCount;
-    newResults[index].status = newCount === newResults[index].expected_count 
-      ? 'Match' 
-      : (newCount === 0 ? 'Missing' : 'Mismatch');
+    newResults[index].status = statusForCounts(newResults[index].expected_count, newCount);
     setResults(newResults);
   };
 
@@ -80,6 +93,32 @@ export default function AuditReportScreen() {
     </View>
   );
 
+  const renderChanges = () => {
+    if (changes.length === 0) return null;
+    return (
+      <View style={styles.changesBox}>
+        <Text style={styles.changesTitle}>Changes Since Original</Text>
+        {changes.map((change, index) => {
+          const { label, icon, color } = CHANGE_LABELS[change.kind];
+          return (
+            <View key={index} style={styles.changeRow}>
+              <Ionicons name={icon} size={24} color={color} />
+              <View style={styles.changeInfo}>
+                <Text style={styles.itemName}>
+                  {change.item} <Text style={[styles.changeLabel, { color }]}>{label}</Text>
+                </Text>
+                {change.previous_condition && change.current_condition && (
+                  <Text style={styles.itemCounts}>{change.previous_condition} → {change.current_condition}</Text>
+                )}
+                {!!change.description && <Text style={styles.changeDescription}>{change.description}</Text>}
+              </View>
+            </View>
+          );
+        })}
+      </View>
+    );
+  };
+
   return (
     <SafeAreaView style={styles.container}>
       <Stack.Screen options={{ title: 'Audit Report', headerLeft: () => null }} />
@@ -107,6 +146,7 @@ export default function AuditReportScreen() {
             data={results}
             renderItem={renderItem}
             keyExtractor={(item, index) => index.toString()}
+            ListFooterComponent={renderChanges}
             contentContainerStyle={styles.listContent}
           />
           <TouchableOpacity style={styles.finishButton} onPress={() => router.dismissAll()}>
@@ -219,6 +259,34 @@ const styles = StyleSheet.create({
     width: 35,
     alignItems: 'center',
   },
+  changesBox: {
+    marginTop: 20,
+  },
+  changesTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 5,
+  },
+  changeRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: 10,
+    borderBottomWidth: 0.5,
+    borderBottomColor: '#eee',
+  },
+  changeInfo: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  changeLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  changeDescription: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
   finishButton: {
     backgroundColor: '#5856D6',
     padding: 16,
@@ -0,0 +1,302 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, Text, View, ScrollView, TouchableOpacity, Alert, ActivityIndicator } from 'react-native';
+import { useLocalSearchParams, Stack } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { FontAwesome } from '@expo/vector-icons';
+import { updateCatalog, CatalogEntry, InventoryItem } from '@/lib/supabase';
+import { listPropertyScans } from '@/lib/scans';
+import {
+  addCatalogAlias,
+  addCatalogName,
+  findCatalogEntry,
+  findMergeCandidates,
+  groupItemsByCatalog,
+  matchItemsToCatalog,
+  mergeCatalogEntries,
+  normalizeCatalogName,
+  splitCatalogAlias,
+  suggestCatalogEntry,
+} from '@/lib/catalog';
+
+export default function CatalogScreen() {
+  const { propertyId } = useLocalSearchParams<{ propertyId: string }>();
+  const [catalog, setCatalog] = useState<CatalogEntry[]>([]);
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  // Entry picked with "Merge"; the next entry tapped becomes its target
+  const [mergeSource, setMergeSource] = useState<CatalogEntry | null>(null);
+
+  useEffect(() => {
+    if (propertyId) loadCatalog();
+  }, [propertyId]);
+
+  async function loadCatalog() {
+    try {
+      setLoading(true);
+      const scans = await listPropertyScans(propertyId);
+      const scanItems = scans.flatMap(scan => scan.items);
+      setItems(scanItems);
+      // Scans saved before the catalog existed are filed the first time it is opened
+      setCatalog(await updateCatalog(propertyId, saved => matchItemsToCatalog(saved, scanItems.map(item => item.name)).catalog));
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to load catalog');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  // Shown straight away, then replaced by the saved catalog the change was applied to
+  async function changeCatalog(change: (catalog: CatalogEntry[]) => CatalogEntry[]) {
+    const previous = catalog;
+    setCatalog(change(catalog));
+    try {
+      setCatalog(await updateCatalog(propertyId, change));
+    } catch (error: any) {
+      setCatalog(previous);
+      Alert.alert('Error', error.message || 'Failed to save catalog');
+    }
+  }
+
+  function selectEntry(entry: CatalogEntry) {
+    if (!mergeSource || mergeSource.id === entry.id) return;
+    Alert.alert('Merge Items', `Count "${mergeSource.name}" as "${entry.name}" from now on?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Merge',
+        onPress: () => {
+          changeCatalog(saved => mergeCatalogEntries(saved, mergeSource.id, entry.id));
+          setMergeSource(null);
+        },
+      },
+    ]);
+  }
+
+  function confirmSplit(entry: CatalogEntry, alias: string) {
+    Alert.alert('Split Item', `Count "${alias}" separately from "${entry.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Split', onPress: () => changeCatalog(saved => splitCatalogAlias(saved, entry.id, alias)) },
+    ]);
+  }
+
+  const counts = new Map(groupItemsByCatalog(items, catalog).map(group => [normalizeCatalogName(group.name), group.count]));
+  // Names from scans that were suggested as a merge but never accepted or rejected
+  const unfiled = Array.from(new Set(items.map(item => item.name.trim())))
+    .filter(name => name && !findCatalogEntry(catalog, name))
+    .map(name => ({ name, entry: suggestCatalogEntry(catalog, name) }))
+    .filter((suggestion): suggestion is { name: string; entry: CatalogEntry } => !!suggestion.entry);
+  const candidates = findMergeCandidates(catalog);
+  const entries = [...catalog].sort((a, b) => a.name.localeCompare(b.name));
+
+  if (loading) {
+    return (
+      <View style={styles.centerContainer}>
+        <ActivityIndicator size="large" color="#007AFF" />
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['left', 'right', 'bottom']}>
+      <Stack.Screen options={{ title: 'Item Catalog' }} />
+      <ScrollView contentContainerStyle={styles.content}>
+        {(unfiled.length > 0 || candidates.length > 0) && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Suggested Merges</Text>
+            {unfiled.map(({ name, entry }) => (
+              <View key={`name-${name}`} style={styles.suggestionRow}>
+                <Text style={styles.suggestionText}>"{name}" → "{entry.name}"</Text>
+                <TouchableOpacity onPress={() => changeCatalog(saved => addCatalogAlias(saved, entry.id, name))}>
+                  <Text style={styles.acceptText}>Merge</Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => changeCatalog(saved => addCatalogName(saved, name))}>
+                  <Text style={styles.rejectText}>Keep Separate</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+            {candidates.map(({ source, target }) => (
+              <View key={`entry-${source.id}`} style={styles.suggestionRow}>
+                <Text style={styles.suggestionText}>"{source.name}" → "{target.name}"</Text>
+                <TouchableOpacity onPress={() => changeCatalog(saved => mergeCatalogEntries(saved, source.id, target.id))}>
+                  <Text style={styles.acceptText}>Merge</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {mergeSource && (
+          <View style={styles.mergeBanner}>
+            <Text style={styles.mergeBannerText}>Tap the item to merge "{mergeSource.name}" into</Text>
+            <TouchableOpacity onPress={() => setMergeSource(null)}>
+              <Text style={styles.mergeCancelText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Items</Text>
+          {entries.length === 0 && <Text style={styles.emptyText}>No items scanned yet.</Text>}
+          {entries.map(entry => (
+            <TouchableOpacity
+              key={entry.id}
+              style={[styles.entryRow, mergeSource?.id === entry.id && styles.entryRowSelected]}
+              onPress={() => selectEntry(entry)}
+              disabled={!mergeSource}
+            >
+              <View style={styles.entryHeader}>
+                <Text style={styles.entryName}>{entry.name}</Text>
+                <Text style={styles.entryCount}>{counts.get(normalizeCatalogName(entry.name)) || 0}</Text>
+                {!mergeSource && (
+                  <TouchableOpacity onPress={() => setMergeSource(entry)} style={styles.mergeButton}>
+                    <FontAwesome name="compress" size={14} color="#007AFF" />
+                    <Text style={styles.mergeButtonText}>Merge</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+              {entry.aliases.length > 0 && (
+                <View style={styles.aliasList}>
+                  {entry.aliases.map(alias => (
+                    <TouchableOpacity
+                      key={alias}
+                      style={styles.aliasChip}
+                      onPress={() => confirmSplit(entry, alias)}
+                      disabled={!!mergeSource}
+                    >
+                      <Text style={styles.aliasText}>{alias}</Text>
+                      <FontAwesome name="times" size={10} color="#666" />
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+            </TouchableOpacity>
+          ))}
+          {entries.some(entry => entry.aliases.length > 0) && (
+            <Text style={styles.hintText}>Tap another name to count it separately again.</Text>
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: 15,
+  },
+  section: {
+    marginBottom: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 10,
+  },
+  suggestionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#EEF5FF',
+    padding: 12,
+    borderRadius: 10,
+    marginBottom: 8,
+  },
+  suggestionText: {
+    flex: 1,
+    fontSize: 14,
+  },
+  acceptText: {
+    color: '#007AFF',
+    fontWeight: 'bold',
+    marginLeft: 12,
+  },
+  rejectText: {
+    color: '#666',
+    marginLeft: 12,
+  },
+  mergeBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#007AFF',
+    padding: 12,
+    borderRadius: 10,
+    marginBottom: 15,
+  },
+  mergeBannerText: {
+    flex: 1,
+    color: 'white',
+    fontWeight: '600',
+  },
+  mergeCancelText: {
+    color: 'white',
+    marginLeft: 12,
+  },
+  entryRow: {
+    backgroundColor: 'white',
+    padding: 12,
+    borderRadius: 10,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  entryRowSelected: {
+    borderColor: '#007AFF',
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  entryName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  entryCount: {
+    fontSize: 14,
+    color: '#666',
+    marginRight: 12,
+  },
+  mergeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  mergeButtonText: {
+    color: '#007AFF',
+    marginLeft: 4,
+  },
+  aliasList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+  },
+  aliasChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f0f0f0',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  aliasText: {
+    fontSize: 12,
+    marginRight: 6,
+  },
+  emptyText: {
+    color: '#999',
+    fontStyle: 'italic',
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 4,
+  },
+});
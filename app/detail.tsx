@@ -1,83 +1,96 @@
-import React, { useEffect, useState } from 'react';
-import { StyleSheet, Text, View, TextInput, TouchableOpacity, Image, ScrollView, Alert, ActivityIndicator } from 'react-native';
-import { useLocalSearchParams, router } from 'expo-router';
+import React, { useEffect, useRef, useState } from 'react';
+import { StyleSheet, Text, View, TextInput, TouchableOpacity, ScrollView, Alert, ActivityIndicator, Platform } from 'react-native';
+import { useLocalSearchParams, useNavigation, router } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { supabase } from '@/lib/supabase';
+import { supabase, getScanImagePaths, downloadPhotos, updateCatalog, BoundingBox, PriceListEntry, CatalogEntry } from '@/lib/supabase';
 import { FontAwesome } from '@expo/vector-icons';
+import BoxOverlayImage from '@/components/BoxOverlayImage';
+import SeverityBadge from '@/components/SeverityBadge';
+import ItemEditor from '@/components/ItemEditor';
+import EditStatusBar from '@/components/EditStatusBar';
+import { useScanEdits } from '@/components/useScanEdits';
+import { REVIEW_COLOR } from '@/components/ReviewBadge';
+import { Severity, countItemsNeedingReview } from '@/lib/inventory';
+import { formatTotals, valueItems } from '@/lib/valuation';
+import { ScanMode, analyzeScanPhotos, describeAnalysisFailure } from '@/lib/scanAnalysis';
+import { AnalysisCancelledError } from '@/lib/resilience';
+import { getActivePromptVersion } from '@/lib/settings';
+import { canonicalizeItems, matchItemsToCatalog } from '@/lib/catalog';
+import { ScanResults, addItemBox, removeItemBox } from '@/lib/itemEdits';
+import { ScanChanges, ScanRecord, fetchScan, updateScanResults } from '@/lib/scans';
 
-interface InventoryItem {
-  name: string;
-  count: number;
-  condition: string;
-}
-
-interface ScanData {
-  id: string;
-  created_at: string;
-  room_name: string;
-  status: string;
-  image_path: string;
-  ai_analysis: InventoryItem[] | { items: InventoryItem[]; location?: string };
-}
+// Re-running downloads the photos with expo-file-system, which has no web implementation
+const CAN_RERUN = Platform.OS !== 'web';
 
 export default function DetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
-  const [scan, setScan] = useState<ScanData | null>(null);
+  const [scan, setScan] = useState<ScanRecord | null>(null);
   const [loading, setLoading] = useState(true);
-  const [saving, setSaving] = useState(false);
-  const [roomName, setRoomName] = useState('');
-  const [locationName, setLocationName] = useState('');
-  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [deleting, setDeleting] = useState(false);
+  const [selectedItem, setSelectedItem] = useState<number | null>(null);
+  const [priceList, setPriceList] = useState<PriceListEntry[]>([]);
+  const [catalog, setCatalog] = useState<CatalogEntry[]>([]);
+  const [rerunning, setRerunning] = useState(false);
+  const rerunAbortRef = useRef<AbortController | null>(null);
+  // Room, location, items and findings, saved as they're edited
+  const edits = useScanEdits();
+  const navigation = useNavigation();
+  // Set once leaving has been confirmed, so the listener lets the repeated action through
+  const leavingRef = useRef(false);
+
+  const results = edits.state?.results;
+  const items = results?.items || [];
+  const findings = results?.findings || [];
+  const roomName = results?.roomName ?? '';
+  const locationName = results?.location ?? '';
+  const provenance = results?.provenance;
 
   useEffect(() => {
     fetchScanDetails();
+    return () => rerunAbortRef.current?.abort();
   }, [id]);
 
-  async function fetchScanDetails() {
-    try {
-      const { data, error } = await supabase
-        .from('scans')
-        .select('*')
-        .eq('id', id)
-        .single();
-
-      if (error) throw error;
+  // Edits save themselves; leaving only has to wait for the last one, and warns if it failed
+  useEffect(() => {
+    return navigation.addListener('beforeRemove', (event) => {
+      if (leavingRef.current) return;
+      event.preventDefault();
+      edits.confirmLeave().then(leave => {
+        if (!leave) return;
+        leavingRef.current = true;
+        fileRenamedItems();
+        navigation.dispatch(event.data.action);
+      });
+    });
+    // Re-added on each change so the catalog is filed with the latest names
+  }, [navigation, results, catalog]);
 
-      console.log('Fetched Scan Data:', JSON.stringify(data, null, 2));
+  function updateResults(changes: Partial<ScanResults>) {
+    if (results) edits.change({ ...results, ...changes });
+  }
 
+  async function fetchScanDetails() {
+    try {
+      const data = await fetchScan(id);
       setScan(data);
-      setRoomName(data.room_name);
-      
-      // Robustly parse the items, handling both direct array and wrapped 'items' object
-      let parsedItems: InventoryItem[] = [];
-      let parsedLocation = '';
-      
-      // Handle case where ai_analysis might be a string (if Supabase returned it as text)
-      let aiAnalysis = data.ai_analysis;
-      if (typeof aiAnalysis === 'string') {
-        try {
-          aiAnalysis = JSON.parse(aiAnalysis);
-        } catch (e) {
-          console.error('Failed to parse ai_analysis string:', e);
-        }
-      }
 
-      if (Array.isArray(aiAnalysis)) {
-        parsedItems = aiAnalysis;
-      } else if (aiAnalysis && typeof aiAnalysis === 'object') {
-        if ('items' in aiAnalysis && Array.isArray((aiAnalysis as any).items)) {
-          parsedItems = (aiAnalysis as any).items;
-        }
-        if ('location' in aiAnalysis) {
-          parsedLocation = (aiAnalysis as any).location || '';
-        }
-      } else {
-        console.warn('Unexpected ai_analysis format:', aiAnalysis);
+      if (data.property_id) {
+        const { data: property } = await supabase
+          .from('properties')
+          .select('price_list, catalog')
+          .eq('id', data.property_id)
+          .single();
+        setPriceList(property?.price_list || []);
+        setCatalog(property?.catalog || []);
       }
-      
-      console.log('Parsed Items:', JSON.stringify(parsedItems, null, 2));
-      setItems(parsedItems);
-      setLocationName(parsedLocation);
+
+      edits.load(data.property_id, data.id, {
+        roomName: data.room_name,
+        items: data.items,
+        location: data.location || '',
+        findings: data.findings,
+        provenance: data.provenance,
+      });
     } catch (error: any) {
       Alert.alert('Error', 'Failed to fetch details');
       console.error(error);
@@ -90,65 +103,105 @@ export default function DetailScreen() {
     return supabase.storage.from('Photos').getPublicUrl(path).data.publicUrl;
   };
 
-  const updateItemCount = (index: number, change: number) => {
-    const newItems = [...items];
-    newItems[index].count = Math.max(0, newItems[index].count + change);
-    setItems(newItems);
+  const updateFindingSeverity = (index: number, severity: Severity) => {
+    const newFindings = [...findings];
+    newFindings[index] = { ...newFindings[index], severity };
+    updateResults({ findings: newFindings });
+  };
+
+  const updateFindingDescription = (index: number, text: string) => {
+    const newFindings = [...findings];
+    newFindings[index] = { ...newFindings[index], description: text };
+    updateResults({ findings: newFindings });
   };
 
-  const updateItemName = (index: number, text: string) => {
-    const newItems = [...items];
-    newItems[index].name = text;
-    setItems(newItems);
+  const removeFinding = (index: number) => {
+    updateResults({ findings: findings.filter((_, i) => i !== index) });
   };
 
-  const addItem = () => {
-    setItems([...items, { name: '', count: 1, condition: 'Good' }]);
+  const addBox = (index: number, box: BoundingBox) => {
+    updateResults({ items: addItemBox(items, index, box) });
   };
 
-  const removeItem = (index: number) => {
-    const newItems = [...items];
-    newItems.splice(index, 1);
-    setItems(newItems);
+  const removeBox = (index: number, boxIndex: number) => {
+    updateResults({ items: removeItemBox(items, index, boxIndex) });
   };
 
-  async function saveChanges() {
+  // Names typed here join the catalog; lookalikes wait on the catalog screen as suggested merges
+  async function fileRenamedItems() {
+    if (!scan?.property_id) return;
+    const names = items.map(item => item.name);
+    if (matchItemsToCatalog(catalog, names).catalog === catalog) return;
     try {
-      setSaving(true);
-      console.log('Attempting UPDATE for ID:', id);
-      
-      const { data, error } = await supabase
-        .from('scans')
-        .update({
-          room_name: roomName.trim(), // Normalize room name
-          ai_analysis: {
-            items: items,
-            location: locationName.trim()
-          },
-        })
-        .eq('id', id)
-        .select();
-
-      if (error) throw error;
-
-      // Check if the update actually affected any rows
-      if (!data || data.length === 0) {
-        Alert.alert(
-          'Update Failed (Permission Denied)', 
-          'The database refused the update. This is likely due to Row Level Security (RLS) policies.\n\nPlease go to Supabase > Authentication > Policies and enable UPDATE for the "scans" table.'
-        );
+      setCatalog(await updateCatalog(scan.property_id, saved => matchItemsToCatalog(saved, names).catalog));
+    } catch (error) {
+      console.error('Failed to update catalog:', error);
+    }
+  }
+
+  async function confirmRerun() {
+    const promptVersion = await getActivePromptVersion();
+    const replaces = scan?.status === 'failed' ? '' : ' This replaces the current results, including any edits.';
+    Alert.alert('Re-run Analysis', `Analyze the photos again with prompt ${promptVersion}?${replaces}`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Inventory', onPress: () => rerunAnalysis('items') },
+      { text: 'Damage', onPress: () => rerunAnalysis('damage') },
+    ]);
+  }
+
+  async function rerunAnalysis(mode: ScanMode) {
+    if (!scan) return;
+    const controller = new AbortController();
+    rerunAbortRef.current = controller;
+    setRerunning(true);
+
+    let update: ScanChanges;
+    try {
+      const paths = getScanImagePaths(scan);
+      const localUris = await downloadPhotos(paths);
+      const analysis = await analyzeScanPhotos(mode, localUris, { storagePaths: paths, signal: controller.signal });
+      update = {
+        status: 'complete',
+        failure_reason: null,
+        location: locationName.trim(),
+        items: analysis.items,
+        ai_analysis: { findings: analysis.findings, provenance: analysis.provenance },
+        needs_review: countItemsNeedingReview(analysis.items) > 0,
+      };
+    } catch (error) {
+      if (error instanceof AnalysisCancelledError) return;
+      console.error('Re-run analysis error:', error);
+      // The saved results are still good, so a completed scan stays as it was
+      if (scan.status !== 'failed') {
+        Alert.alert('Analysis Failed', `${describeAnalysisFailure(error)}\n\nThe previous results were kept.`);
         return;
       }
-
-      Alert.alert('Success', 'Changes saved successfully', [
-        { text: 'OK', onPress: () => router.back() }
-      ]);
-    } catch (error: any) {
-      Alert.alert('Error', error.message || 'Failed to save changes');
-      console.error(error);
+      update = { failure_reason: describeAnalysisFailure(error) };
     } finally {
-      setSaving(false);
+      rerunAbortRef.current = null;
+      setRerunning(false);
     }
+
+    // Edits made meanwhile are written first so they can't land on top of the new results
+    if (!(await edits.flush())) {
+      Alert.alert('Unsaved Changes', "Your latest changes couldn't be saved, so the new results weren't applied. Retry saving them, then re-run the analysis.");
+      return;
+    }
+    edits.clear();
+    try {
+      if (!(await updateScanResults(id, update))) {
+        Alert.alert(
+          'Error',
+          'The new results could not be saved, so the previous ones were kept. The scan may have been deleted, or Row Level Security (RLS) policies are refusing updates to the "scans" table.'
+        );
+      } else if (update.status !== 'complete') {
+        Alert.alert('Analysis Failed', update.failure_reason || '');
+      }
+    } catch (dbError: any) {
+      Alert.alert('Error', dbError.message);
+    }
+    setLoading(true);
+    await fetchScanDetails();
   }
 
   async function deleteScan() {
@@ -162,18 +215,21 @@ export default function DetailScreen() {
           style: "destructive",
           onPress: async () => {
             try {
-              setSaving(true);
+              setDeleting(true);
               const { error } = await supabase
                 .from('scans')
                 .delete()
                 .eq('id', id);
 
               if (error) throw error;
+              // Nothing left to save edits to
+              edits.clear();
+              leavingRef.current = true;
               router.back();
             } catch (error) {
               Alert.alert('Error', 'Failed to delete scan');
               console.error(error);
-              setSaving(false);
+              setDeleting(false);
             }
           }
         }
@@ -201,16 +257,102 @@ export default function DetailScreen() {
         <Text style={styles.title}>Edit Inventory</Text>
         <View style={{ width: 60 }} />
       </View>
+      {edits.state && (
+        <EditStatusBar
+          state={edits.state}
+          onUndo={edits.undo}
+          onRedo={edits.redo}
+          onRetry={edits.flush}
+          style={styles.statusBar}
+        />
+      )}
 
       <ScrollView contentContainerStyle={styles.content}>
-        <Image source={{ uri: getImageUrl(scan.image_path) }} style={styles.image} />
+        {scan.status === 'failed' && (
+          <View style={styles.failureBanner}>
+            <FontAwesome name="exclamation-triangle" size={16} color="#FF3B30" />
+            <View style={styles.failureTextContainer}>
+              <Text style={styles.failureTitle}>Analysis failed</Text>
+              {!!scan.failure_reason && <Text style={styles.failureReason}>{scan.failure_reason}</Text>}
+            </View>
+            {CAN_RERUN && (rerunning ? (
+              <TouchableOpacity onPress={() => rerunAbortRef.current?.abort()} style={styles.rerunButton}>
+                <ActivityIndicator size="small" color="white" />
+                <Text style={styles.rerunText}>Cancel</Text>
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity onPress={confirmRerun} style={styles.rerunButton}>
+                <FontAwesome name="refresh" size={12} color="white" />
+                <Text style={styles.rerunText}>Re-run</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        {getScanImagePaths(scan).length > 1 ? (
+          <ScrollView horizontal style={styles.imageStrip}>
+            {getScanImagePaths(scan).map((path, imageIndex) => (
+              <BoxOverlayImage
+                key={path}
+                uri={getImageUrl(path)}
+                imageIndex={imageIndex}
+                items={items}
+                selectedIndex={selectedItem}
+                onSelectItem={setSelectedItem}
+                onAddBox={addBox}
+                onRemoveBox={removeBox}
+                findings={findings}
+                style={styles.stripImage}
+              />
+            ))}
+          </ScrollView>
+        ) : (
+          <BoxOverlayImage
+            uri={getImageUrl(scan.image_path)}
+            imageIndex={0}
+            items={items}
+            selectedIndex={selectedItem}
+            onSelectItem={setSelectedItem}
+            onAddBox={addBox}
+            onRemoveBox={removeBox}
+            findings={findings}
+            style={styles.image}
+          />
+        )}
+
+        {scan.captured_at && (
+          <Text style={[styles.provenanceText, styles.capturedText]}>
+            Photo taken {new Date(scan.captured_at).toLocaleString()}
+          </Text>
+        )}
+
+        {scan.status !== 'failed' && (
+          <View style={styles.provenanceRow}>
+            <Text style={styles.provenanceText}>
+              {provenance
+                ? `Prompt ${provenance.prompt_version} · ${provenance.model} · ${new Date(provenance.analyzed_at).toLocaleString()}`
+                : 'Analyzed before prompt versions were recorded'}
+            </Text>
+            {CAN_RERUN && (rerunning ? (
+              <TouchableOpacity onPress={() => rerunAbortRef.current?.abort()} style={styles.rerunLink}>
+                <ActivityIndicator size="small" color="#007AFF" />
+                <Text style={styles.rerunLinkText}>Cancel</Text>
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity onPress={confirmRerun} style={styles.rerunLink}>
+                <FontAwesome name="refresh" size={12} color="#007AFF" />
+                <Text style={styles.rerunLinkText}>Re-run</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
 
         <View style={styles.section}>
           <Text style={styles.label}>Room Name</Text>
           <TextInput
             style={styles.input}
             value={roomName}
-            onChangeText={setRoomName}
+            onChangeText={(text) => updateResults({ roomName: text })}
             placeholder="Room Name"
           />
         </View>
@@ -220,66 +362,62 @@ export default function DetailScreen() {
           <TextInput
             style={styles.input}
             value={locationName}
-            onChangeText={setLocationName}
+            onChangeText={(text) => updateResults({ location: text })}
             placeholder="Location (e.g. East Wall)"
           />
         </View>
 
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
-            <Text style={styles.label}>Inventory Items</Text>
-            <TouchableOpacity onPress={addItem} style={styles.addItemButton}>
-              <FontAwesome name="plus" size={14} color="white" />
-              <Text style={styles.addItemText}>Add Item</Text>
-            </TouchableOpacity>
+            <View>
+              <Text style={styles.label}>Inventory Items</Text>
+              <Text style={styles.valuationText}>Est. value: {formatTotals(valueItems(items, priceList))}</Text>
+              {countItemsNeedingReview(items) > 0 && (
+                <Text style={styles.reviewSummary}>{countItemsNeedingReview(items)} need review</Text>
+              )}
+            </View>
           </View>
-          
-          {items.length === 0 ? (
-            <Text style={styles.emptyText}>No items found. Add one manually.</Text>
-          ) : (
-            items.map((item, index) => (
+
+          <ItemEditor
+            items={items}
+            onChange={(next) => updateResults({ items: next })}
+            priceList={priceList}
+            catalog={catalog}
+            selectedIndex={selectedItem}
+            onSelect={setSelectedItem}
+          />
+        </View>
+
+        {findings.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.label}>Surface Damage</Text>
+            {findings.map((finding, index) => (
               <View key={index} style={styles.itemRow}>
-                <TouchableOpacity 
-                  onPress={() => removeItem(index)}
-                  style={styles.deleteItemButton}
-                >
-                  <FontAwesome name="trash" size={16} color="#FF3B30" />
-                </TouchableOpacity>
-                <TextInput
-                  style={styles.itemNameInput}
-                  value={item.name}
-                  onChangeText={(text) => updateItemName(index, text)}
-                  placeholder="Item Name"
-                />
-                <View style={styles.stepper}>
+                <View style={styles.itemMainRow}>
                   <TouchableOpacity 
-                    onPress={() => updateItemCount(index, -1)}
-                    style={styles.stepButton}
+                    onPress={() => removeFinding(index)}
+                    style={styles.deleteItemButton}
                   >
-                    <FontAwesome name="minus" size={12} color="white" />
-                  </TouchableOpacity>
-                  <Text style={styles.countText}>{item.count}</Text>
-                  <TouchableOpacity 
-                    onPress={() => updateItemCount(index, 1)}
-                    style={styles.stepButton}
-                  >
-                    <FontAwesome name="plus" size={12} color="white" />
+                    <FontAwesome name="trash" size={16} color="#FF3B30" />
                   </TouchableOpacity>
+                  <Text style={styles.findingTitle}>
+                    {finding.surface}{finding.location ? ` - ${finding.location}` : ''}
+                  </Text>
+                  <SeverityBadge
+                    severity={finding.severity}
+                    onChange={(severity) => updateFindingSeverity(index, severity)}
+                  />
                 </View>
+                <TextInput
+                  style={[styles.notesInput, styles.findingInput]}
+                  value={finding.description}
+                  onChangeText={(text) => updateFindingDescription(index, text)}
+                  placeholder="Description"
+                />
               </View>
-            ))
-          )}
-        </View>
-
-        <TouchableOpacity 
-          style={styles.saveButton} 
-          onPress={saveChanges}
-          disabled={saving}
-        >
-          <Text style={styles.saveButtonText}>
-            {saving ? 'Saving...' : 'Save Changes'}
-          </Text>
-        </TouchableOpacity>
+            ))}
+          </View>
+        )}
 
         <TouchableOpacity 
           style={styles.auditButton} 
@@ -287,7 +425,14 @@ export default function DetailScreen() {
             pathname: '/audit/camera',
             params: { 
               originalImageUri: getImageUrl(scan.image_path),
-              expectedItems: JSON.stringify(items)
+              originalImagePath: scan.image_path,
+              scanId: scan.id,
+              propertyId: scan.property_id,
+              roomName: scan.room_name,
+              location: locationName,
+              // Boxes only matter on this screen; keep the verification prompt small.
+              // Names are the catalog's, so "Chair" and "Wooden chair" are checked as one item.
+              expectedItems: JSON.stringify(canonicalizeItems(items, catalog).map(({ boxes, ...item }) => item))
             }
           })}
         >
@@ -298,7 +443,7 @@ export default function DetailScreen() {
         <TouchableOpacity 
           style={styles.deleteButton} 
           onPress={deleteScan}
-          disabled={saving}
+          disabled={deleting}
         >
           <Text style={styles.deleteButtonText}>Delete Scan</Text>
         </TouchableOpacity>
@@ -317,6 +462,68 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  failureBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFF2F2',
+    borderWidth: 1,
+    borderColor: '#FFD1CF',
+    borderRadius: 10,
+    padding: 12,
+    marginBottom: 15,
+  },
+  failureTextContainer: {
+    flex: 1,
+    marginHorizontal: 10,
+  },
+  failureTitle: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: '#FF3B30',
+  },
+  failureReason: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  rerunButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FF3B30',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+  },
+  rerunText: {
+    color: 'white',
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  provenanceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 10,
+  },
+  provenanceText: {
+    flex: 1,
+    fontSize: 12,
+    color: '#999',
+  },
+  capturedText: {
+    flex: 0,
+    marginTop: 10,
+  },
+  rerunLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: 10,
+  },
+  rerunLinkText: {
+    color: '#007AFF',
+    fontSize: 13,
+    marginLeft: 4,
+  },
   header: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -335,6 +542,12 @@ const styles = StyleSheet.create({
     color: '#007AFF',
     fontSize: 16,
   },
+  statusBar: {
+    paddingLeft: 15,
+    paddingRight: 7,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
   title: {
     fontSize: 18,
     fontWeight: 'bold',
@@ -344,11 +557,14 @@ const styles = StyleSheet.create({
     paddingBottom: 60,
   },
   image: {
-    width: '100%',
-    height: 250,
-    borderRadius: 12,
     marginBottom: 20,
-    backgroundColor: '#f0f0f0',
+  },
+  imageStrip: {
+    marginBottom: 20,
+  },
+  stripImage: {
+    width: 300,
+    marginRight: 10,
   },
   section: {
     marginBottom: 25,
@@ -368,8 +584,6 @@ const styles = StyleSheet.create({
     backgroundColor: '#f9f9f9',
   },
   itemRow: {
-    flexDirection: 'row',
-    alignItems: 'center',
     marginBottom: 12,
     backgroundColor: 'white',
     padding: 10,
@@ -382,49 +596,38 @@ const styles = StyleSheet.create({
     shadowRadius: 2,
     elevation: 2,
   },
-  itemNameInput: {
-    flex: 1,
-    fontSize: 16,
-    paddingVertical: 8,
-    paddingHorizontal: 10,
-    backgroundColor: '#f0f0f0',
-    borderRadius: 6,
-    borderWidth: 1,
-    borderColor: '#ddd',
-    marginRight: 10,
+  reviewSummary: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: REVIEW_COLOR,
+    marginTop: 2,
   },
-  stepper: {
+  itemMainRow: {
     flexDirection: 'row',
     alignItems: 'center',
-    marginLeft: 10,
   },
-  stepButton: {
-    backgroundColor: '#007AFF',
-    width: 30,
-    height: 30,
-    borderRadius: 15,
-    justifyContent: 'center',
-    alignItems: 'center',
+  notesInput: {
+    fontSize: 14,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    backgroundColor: '#f9f9f9',
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#eee',
   },
-  countText: {
-    fontSize: 16,
-    fontWeight: 'bold',
-    marginHorizontal: 15,
-    minWidth: 20,
-    textAlign: 'center',
+  valuationText: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: -6,
   },
-  saveButton: {
-    backgroundColor: '#34C759',
-    padding: 16,
-    borderRadius: 12,
-    alignItems: 'center',
-    marginTop: 10,
-    marginBottom: 20,
+  findingTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
   },
-  saveButtonText: {
-    color: 'white',
-    fontSize: 18,
-    fontWeight: 'bold',
+  findingInput: {
+    marginTop: 8,
   },
   deleteButton: {
     backgroundColor: '#FF3B30',
@@ -460,25 +663,6 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 10,
   },
-  addItemButton: {
-    backgroundColor: '#007AFF',
-    flexDirection: 'row',
-    alignItems: 'center',
-    paddingHorizontal: 12,
-    paddingVertical: 6,
-    borderRadius: 16,
-  },
-  addItemText: {
-    color: 'white',
-    fontSize: 12,
-    fontWeight: '600',
-    marginLeft: 4,
-  },
-  emptyText: {
-    color: '#999',
-    fontStyle: 'italic',
-    marginBottom: 10,
-  },
   deleteItemButton: {
     padding: 8,
     marginRight: 5,
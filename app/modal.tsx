@@ -1,15 +1,65 @@
+import { useEffect, useState } from 'react';
 import { StatusBar } from 'expo-status-bar';
-import { Platform, StyleSheet } from 'react-native';
+import { Platform, StyleSheet, TouchableOpacity, ScrollView, Alert } from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
 
-import EditScreenInfo from '@/components/EditScreenInfo';
 import { Text, View } from '@/components/Themed';
+import { listPromptTemplates } from '@/lib/prompts';
+import { getActivePromptVersion, setActivePromptVersion } from '@/lib/settings';
+import { getVisionProvider } from '@/lib/vision';
+
+// A misconfigured provider is reported here rather than thrown, so the settings still open
+function describeVisionProvider() {
+  try {
+    return getVisionProvider().name;
+  } catch (error: any) {
+    return `unavailable. ${error.message}`;
+  }
+}
+
+export default function SettingsScreen() {
+  const [activeVersion, setActiveVersion] = useState<string | null>(null);
+
+  useEffect(() => {
+    getActivePromptVersion().then(setActiveVersion);
+  }, []);
+
+  async function selectVersion(version: string) {
+    try {
+      await setActivePromptVersion(version);
+      setActiveVersion(version);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to save setting');
+    }
+  }
 
-export default function ModalScreen() {
   return (
     <View style={styles.container}>
-      <Text style={styles.title}>Modal</Text>
-      <View style={styles.separator} lightColor="#eee" darkColor="rgba(255,255,255,0.1)" />
-      <EditScreenInfo path="app/modal.tsx" />
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.title}>Analysis Prompt</Text>
+        <Text style={styles.subtitle}>
+          New scans and re-runs use this version. Each scan records the version it was analyzed with.
+        </Text>
+
+        {listPromptTemplates().map(template => {
+          const selected = template.version === activeVersion;
+          return (
+            <TouchableOpacity
+              key={template.version}
+              style={[styles.option, selected && styles.optionSelected]}
+              onPress={() => selectVersion(template.version)}
+            >
+              <View style={styles.optionText}>
+                <Text style={styles.optionTitle}>{template.version}</Text>
+                <Text style={styles.optionDescription}>{template.description}</Text>
+              </View>
+              {selected && <FontAwesome name="check" size={16} color="#007AFF" />}
+            </TouchableOpacity>
+          );
+        })}
+
+        <Text style={styles.footer}>Vision provider: {describeVisionProvider()}</Text>
+      </ScrollView>
 
       {/* Use a light status bar on iOS to account for the black space above the modal */}
       <StatusBar style={Platform.OS === 'ios' ? 'light' : 'auto'} />
@@ -20,16 +70,48 @@ export default function ModalScreen() {
 const styles = StyleSheet.create({
   container: {
     flex: 1,
-    alignItems: 'center',
-    justifyContent: 'center',
+  },
+  content: {
+    padding: 20,
   },
   title: {
     fontSize: 20,
     fontWeight: 'bold',
   },
-  separator: {
-    marginVertical: 30,
-    height: 1,
-    width: '80%',
+  subtitle: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 5,
+    marginBottom: 15,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 15,
+    borderWidth: 1,
+    borderColor: '#eee',
+    borderRadius: 10,
+    marginBottom: 10,
+  },
+  optionSelected: {
+    borderColor: '#007AFF',
+  },
+  optionText: {
+    flex: 1,
+    backgroundColor: 'transparent',
+  },
+  optionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  optionDescription: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  footer: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 10,
   },
 });
@@ -1,24 +1,24 @@
-import React, { useState, useCallback, useEffect } from 'react';
-import { StyleSheet, Text, View, SectionList, Image, ActivityIndicator, TouchableOpacity, Alert, Modal, TextInput, Dimensions } from 'react-native';
+import React, { useState, useCallback } from 'react';
+import { StyleSheet, Text, View, SectionList, Image, ActivityIndicator, TouchableOpacity, Alert, Modal, TextInput, Dimensions, ScrollView } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useFocusEffect, router, useLocalSearchParams, Stack } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { FontAwesome } from '@expo/vector-icons';
-import { supabase, AuditSession } from '@/lib/supabase';
+import { supabase, AuditSession, getScanImagePaths, scanTakenAt, PriceListEntry, CatalogEntry, TemplateRoom } from '@/lib/supabase';
 import { generateAndShareReport, generateAndShareAuditReport } from '@/lib/pdf';
-
-interface InventoryItem {
-  id: string;
-  created_at: string;
-  room_name: string;
-  status: string;
-  image_path: string;
-  ai_analysis: any;
-}
+import { countItemsNeedingReview } from '@/lib/inventory';
+import { ScanRecord, listPropertyScans } from '@/lib/scans';
+import { REVIEW_COLOR } from '@/components/ReviewBadge';
+import AskPanel from '@/components/AskPanel';
+import SyncQueuePanel from '@/components/SyncQueuePanel';
+import CoverageCard from '@/components/CoverageCard';
+import { ScannedPlace, TemplateSpot } from '@/lib/roomTemplate';
+import { AssetWithSightings, latestSighting, listPropertyAssets } from '@/lib/assets';
+import { DEFAULT_CURRENCY, Totals, addTotals, formatTotals, valueItems } from '@/lib/valuation';
 
 interface RoomSection {
   title: string;
-  data: InventoryItem[];
+  data: ScanRecord[];
 }
 
 export default function PropertyDetailScreen() {
@@ -37,24 +37,103 @@ export default function PropertyDetailScreen() {
   const [editName, setEditName] = useState('');
   const [editAddress, setEditAddress] = useState('');
 
-  useEffect(() => {
-    fetchPropertyDetails();
-  }, [id]);
+  // Price List State
+  const [priceList, setPriceList] = useState<PriceListEntry[]>([]);
+  const [priceListVisible, setPriceListVisible] = useState(false);
+  const [editPriceList, setEditPriceList] = useState<PriceListEntry[]>([]);
+  const [catalog, setCatalog] = useState<CatalogEntry[]>([]);
+  const [roomTemplate, setRoomTemplate] = useState<TemplateRoom[]>([]);
+
+  // Items with asset tags last seen at this property
+  const [assets, setAssets] = useState<AssetWithSightings[]>([]);
+
+  // Ask panel
+  const [askVisible, setAskVisible] = useState(false);
 
   useFocusEffect(
     useCallback(() => {
+      // The catalog and room template may have been edited on their own screens
+      fetchPropertyDetails();
       fetchInventory();
       fetchPastAudits();
+      fetchAssets();
     }, [id])
   );
 
   async function fetchPropertyDetails() {
-    const { data } = await supabase.from('properties').select('name, address').eq('id', id).single();
+    const { data } = await supabase.from('properties').select('name, address, price_list, catalog, room_template').eq('id', id).single();
     if (data) {
       setPropertyName(data.name);
       setPropertyAddress(data.address);
       setEditName(data.name);
       setEditAddress(data.address);
+      setPriceList(data.price_list || []);
+      setCatalog(data.catalog || []);
+      setRoomTemplate(data.room_template || []);
+    }
+  }
+
+  function openPriceList() {
+    setEditPriceList(priceList.map(entry => ({ ...entry })));
+    setPriceListVisible(true);
+  }
+
+  function updatePriceEntry(index: number, updates: Partial<PriceListEntry>) {
+    const newEntries = [...editPriceList];
+    newEntries[index] = { ...newEntries[index], ...updates };
+    setEditPriceList(newEntries);
+  }
+
+  async function savePriceList() {
+    // Drop half-filled rows rather than storing entries that can't override anything
+    const entries = editPriceList
+      .map(entry => ({ ...entry, name: entry.name.trim(), currency: (entry.currency || DEFAULT_CURRENCY).trim().toUpperCase() }))
+      .filter(entry => entry.name && Number.isFinite(entry.unit_cost));
+
+    try {
+      const { error } = await supabase
+        .from('properties')
+        .update({ price_list: entries })
+        .eq('id', id);
+
+      if (error) throw error;
+
+      setPriceList(entries);
+      setPriceListVisible(false);
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    }
+  }
+
+  // Scans with low-confidence items nobody has confirmed or corrected yet
+  function scansNeedingReview() {
+    return sections.flatMap(section => section.data).filter(scan => scan.needs_review);
+  }
+
+  function scannedPlaces(): ScannedPlace[] {
+    return sections.flatMap(section => section.data).map(scan => ({
+      room_name: scan.room_name,
+      location: scan.location,
+    }));
+  }
+
+  function openTemplate() {
+    router.push({ pathname: '/template', params: { propertyId: id } });
+  }
+
+  function scanSpot(spot: TemplateSpot) {
+    router.push({ pathname: '/(tabs)/scan', params: { propertyId: id, room: spot.room, location: spot.location } });
+  }
+
+  function sectionValue(section: RoomSection): Totals {
+    return addTotals(...section.data.map(scan => valueItems(scan.items, priceList)));
+  }
+
+  async function fetchAssets() {
+    try {
+      setAssets(await listPropertyAssets(id));
+    } catch (error) {
+      console.error('Error fetching assets:', error);
     }
   }
 
@@ -91,18 +170,13 @@ export default function PropertyDetailScreen() {
         .eq('session_id', session.id);
       if (rError) throw rError;
 
-      const { data: scans, error: sError } = await supabase
-        .from('scans')
-        .select('*')
-        .eq('property_id', id);
-      if (sError) throw sError;
+      const scans = await listPropertyScans(id);
 
       const reportRooms: any[] = [];
       records.forEach(record => {
         const matchingScan = scans.find(s => s.id === record.original_scan_id);
         const roomName = matchingScan?.room_name || 'Unknown Room';
-        const analysis = matchingScan?.ai_analysis as any;
-        const scanName = Array.isArray(analysis) ? 'Scan' : (analysis?.location || 'Scan');
+        const scanName = matchingScan?.location || 'Scan';
         
         let roomGroup = reportRooms.find(r => r.roomName === roomName);
         if (!roomGroup) {
@@ -153,8 +227,8 @@ export default function PropertyDetailScreen() {
     }
   }
 
-  function groupDataByRoom(data: InventoryItem[]): RoomSection[] {
-    const groups: { [key: string]: InventoryItem[] } = {};
+  function groupDataByRoom(data: ScanRecord[]): RoomSection[] {
+    const groups: { [key: string]: ScanRecord[] } = {};
     data.forEach(item => {
       const room = (item.room_name || 'Unassigned').trim();
       if (!groups[room]) groups[room] = [];
@@ -166,17 +240,7 @@ export default function PropertyDetailScreen() {
   async function fetchInventory() {
     try {
       setLoading(true);
-      const { data, error } = await supabase
-        .from('scans')
-        .select('*')
-        .eq('property_id', id)
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        console.error('Error fetching inventory:', error);
-      } else {
-        setSections(groupDataByRoom(data || []));
-      }
+      setSections(groupDataByRoom(await listPropertyScans(id)));
     } catch (error) {
       console.error('Error fetching inventory:', error);
     } finally {
@@ -251,40 +315,44 @@ export default function PropertyDetailScreen() {
     return supabase.storage.from('Photos').getPublicUrl(path).data.publicUrl;
   };
 
-  const renderSectionHeader = ({ section: { title } }: { section: { title: string } }) => (
-    <View style={styles.sectionHeader}>
-      <Text style={styles.sectionHeaderText}>{title}</Text>
+  const renderSectionHeader = ({ section }: { section: RoomSection }) => (
+    <View style={[styles.sectionHeader, styles.sectionHeaderRow]}>
+      <Text style={styles.sectionHeaderText}>{section.title}</Text>
+      <Text style={styles.sectionValueText}>{formatTotals(sectionValue(section))}</Text>
     </View>
   );
 
-  const renderItem = ({ item }: { item: InventoryItem }) => {
-    let totalItems = 0;
-    let location = '';
-    const analysis = item.ai_analysis;
-    if (Array.isArray(analysis)) {
-      totalItems = analysis.reduce((sum, i) => sum + i.count, 0);
-    } else if (analysis && typeof analysis === 'object') {
-      if (Array.isArray(analysis.items)) {
-        totalItems = analysis.items.reduce((sum: any, i: any) => sum + i.count, 0);
-      }
-      if (analysis.location) location = analysis.location;
-    }
+  const renderItem = ({ item }: { item: ScanRecord }) => {
+    const totalItems = item.items.reduce((sum, i) => sum + i.count, 0);
+    const totalFindings = item.findings.length;
+
+    const photoCount = getScanImagePaths(item).length;
 
     return (
       <TouchableOpacity 
         style={styles.card}
         onPress={() => router.push({ pathname: '/detail', params: { id: item.id } })}
       >
-        <Image source={{ uri: getImageUrl(item.image_path) }} style={styles.thumbnail} />
+        <View>
+          <Image source={{ uri: getImageUrl(item.image_path) }} style={styles.thumbnail} />
+          {photoCount > 1 && (
+            <View style={styles.photoCountBadge}>
+              <Text style={styles.photoCountText}>{photoCount}</Text>
+            </View>
+          )}
+        </View>
         <View style={styles.cardContent}>
-          <Text style={styles.roomName}>{location || item.room_name}</Text>
-          <Text style={styles.date}>{new Date(item.created_at).toLocaleDateString()}</Text>
+          <Text style={styles.roomName}>{item.location || item.room_name}</Text>
+          <Text style={styles.date}>{new Date(scanTakenAt(item)).toLocaleDateString()}</Text>
           <View style={styles.statsContainer}>
-            <Text style={styles.statusText}>{item.status}</Text>
+            <Text style={[styles.statusText, item.status === 'failed' && styles.failedStatusText]}>{item.status}</Text>
             {item.status === 'complete' && (
-              <Text style={styles.itemCount}>{totalItems} Items Found</Text>
+              <Text style={styles.itemCount}>
+                {totalFindings > 0 && totalItems === 0 ? `${totalFindings} Defects Found` : `${totalItems} Items Found`}
+              </Text>
             )}
           </View>
+          {item.needs_review && <Text style={styles.reviewText}>Needs review</Text>}
         </View>
       </TouchableOpacity>
     );
@@ -311,6 +379,9 @@ export default function PropertyDetailScreen() {
             </TouchableOpacity>
           </View>
           <Text style={styles.subtitle}>{propertyAddress}</Text>
+          <Text style={styles.subtitle}>
+            Est. value: {formatTotals(addTotals(...sections.map(sectionValue)))}
+          </Text>
         </View>
         <View style={styles.headerActions}>
           <TouchableOpacity 
@@ -321,11 +392,30 @@ export default function PropertyDetailScreen() {
           </TouchableOpacity>
           <TouchableOpacity 
             style={styles.actionButton} 
-            onPress={() => generateAndShareReport(sections)}
+            onPress={() => generateAndShareReport(sections, priceList, catalog)}
             disabled={sections.length === 0}
           >
             <FontAwesome name="file-pdf-o" size={20} color={sections.length === 0 ? '#ccc' : '#007AFF'} />
           </TouchableOpacity>
+          <TouchableOpacity 
+            style={styles.actionButton} 
+            onPress={() => setAskVisible(!askVisible)}
+            disabled={sections.length === 0}
+          >
+            <FontAwesome name="question-circle" size={20} color={sections.length === 0 ? '#ccc' : '#007AFF'} />
+          </TouchableOpacity>
+          <TouchableOpacity 
+            style={styles.actionButton} 
+            onPress={() => router.push({ pathname: '/catalog', params: { propertyId: id } })}
+          >
+            <FontAwesome name="book" size={20} color="#007AFF" />
+          </TouchableOpacity>
+          <TouchableOpacity 
+            style={styles.actionButton} 
+            onPress={openPriceList}
+          >
+            <FontAwesome name="tags" size={20} color="#007AFF" />
+          </TouchableOpacity>
           <TouchableOpacity 
             style={styles.actionButton} 
             onPress={startNewAudit}
@@ -379,12 +469,88 @@ export default function PropertyDetailScreen() {
         </View>
       </Modal>
 
+      <Modal
+        animationType="slide"
+        transparent={true}
+        visible={priceListVisible}
+        onRequestClose={() => setPriceListVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Price List</Text>
+            <Text style={styles.priceListHint}>
+              Replacement costs here override the AI's estimate for items with the same name.
+            </Text>
+
+            <ScrollView style={styles.priceList}>
+              {editPriceList.map((entry, index) => (
+                <View key={index} style={styles.priceRow}>
+                  <TextInput
+                    style={[styles.input, styles.priceNameInput]}
+                    value={entry.name}
+                    onChangeText={(text) => updatePriceEntry(index, { name: text })}
+                    placeholder="Item name"
+                  />
+                  <TextInput
+                    style={[styles.input, styles.priceCostInput]}
+                    value={Number.isFinite(entry.unit_cost) ? String(entry.unit_cost) : ''}
+                    onChangeText={(text) => updatePriceEntry(index, { unit_cost: parseFloat(text.replace(/[^\d.]/g, '')) })}
+                    keyboardType="decimal-pad"
+                    placeholder="Cost"
+                  />
+                  <TextInput
+                    style={[styles.input, styles.priceCurrencyInput]}
+                    value={entry.currency}
+                    onChangeText={(text) => updatePriceEntry(index, { currency: text })}
+                    autoCapitalize="characters"
+                    maxLength={3}
+                  />
+                  <TouchableOpacity
+                    onPress={() => setEditPriceList(editPriceList.filter((_, i) => i !== index))}
+                    style={styles.priceDelete}
+                  >
+                    <FontAwesome name="trash" size={16} color="#FF3B30" />
+                  </TouchableOpacity>
+                </View>
+              ))}
+            </ScrollView>
+
+            <TouchableOpacity
+              style={styles.addPriceButton}
+              onPress={() => setEditPriceList([...editPriceList, { name: '', unit_cost: NaN, currency: DEFAULT_CURRENCY }])}
+            >
+              <FontAwesome name="plus" size={14} color="#007AFF" />
+              <Text style={styles.addPriceText}>Add Entry</Text>
+            </TouchableOpacity>
+
+            <View style={styles.modalButtons}>
+              <TouchableOpacity 
+                style={[styles.modalButton, styles.cancelButton]} 
+                onPress={() => setPriceListVisible(false)}
+              >
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity 
+                style={[styles.modalButton, styles.saveButton]} 
+                onPress={savePriceList}
+              >
+                <Text style={styles.saveButtonText}>Save</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
       {loading && sections.length === 0 ? (
         <View style={styles.centerContainer}>
           <ActivityIndicator size="large" color="#007AFF" />
         </View>
       ) : sections.length === 0 ? (
         <View style={styles.centerContainer}>
+          <View style={styles.emptyQueue}>
+            <SyncQueuePanel propertyId={id} onSynced={fetchInventory} />
+            <CoverageCard template={roomTemplate} places={[]} onEditTemplate={openTemplate} onScanSpot={scanSpot} />
+          </View>
           <Text style={styles.emptyText}>No items yet.</Text>
           <TouchableOpacity 
             style={styles.addFirstButton}
@@ -401,8 +567,66 @@ export default function PropertyDetailScreen() {
           keyExtractor={(item) => item.id}
           contentContainerStyle={styles.listContent}
           stickySectionHeadersEnabled={false}
+          ListHeaderComponent={
+            <>
+              <SyncQueuePanel propertyId={id} onSynced={fetchInventory} />
+              <CoverageCard template={roomTemplate} places={scannedPlaces()} onEditTemplate={openTemplate} onScanSpot={scanSpot} />
+              {askVisible && (
+                <AskPanel
+                  scans={sections.flatMap(section => section.data)}
+                  priceList={priceList}
+                  onOpenScan={scanId => router.push({ pathname: '/detail', params: { id: scanId } })}
+                />
+              )}
+              {scansNeedingReview().length > 0 && (
+                <View style={styles.reviewSection}>
+                  <Text style={styles.reviewTitle}>Needs Review</Text>
+                  {scansNeedingReview().map(scan => (
+                    <TouchableOpacity
+                      key={scan.id}
+                      style={styles.reviewRow}
+                      onPress={() => router.push({ pathname: '/detail', params: { id: scan.id } })}
+                    >
+                      <View style={{ flex: 1 }}>
+                        <Text style={styles.auditName}>{scan.location || scan.room_name}</Text>
+                        <Text style={styles.auditDate}>
+                          {scan.room_name} · {countItemsNeedingReview(scan.items)} item(s) to confirm
+                        </Text>
+                      </View>
+                      <FontAwesome name="chevron-right" size={14} color={REVIEW_COLOR} />
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+            </>
+          }
           ListFooterComponent={
             <View style={{ paddingBottom: 40 }}>
+              {assets.length > 0 && (
+                <View style={styles.historySection}>
+                  <Text style={styles.historyTitle}>Tagged Assets</Text>
+                  {assets.map(asset => {
+                    const last = latestSighting(asset.sightings);
+                    return (
+                      <TouchableOpacity
+                        key={asset.id}
+                        style={styles.historyRow}
+                        onPress={() => router.push({ pathname: '/asset', params: { id: asset.id } })}
+                      >
+                        <View style={{ flex: 1 }}>
+                          <Text style={styles.auditName}>{asset.name}</Text>
+                          <Text style={styles.auditDate}>
+                            {last
+                              ? `${[last.room_name, last.location].filter(Boolean).join(' · ')} · seen ${new Date(last.seen_at).toLocaleDateString()}`
+                              : asset.room_name}
+                          </Text>
+                        </View>
+                        <FontAwesome name="tag" size={16} color="#007AFF" />
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              )}
               {pastAudits.length > 0 && (
                 <View style={styles.historySection}>
                   <Text style={styles.historyTitle}>Past Audits</Text>
@@ -494,22 +718,41 @@ const styles = StyleSheet.create({
   saveButtonText: { color: 'white', fontWeight: 'bold' },
   centerContainer: { flex: 1, justifyContent: 'center', alignItems: 'center', paddingHorizontal: 40 },
   emptyText: { fontSize: 16, color: 'gray', textAlign: 'center', marginBottom: 20 },
+  emptyQueue: { alignSelf: 'stretch' },
   listContent: { padding: 15, paddingBottom: 120 },
   sectionHeader: { backgroundColor: '#f9f9f9', paddingVertical: 8, paddingHorizontal: 12, borderRadius: 6, marginBottom: 10, marginTop: 5 },
   sectionHeaderText: { fontSize: 18, fontWeight: 'bold', color: '#333' },
+  sectionHeaderRow: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  sectionValueText: { fontSize: 14, color: '#666' },
+  priceListHint: { fontSize: 13, color: '#666', marginBottom: 15, textAlign: 'center' },
+  priceList: { maxHeight: 300 },
+  priceRow: { flexDirection: 'row', alignItems: 'center' },
+  priceNameInput: { flex: 1, marginRight: 6 },
+  priceCostInput: { width: 70, marginRight: 6 },
+  priceCurrencyInput: { width: 55 },
+  priceDelete: { padding: 8, marginBottom: 15 },
+  addPriceButton: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', padding: 10 },
+  addPriceText: { color: '#007AFF', fontWeight: '600', marginLeft: 6 },
   card: { flexDirection: 'row', backgroundColor: 'white', borderRadius: 12, padding: 12, marginBottom: 15, borderWidth: 1, borderColor: '#f0f0f0' },
   thumbnail: { width: 80, height: 80, borderRadius: 8, backgroundColor: '#f0f0f0' },
+  photoCountBadge: { position: 'absolute', right: 4, bottom: 4, backgroundColor: 'rgba(0,0,0,0.6)', paddingHorizontal: 6, paddingVertical: 2, borderRadius: 8 },
+  photoCountText: { color: 'white', fontSize: 12, fontWeight: 'bold' },
   cardContent: { flex: 1, marginLeft: 15, justifyContent: 'center' },
   roomName: { fontSize: 18, fontWeight: 'bold', marginBottom: 4 },
   date: { fontSize: 14, color: '#999', marginBottom: 8 },
   statsContainer: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' },
   statusText: { fontSize: 12, color: '#666', backgroundColor: '#f5f5f5', paddingHorizontal: 8, paddingVertical: 4, borderRadius: 4 },
+  failedStatusText: { color: '#FF3B30', backgroundColor: '#FFF2F2' },
   itemCount: { fontSize: 14, fontWeight: '600', color: '#007AFF' },
   addFirstButton: { backgroundColor: '#007AFF', padding: 12, borderRadius: 8 },
   addFirstText: { color: 'white', fontWeight: 'bold' },
   deleteAllButton: { marginTop: 40, padding: 15, backgroundColor: '#FF3B30', borderRadius: 10, alignItems: 'center' },
   deleteAllText: { color: 'white', fontWeight: 'bold' },
   historySection: { marginTop: 30, borderTopWidth: 1, borderTopColor: '#eee', paddingTop: 20 },
+  reviewSection: { marginBottom: 10 },
+  reviewTitle: { fontSize: 18, fontWeight: 'bold', color: REVIEW_COLOR, marginBottom: 10 },
+  reviewRow: { flexDirection: 'row', alignItems: 'center', backgroundColor: '#FFF6EB', padding: 15, borderRadius: 10, marginBottom: 10 },
+  reviewText: { fontSize: 12, fontWeight: '600', color: REVIEW_COLOR, marginTop: 4 },
   historyTitle: { fontSize: 20, fontWeight: 'bold', marginBottom: 15 },
   historyRow: { flexDirection: 'row', alignItems: 'center', backgroundColor: '#f9f9f9', padding: 15, borderRadius: 10, marginBottom: 10 },
   auditName: { fontSize: 16, fontWeight: 'bold' },
@@ -0,0 +1,218 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, Text, View, ScrollView, TouchableOpacity, Alert, ActivityIndicator, TextInput } from 'react-native';
+import { useLocalSearchParams, router, Stack } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { FontAwesome } from '@expo/vector-icons';
+import { supabase, saveRoomTemplate, Property, TemplateRoom } from '@/lib/supabase';
+import { ScannedPlace, formatRoomTemplate, listTemplateSpots, parseRoomTemplate, templateFromPlaces } from '@/lib/roomTemplate';
+
+export default function RoomTemplateScreen() {
+  const { propertyId } = useLocalSearchParams<{ propertyId: string }>();
+  const [text, setText] = useState('');
+  // Other properties with a template, to start this one from a similar unit
+  const [otherProperties, setOtherProperties] = useState<Property[]>([]);
+  const [places, setPlaces] = useState<ScannedPlace[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (propertyId) loadTemplate();
+  }, [propertyId]);
+
+  async function loadTemplate() {
+    try {
+      setLoading(true);
+      const [{ data: properties, error }, { data: scans, error: scansError }] = await Promise.all([
+        supabase.from('properties').select('id, name, address, room_template, created_at').order('name'),
+        supabase.from('scans').select('room_name, location').eq('property_id', propertyId),
+      ]);
+      if (error) throw error;
+      if (scansError) throw scansError;
+
+      const own = (properties || []).find(property => property.id === propertyId);
+      setText(formatRoomTemplate(own?.room_template || []));
+      setOtherProperties((properties || []).filter(property => property.id !== propertyId && (property.room_template || []).length > 0));
+      setPlaces(scans || []);
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to load the room template');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function replaceText(template: TemplateRoom[]) {
+    const next = formatRoomTemplate(template);
+    if (!text.trim()) {
+      setText(next);
+      return;
+    }
+    Alert.alert('Replace Template', 'Replace the rooms listed here?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Replace', style: 'destructive', onPress: () => setText(next) },
+    ]);
+  }
+
+  async function save() {
+    try {
+      setSaving(true);
+      await saveRoomTemplate(propertyId, parseRoomTemplate(text));
+      router.back();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Failed to save the room template');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <View style={styles.centerContainer}>
+        <ActivityIndicator size="large" color="#007AFF" />
+      </View>
+    );
+  }
+
+  const template = parseRoomTemplate(text);
+  const spotCount = listTemplateSpots(template).length;
+
+  return (
+    <SafeAreaView style={styles.container} edges={['left', 'right', 'bottom']}>
+      <Stack.Screen options={{ title: 'Room Template' }} />
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Rooms</Text>
+          <Text style={styles.hintText}>
+            One room per line, with the spots to photograph after a colon, e.g. "Kitchen: North wall, Pantry, Under sink".
+          </Text>
+          <TextInput
+            style={styles.editor}
+            value={text}
+            onChangeText={setText}
+            multiline
+            autoCapitalize="words"
+            placeholder={'Kitchen: North wall, Pantry, Under sink\nLiving Room: Sofa wall, Window\nBathroom'}
+            placeholderTextColor="#aaa"
+          />
+          <Text style={styles.summaryText}>
+            {template.length} room(s) · {spotCount} spot(s) to scan
+          </Text>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Start From</Text>
+          <TouchableOpacity
+            style={styles.sourceRow}
+            onPress={() => replaceText(templateFromPlaces(places))}
+            disabled={places.length === 0}
+          >
+            <FontAwesome name="camera" size={16} color={places.length === 0 ? '#ccc' : '#007AFF'} />
+            <Text style={[styles.sourceText, places.length === 0 && styles.disabledText]}>This property's scans</Text>
+          </TouchableOpacity>
+          {otherProperties.map(property => (
+            <TouchableOpacity
+              key={property.id}
+              style={styles.sourceRow}
+              onPress={() => replaceText(property.room_template || [])}
+            >
+              <FontAwesome name="building" size={16} color="#007AFF" />
+              <View style={{ flex: 1 }}>
+                <Text style={styles.sourceText}>{property.name}</Text>
+                <Text style={styles.sourceDetail}>
+                  {(property.room_template || []).map(room => room.name).join(', ')}
+                </Text>
+              </View>
+            </TouchableOpacity>
+          ))}
+          {otherProperties.length === 0 && (
+            <Text style={styles.emptyText}>Templates saved on other properties appear here to copy.</Text>
+          )}
+        </View>
+      </ScrollView>
+      <TouchableOpacity style={styles.saveButton} onPress={save} disabled={saving}>
+        {saving ? <ActivityIndicator color="white" /> : <Text style={styles.saveText}>Save Template</Text>}
+      </TouchableOpacity>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: 15,
+  },
+  section: {
+    marginBottom: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 10,
+  },
+  editor: {
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 16,
+    minHeight: 180,
+    textAlignVertical: 'top',
+    marginTop: 8,
+  },
+  summaryText: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 6,
+  },
+  sourceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    padding: 12,
+    borderRadius: 10,
+    marginBottom: 8,
+  },
+  sourceText: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginLeft: 10,
+  },
+  sourceDetail: {
+    fontSize: 12,
+    color: '#666',
+    marginLeft: 10,
+    marginTop: 2,
+  },
+  disabledText: {
+    color: '#ccc',
+  },
+  saveButton: {
+    backgroundColor: '#007AFF',
+    margin: 15,
+    padding: 15,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  saveText: {
+    color: 'white',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  emptyText: {
+    color: '#999',
+    fontStyle: 'italic',
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 4,
+  },
+});
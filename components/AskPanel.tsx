@@ -0,0 +1,161 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import { PriceListEntry } from '@/lib/supabase';
+import { interpretQuestion } from '@/lib/vision';
+import { getActivePromptVersion } from '@/lib/settings';
+import { AnalysisCancelledError } from '@/lib/resilience';
+import { describeAnalysisFailure } from '@/lib/scanAnalysis';
+import { QueryAnswer, QueryableScan, buildQueryVocabulary, runInventoryQuery } from '@/lib/inventoryQuery';
+
+interface Props {
+  scans: QueryableScan[];
+  priceList: PriceListEntry[];
+  // Opens the scan a citation points at
+  onOpenScan: (scanId: string) => void;
+}
+
+/**
+ * Free-text questions over a property's scans ("how many bath towels?").
+ * Each answer lists the scans it was computed from.
+ */
+export default function AskPanel({ scans, priceList, onOpenScan }: Props) {
+  const [question, setQuestion] = useState('');
+  const [asking, setAsking] = useState(false);
+  const [answer, setAnswer] = useState<QueryAnswer | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  async function ask() {
+    if (!question.trim() || asking) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setAsking(true);
+    setError(null);
+    setAnswer(null);
+    try {
+      const promptVersion = await getActivePromptVersion();
+      const query = await interpretQuestion(question.trim(), buildQueryVocabulary(scans), { signal: controller.signal, promptVersion });
+      console.log('Inventory query:', JSON.stringify(query));
+      setAnswer(runInventoryQuery(query, scans, priceList));
+    } catch (askError) {
+      if (askError instanceof AnalysisCancelledError) return;
+      console.error('Ask error:', askError);
+      setError(describeAnalysisFailure(askError));
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setAsking(false);
+    }
+  }
+
+  return (
+    <View style={styles.panel}>
+      <View style={styles.inputRow}>
+        <TextInput
+          style={styles.input}
+          value={question}
+          onChangeText={setQuestion}
+          placeholder="e.g. Which rooms have damaged chairs?"
+          returnKeyType="search"
+          onSubmitEditing={ask}
+          editable={!asking}
+        />
+        <TouchableOpacity style={styles.askButton} onPress={ask} disabled={asking || !question.trim()}>
+          {asking ? <ActivityIndicator size="small" color="white" /> : <Text style={styles.askText}>Ask</Text>}
+        </TouchableOpacity>
+      </View>
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+
+      {answer && (
+        <View style={styles.answer}>
+          <Text style={styles.answerText}>{answer.text}</Text>
+          {answer.citations.map(citation => (
+            <TouchableOpacity key={citation.scanId} style={styles.citation} onPress={() => onOpenScan(citation.scanId)}>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.citationTitle}>
+                  {citation.roomName}{citation.location ? ` · ${citation.location}` : ''}
+                </Text>
+                <Text style={styles.citationItems}>
+                  {citation.items.map(item => `${item.count} × ${item.name} (${item.condition})`).join(', ')}
+                </Text>
+              </View>
+              <FontAwesome name="chevron-right" size={12} color="#ccc" />
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: {
+    backgroundColor: 'white',
+    borderRadius: 10,
+    padding: 12,
+    marginBottom: 15,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 15,
+  },
+  askButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 9,
+    marginLeft: 8,
+    minWidth: 60,
+    alignItems: 'center',
+  },
+  askText: {
+    color: 'white',
+    fontWeight: 'bold',
+  },
+  errorText: {
+    color: '#FF3B30',
+    fontSize: 13,
+    marginTop: 8,
+  },
+  answer: {
+    marginTop: 10,
+  },
+  answerText: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 6,
+  },
+  citation: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderTopWidth: 0.5,
+    borderTopColor: '#eee',
+  },
+  citationTitle: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  citationItems: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+});
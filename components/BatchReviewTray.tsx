@@ -0,0 +1,278 @@
+import React from 'react';
+import { ActivityIndicator, FlatList, Image, Modal, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { FontAwesome } from '@expo/vector-icons';
+import { CatalogEntry, PriceListEntry } from '@/lib/supabase';
+import { BatchShot, BatchShotStatus, isShotPending } from '@/lib/batchCapture';
+import { CatalogSuggestion } from '@/lib/catalog';
+import { countItemsNeedingReview } from '@/lib/inventory';
+import { BurstEdits } from '@/components/useBurstEdits';
+import CatalogSuggestionList from '@/components/CatalogSuggestionList';
+import EditStatusBar from '@/components/EditStatusBar';
+import ItemEditor from '@/components/ItemEditor';
+import { REVIEW_COLOR } from '@/components/ReviewBadge';
+import SeverityBadge from '@/components/SeverityBadge';
+
+interface Props {
+  visible: boolean;
+  shots: BatchShot[];
+  // Each saved shot's items, saved as they're corrected
+  edits: BurstEdits;
+  priceList: PriceListEntry[];
+  catalog: CatalogEntry[];
+  // Lookalike names from the shots filed so far
+  catalogSuggestions: CatalogSuggestion[];
+  onResolveSuggestion: (suggestion: CatalogSuggestion, sameItem: boolean) => void;
+  onRetry: (shotId: string) => void;
+  // Back to the camera to keep shooting
+  onClose: () => void;
+  onFinish: () => void;
+}
+
+const STATUS_LABELS: Record<BatchShotStatus, string> = {
+  waiting: 'Waiting…',
+  uploading: 'Uploading…',
+  analyzing: 'Analyzing…',
+  saving: 'Saving…',
+  done: '',
+  queued: 'Saved offline · syncs when back online',
+  failed: 'Not saved',
+};
+
+/**
+ * Every shot from a burst, with its results as they arrive. Once a shot's
+ * scan is saved its items can be corrected here with the same editor as a
+ * single scan; the shot's edit store saves them a moment after the last
+ * change and can undo them. Names the catalog doesn't know are filed as
+ * each shot is saved, and lookalikes are offered above the shots.
+ */
+export default function BatchReviewTray({
+  visible,
+  shots,
+  edits,
+  priceList,
+  catalog,
+  catalogSuggestions,
+  onResolveSuggestion,
+  onRetry,
+  onClose,
+  onFinish,
+}: Props) {
+  const pending = shots.filter(isShotPending).length;
+  const itemsOf = (shot: BatchShot) => edits.states[shot.id]?.results.items ?? shot.analysis?.items ?? [];
+  const toReview = shots.reduce((sum, shot) => sum + countItemsNeedingReview(itemsOf(shot)), 0);
+
+  const renderResults = (shot: BatchShot) => {
+    if (shot.status === 'failed') {
+      return (
+        <View style={styles.failedRow}>
+          <Text style={styles.errorText}>{shot.error}</Text>
+          <TouchableOpacity onPress={() => onRetry(shot.id)} style={styles.retryButton}>
+            <FontAwesome name="refresh" size={14} color="#007AFF" />
+            <Text style={styles.retryText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+    if (shot.status !== 'done' || !shot.analysis) return null;
+    if (shot.failure_reason) {
+      return <Text style={styles.errorText}>{shot.failure_reason} Re-run it from the scan's page.</Text>;
+    }
+    if (shot.mode === 'damage') {
+      if (shot.analysis.findings.length === 0) return <Text style={styles.emptyText}>No damage found.</Text>;
+      return shot.analysis.findings.map((finding, index) => (
+        <View key={index} style={[styles.item, styles.itemRow]}>
+          <Text style={styles.findingText}>{finding.surface}{finding.location ? ` - ${finding.location}` : ''}: {finding.description}</Text>
+          <SeverityBadge severity={finding.severity} />
+        </View>
+      ));
+    }
+    const state = edits.states[shot.id];
+    if (!state) return null;
+    return (
+      <>
+        <EditStatusBar
+          state={state}
+          onUndo={() => edits.undo(shot.id)}
+          onRedo={() => edits.redo(shot.id)}
+          onRetry={() => edits.flush(shot.id)}
+        />
+        <ItemEditor
+          items={state.results.items}
+          onChange={(items) => edits.change(shot.id, { ...state.results, items })}
+          priceList={priceList}
+          catalog={catalog}
+          compact
+        />
+      </>
+    );
+  };
+
+  const renderShot = ({ item: shot, index }: { item: BatchShot; index: number }) => (
+    <View style={styles.shot}>
+      <View style={styles.shotHeader}>
+        <Image source={{ uri: shot.uri }} style={styles.thumbnail} />
+        <View style={{ flex: 1 }}>
+          <Text style={styles.shotTitle}>
+            {index + 1}. {shot.location || shot.room_name || (isShotPending(shot) ? 'Suggesting room…' : 'Unassigned')}
+          </Text>
+          <Text style={styles.shotSubtitle}>
+            {shot.location ? `${shot.room_name} · ` : ''}{shot.mode === 'damage' ? 'Damage' : 'Items'}
+          </Text>
+          {!!STATUS_LABELS[shot.status] && (
+            <Text style={[styles.status, shot.status === 'failed' && styles.errorText]}>{STATUS_LABELS[shot.status]}</Text>
+          )}
+        </View>
+        {isShotPending(shot) && <ActivityIndicator size="small" color="#007AFF" />}
+      </View>
+      {renderResults(shot)}
+    </View>
+  );
+
+  return (
+    <Modal animationType="slide" visible={visible} onRequestClose={onClose}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.headerButton}>
+            <FontAwesome name="camera" size={20} color="#007AFF" />
+          </TouchableOpacity>
+          <Text style={styles.title}>Review Burst ({shots.length})</Text>
+        </View>
+        <Text style={styles.summary}>
+          {pending > 0 ? `${pending} still analyzing. ` : ''}
+          {toReview > 0 ? `${toReview} item(s) need review.` : pending > 0 ? '' : 'All results are in.'}
+        </Text>
+        <FlatList
+          data={shots}
+          renderItem={renderShot}
+          keyExtractor={shot => shot.id}
+          // Rows show edits, catalog names and prices, none of which are in data
+          extraData={[edits.states, catalog, priceList]}
+          keyboardShouldPersistTaps="handled"
+          contentContainerStyle={styles.listContent}
+          ListHeaderComponent={<CatalogSuggestionList suggestions={catalogSuggestions} onResolve={onResolveSuggestion} />}
+          ListEmptyComponent={<Text style={styles.emptyText}>No shots yet.</Text>}
+        />
+        <TouchableOpacity style={styles.finishButton} onPress={onFinish}>
+          <Text style={styles.finishText}>Finish Room</Text>
+        </TouchableOpacity>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: 'white',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 15,
+    paddingTop: 10,
+  },
+  headerButton: {
+    padding: 8,
+    marginRight: 10,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+  },
+  summary: {
+    fontSize: 13,
+    color: REVIEW_COLOR,
+    paddingHorizontal: 20,
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  listContent: {
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  shot: {
+    backgroundColor: '#f9f9f9',
+    borderRadius: 10,
+    padding: 10,
+    marginBottom: 12,
+  },
+  shotHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  thumbnail: {
+    width: 56,
+    height: 56,
+    borderRadius: 6,
+    marginRight: 10,
+    backgroundColor: '#eee',
+  },
+  shotTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  shotSubtitle: {
+    fontSize: 13,
+    color: '#666',
+  },
+  status: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  item: {
+    paddingVertical: 5,
+    borderBottomWidth: 0.5,
+    borderBottomColor: '#eee',
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  findingText: {
+    flex: 1,
+    fontSize: 14,
+    marginRight: 8,
+  },
+  failedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  errorText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#FF3B30',
+  },
+  retryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 6,
+  },
+  retryText: {
+    color: '#007AFF',
+    fontWeight: '600',
+    marginLeft: 4,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    fontStyle: 'italic',
+  },
+  finishButton: {
+    backgroundColor: '#007AFF',
+    margin: 20,
+    marginTop: 0,
+    padding: 15,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  finishText: {
+    color: 'white',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,183 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, View, Image, Pressable, TouchableOpacity, Text, StyleProp, ViewStyle, GestureResponderEvent, LayoutChangeEvent } from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import { InventoryItem, BoundingBox, SurfaceFinding } from '@/lib/supabase';
+import { SEVERITY_COLORS } from '@/components/SeverityBadge';
+
+const BOX_COLORS = ['#FF3B30', '#007AFF', '#34C759', '#FF9500', '#AF52DE', '#5AC8FA', '#FFCC00', '#FF2D55'];
+
+// Size of a box added by tapping, as a fraction of the photo
+const NEW_BOX_SIZE = 0.15;
+
+export function boxColor(itemIndex: number) {
+  return BOX_COLORS[itemIndex % BOX_COLORS.length];
+}
+
+interface Props {
+  uri: string;
+  // Which of the scan's photos this is; only boxes for this photo are drawn
+  imageIndex: number;
+  items: InventoryItem[];
+  selectedIndex: number | null;
+  onSelectItem: (itemIndex: number | null) => void;
+  onAddBox: (itemIndex: number, box: BoundingBox) => void;
+  onRemoveBox: (itemIndex: number, boxIndex: number) => void;
+  // Surface damage regions, drawn dashed and not editable here
+  findings?: SurfaceFinding[];
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * A scan photo with the AI's per-instance boxes drawn on top. Tapping a box
+ * selects its item; with an item selected, tapping empty space adds a box for
+ * it and the x on one of its boxes removes that box.
+ */
+export default function BoxOverlayImage({ uri, imageIndex, items, selectedIndex, onSelectItem, onAddBox, onRemoveBox, findings, style }: Props) {
+  const [aspectRatio, setAspectRatio] = useState(4 / 3);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    Image.getSize(uri, (width, height) => {
+      if (width > 0 && height > 0) setAspectRatio(width / height);
+    }, () => {});
+  }, [uri]);
+
+  const onLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setSize({ width, height });
+  };
+
+  const onPressImage = (event: GestureResponderEvent) => {
+    if (selectedIndex === null) return;
+    if (size.width === 0 || size.height === 0) return;
+
+    const { locationX, locationY } = event.nativeEvent;
+    const x = Math.min(1 - NEW_BOX_SIZE, Math.max(0, locationX / size.width - NEW_BOX_SIZE / 2));
+    const y = Math.min(1 - NEW_BOX_SIZE, Math.max(0, locationY / size.height - NEW_BOX_SIZE / 2));
+    onAddBox(selectedIndex, {
+      x,
+      y,
+      width: NEW_BOX_SIZE,
+      height: NEW_BOX_SIZE,
+      ...(imageIndex > 0 ? { image: imageIndex } : {}),
+    });
+  };
+
+  return (
+    <View style={[styles.container, { aspectRatio }, style]} onLayout={onLayout}>
+      <Pressable style={StyleSheet.absoluteFill} onPress={onPressImage}>
+        <Image source={{ uri }} style={styles.image} />
+      </Pressable>
+
+      {(findings || []).map((finding, index) => {
+        const region = finding.region;
+        if (!region || (region.image || 0) !== imageIndex) return null;
+        return (
+          <View
+            key={`finding-${index}`}
+            pointerEvents="none"
+            style={[
+              styles.box,
+              styles.findingBox,
+              {
+                left: `${region.x * 100}%`,
+                top: `${region.y * 100}%`,
+                width: `${region.width * 100}%`,
+                height: `${region.height * 100}%`,
+                borderColor: SEVERITY_COLORS[finding.severity],
+              },
+            ]}
+          />
+        );
+      })}
+
+      {items.map((item, itemIndex) =>
+        (item.boxes || []).map((box, boxIndex) => {
+          if ((box.image || 0) !== imageIndex) return null;
+          const selected = selectedIndex === itemIndex;
+          const dimmed = selectedIndex !== null && !selected;
+
+          return (
+            <TouchableOpacity
+              key={`${itemIndex}-${boxIndex}`}
+              activeOpacity={0.7}
+              onPress={() => onSelectItem(selected ? null : itemIndex)}
+              style={[
+                styles.box,
+                {
+                  left: `${box.x * 100}%`,
+                  top: `${box.y * 100}%`,
+                  width: `${box.width * 100}%`,
+                  height: `${box.height * 100}%`,
+                  borderColor: boxColor(itemIndex),
+                  borderWidth: selected ? 3 : 2,
+                  opacity: dimmed ? 0.35 : 1,
+                },
+              ]}
+            >
+              {selected && (
+                <TouchableOpacity
+                  style={[styles.removeHandle, { backgroundColor: boxColor(itemIndex) }]}
+                  onPress={() => onRemoveBox(itemIndex, boxIndex)}
+                  hitSlop={8}
+                >
+                  <FontAwesome name="close" size={10} color="white" />
+                </TouchableOpacity>
+              )}
+            </TouchableOpacity>
+          );
+        })
+      )}
+
+      {selectedIndex !== null && (
+        <View style={styles.hint} pointerEvents="none">
+          <Text style={styles.hintText}>Tap the photo to add a box</Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    borderRadius: 12,
+    overflow: 'hidden',
+    backgroundColor: '#f0f0f0',
+  },
+  image: {
+    width: '100%',
+    height: '100%',
+  },
+  box: {
+    position: 'absolute',
+    borderRadius: 4,
+  },
+  findingBox: {
+    borderWidth: 2,
+    borderStyle: 'dashed',
+  },
+  removeHandle: {
+    position: 'absolute',
+    top: -1,
+    right: -1,
+    width: 18,
+    height: 18,
+    borderRadius: 9,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  hint: {
+    position: 'absolute',
+    bottom: 8,
+    alignSelf: 'center',
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 10,
+  },
+  hintText: {
+    color: 'white',
+    fontSize: 12,
+  },
+});
@@ -0,0 +1,58 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { CatalogSuggestion } from '@/lib/catalog';
+
+interface Props {
+  suggestions: CatalogSuggestion[];
+  // sameItem files the name as an alias of the entry; otherwise it becomes an entry of its own
+  onResolve: (suggestion: CatalogSuggestion, sameItem: boolean) => void;
+}
+
+// New item names that look like something already in the property's catalog
+export default function CatalogSuggestionList({ suggestions, onResolve }: Props) {
+  return (
+    <>
+      {suggestions.map(suggestion => (
+        <View key={suggestion.name} style={styles.suggestion}>
+          <Text style={styles.suggestionText}>
+            "{suggestion.name}" looks like "{suggestion.entry.name}" in this property's catalog.
+          </Text>
+          <View style={styles.actions}>
+            <TouchableOpacity onPress={() => onResolve(suggestion, true)}>
+              <Text style={styles.accept}>Same item</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => onResolve(suggestion, false)}>
+              <Text style={styles.reject}>Different</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ))}
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  suggestion: {
+    backgroundColor: '#EEF5FF',
+    borderRadius: 8,
+    padding: 8,
+    marginBottom: 8,
+  },
+  suggestionText: {
+    fontSize: 13,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 4,
+  },
+  accept: {
+    color: '#007AFF',
+    fontWeight: 'bold',
+    marginLeft: 16,
+  },
+  reject: {
+    color: '#666',
+    marginLeft: 16,
+  },
+});
@@ -0,0 +1,77 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View, StyleProp, ViewStyle } from 'react-native';
+import { CONDITIONS, Condition } from '@/lib/inventory';
+
+export const CONDITION_COLORS: Record<Condition, string> = {
+  New: '#007AFF',
+  Good: '#34C759',
+  Fair: '#FFCC00',
+  Poor: '#FF9500',
+  Damaged: '#FF3B30',
+  Missing: '#8E8E93',
+};
+
+interface Props {
+  value: Condition;
+  onChange: (condition: Condition) => void;
+  compact?: boolean;
+  style?: StyleProp<ViewStyle>;
+}
+
+export default function ConditionPicker({ value, onChange, compact, style }: Props) {
+  return (
+    <View style={[styles.container, style]}>
+      {CONDITIONS.map(condition => {
+        const selected = condition === value;
+        return (
+          <TouchableOpacity
+            key={condition}
+            onPress={() => onChange(condition)}
+            style={[
+              styles.chip,
+              compact && styles.compactChip,
+              { borderColor: CONDITION_COLORS[condition] },
+              selected && { backgroundColor: CONDITION_COLORS[condition] },
+            ]}
+          >
+            <Text style={[styles.chipText, compact && styles.compactText, selected && styles.selectedText]}>
+              {condition}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  compactChip: {
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    marginRight: 4,
+    marginBottom: 4,
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#333',
+  },
+  compactText: {
+    fontSize: 10,
+  },
+  selectedText: {
+    color: 'white',
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,67 @@
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, Text, TextInput, View, StyleProp, ViewStyle } from 'react-native';
+import { DEFAULT_CURRENCY } from '@/lib/valuation';
+
+interface Props {
+  value?: number;
+  currency?: string;
+  // Called with undefined when the field is cleared
+  onChange: (value: number | undefined) => void;
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * Unit replacement cost field. Keeps its own text so partial input like "12."
+ * isn't reformatted while typing.
+ */
+export default function CostInput({ value, currency = DEFAULT_CURRENCY, onChange, style }: Props) {
+  const [text, setText] = useState(value === undefined ? '' : String(value));
+
+  useEffect(() => {
+    if (parseFloat(text) !== value) {
+      setText(value === undefined ? '' : String(value));
+    }
+  }, [value]);
+
+  const onChangeText = (next: string) => {
+    const cleaned = next.replace(/[^\d.]/g, '');
+    setText(cleaned);
+    const parsed = parseFloat(cleaned);
+    onChange(Number.isFinite(parsed) ? parsed : undefined);
+  };
+
+  return (
+    <View style={[styles.container, style]}>
+      <Text style={styles.currency}>{currency}</Text>
+      <TextInput
+        style={styles.input}
+        value={text}
+        onChangeText={onChangeText}
+        keyboardType="decimal-pad"
+        placeholder="Unit cost"
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f9f9f9',
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#eee',
+    paddingHorizontal: 8,
+  },
+  currency: {
+    fontSize: 12,
+    color: '#666',
+    marginRight: 6,
+  },
+  input: {
+    flex: 1,
+    fontSize: 14,
+    paddingVertical: 6,
+  },
+});
@@ -0,0 +1,160 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import { TemplateRoom } from '@/lib/supabase';
+import { ScannedPlace, TemplateSpot, computeCoverage } from '@/lib/roomTemplate';
+
+interface Props {
+  template: TemplateRoom[];
+  places: ScannedPlace[];
+  onEditTemplate: () => void;
+  // Opens the scan tab on an unscanned spot
+  onScanSpot: (spot: TemplateSpot) => void;
+}
+
+/**
+ * How much of a property's room template has been photographed, with the
+ * spots that are still missing grouped by room.
+ */
+export default function CoverageCard({ template, places, onEditTemplate, onScanSpot }: Props) {
+  if (template.length === 0) {
+    return (
+      <TouchableOpacity style={[styles.card, styles.setupRow]} onPress={onEditTemplate}>
+        <FontAwesome name="list-ul" size={16} color="#007AFF" />
+        <Text style={styles.setupText}>Add a room template to track which spots still need scanning</Text>
+        <FontAwesome name="chevron-right" size={14} color="#ccc" />
+      </TouchableOpacity>
+    );
+  }
+
+  const coverage = computeCoverage(template, places);
+  const complete = coverage.scanned === coverage.total;
+  const missing = template
+    .map(room => ({
+      room: room.name,
+      spots: coverage.spots.filter(spot => spot.room === room.name && spot.scanCount === 0),
+    }))
+    .filter(group => group.spots.length > 0);
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Coverage</Text>
+        <Text style={[styles.count, complete && styles.completeText]}>
+          {coverage.scanned} of {coverage.total} spots
+        </Text>
+        <TouchableOpacity onPress={onEditTemplate} style={styles.editButton}>
+          <FontAwesome name="pencil" size={16} color="#007AFF" />
+        </TouchableOpacity>
+      </View>
+      <View style={styles.progressTrack}>
+        <View
+          style={[
+            styles.progressFill,
+            complete && styles.progressComplete,
+            { width: `${coverage.total > 0 ? (coverage.scanned / coverage.total) * 100 : 0}%` },
+          ]}
+        />
+      </View>
+      {complete ? (
+        <Text style={styles.completeText}>Every spot in the template has been scanned.</Text>
+      ) : (
+        missing.map(group => (
+          <View key={group.room} style={styles.roomRow}>
+            <Text style={styles.roomName}>{group.room}</Text>
+            <View style={styles.chips}>
+              {group.spots.map(spot => (
+                <TouchableOpacity key={spot.location || group.room} style={styles.chip} onPress={() => onScanSpot(spot)}>
+                  <FontAwesome name="camera" size={10} color="#007AFF" />
+                  <Text style={styles.chipText}>{spot.location || 'Whole room'}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        ))
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#f9f9f9',
+    padding: 12,
+    borderRadius: 10,
+    marginBottom: 15,
+  },
+  setupRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  setupText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#007AFF',
+    marginHorizontal: 10,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    flex: 1,
+  },
+  count: {
+    fontSize: 14,
+    color: '#666',
+  },
+  editButton: {
+    padding: 6,
+    marginLeft: 8,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#e5e5ea',
+    overflow: 'hidden',
+    marginBottom: 10,
+  },
+  progressFill: {
+    height: 6,
+    backgroundColor: '#007AFF',
+  },
+  progressComplete: {
+    backgroundColor: '#34C759',
+  },
+  completeText: {
+    color: '#34C759',
+    fontWeight: '600',
+  },
+  roomRow: {
+    marginBottom: 6,
+  },
+  roomName: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#EEF5FF',
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 12,
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#007AFF',
+    marginLeft: 5,
+  },
+});
@@ -0,0 +1,85 @@
+import React from 'react';
+import { ActivityIndicator, StyleProp, StyleSheet, Text, TouchableOpacity, View, ViewStyle } from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import { EditSaveStatus, ScanEditState } from '@/lib/scanEditStore';
+
+const STATUS_LABELS: Record<EditSaveStatus, string> = {
+  saved: 'All changes saved',
+  queued: 'Saved offline, syncs when online',
+  unsaved: 'Unsaved changes',
+  saving: 'Saving...',
+  failed: 'Changes not saved',
+};
+
+interface Props {
+  state: ScanEditState;
+  onUndo: () => void;
+  onRedo: () => void;
+  onRetry: () => void;
+  style?: StyleProp<ViewStyle>;
+}
+
+// Save state of an auto-saved scan, with undo and redo
+export default function EditStatusBar({ state, onUndo, onRedo, onRetry, style }: Props) {
+  const failed = state.status === 'failed';
+  return (
+    <View style={[styles.container, style]}>
+      <View style={styles.status}>
+        {state.status === 'saving' ? (
+          <ActivityIndicator size="small" color="#666" />
+        ) : (
+          <FontAwesome
+            name={failed ? 'exclamation-circle' : state.status === 'unsaved' ? 'circle-o' : 'check'}
+            size={12}
+            color={failed ? '#FF3B30' : '#666'}
+          />
+        )}
+        <Text style={[styles.statusText, failed && styles.failedText]} numberOfLines={1}>
+          {STATUS_LABELS[state.status]}
+        </Text>
+        {failed && (
+          <TouchableOpacity onPress={onRetry}>
+            <Text style={styles.retryText}>Retry</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      <TouchableOpacity onPress={onUndo} disabled={!state.canUndo} style={styles.historyButton}>
+        <FontAwesome name="undo" size={16} color={state.canUndo ? '#007AFF' : '#ccc'} />
+      </TouchableOpacity>
+      <TouchableOpacity onPress={onRedo} disabled={!state.canRedo} style={styles.historyButton}>
+        <FontAwesome name="repeat" size={16} color={state.canRedo ? '#007AFF' : '#ccc'} />
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  status: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  statusText: {
+    fontSize: 12,
+    color: '#666',
+    marginLeft: 6,
+    flexShrink: 1,
+  },
+  failedText: {
+    color: '#FF3B30',
+    fontWeight: '600',
+  },
+  retryText: {
+    color: '#007AFF',
+    fontSize: 12,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  historyButton: {
+    padding: 8,
+  },
+});
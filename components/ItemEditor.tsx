@@ -0,0 +1,263 @@
+import React from 'react';
+import { StyleProp, StyleSheet, Text, TextInput, TouchableOpacity, View, ViewStyle } from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import { CatalogEntry, InventoryItem, PriceListEntry } from '@/lib/supabase';
+import { needsReview } from '@/lib/inventory';
+import { effectiveUnitCost, formatMoney } from '@/lib/valuation';
+import { canonicalItemName, normalizeCatalogName } from '@/lib/catalog';
+import {
+  addItem,
+  changeItemCount,
+  confirmItem,
+  removeItem,
+  renameItem,
+  setItemCondition,
+  setItemCost,
+  setItemNotes,
+} from '@/lib/itemEdits';
+import { boxColor } from '@/components/BoxOverlayImage';
+import ConditionPicker from '@/components/ConditionPicker';
+import CostInput from '@/components/CostInput';
+import ReviewBadge, { REVIEW_COLOR } from '@/components/ReviewBadge';
+
+interface Props {
+  items: InventoryItem[];
+  // Called with the whole edited list after every change
+  onChange: (items: InventoryItem[]) => void;
+  priceList: PriceListEntry[];
+  // Shows which catalog name a row is counted under
+  catalog?: CatalogEntry[];
+  // Given together where the photo can show each item's boxes
+  selectedIndex?: number | null;
+  onSelect?: (index: number | null) => void;
+  // Smaller condition chips, for the overlay on the camera
+  compact?: boolean;
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * Every row of a scan's items with all of its fields, plus adding a missed
+ * item and deleting a false one. Used by the results overlay after a scan,
+ * the burst review tray and the scan's edit screen; changes go through
+ * lib/itemEdits.
+ */
+export default function ItemEditor({ items, onChange, priceList, catalog = [], selectedIndex = null, onSelect, compact, style }: Props) {
+  function removeRow(index: number) {
+    onChange(removeItem(items, index));
+    // The selection is by position, so it would land on the next row
+    if (onSelect && selectedIndex !== null) onSelect(null);
+  }
+
+  return (
+    <View style={style}>
+      {items.length === 0 && <Text style={styles.emptyText}>No items found. Add one manually.</Text>}
+      {items.map((item, index) => {
+        const cost = effectiveUnitCost(item, priceList);
+        const canonicalName = canonicalItemName(item.name, catalog);
+        const selected = selectedIndex === index;
+        return (
+          <View
+            key={index}
+            style={[
+              styles.itemRow,
+              needsReview(item) && styles.reviewItemRow,
+              selected && { borderColor: boxColor(index), borderWidth: 2 },
+            ]}
+          >
+            <ReviewBadge item={item} onConfirm={() => onChange(confirmItem(items, index))} style={styles.reviewBadge} />
+            <View style={styles.itemMainRow}>
+              <TouchableOpacity onPress={() => removeRow(index)} style={styles.deleteItemButton}>
+                <FontAwesome name="trash" size={16} color="#FF3B30" />
+              </TouchableOpacity>
+              {onSelect && (
+                <TouchableOpacity
+                  onPress={() => onSelect(selected ? null : index)}
+                  style={[styles.boxSwatch, { borderColor: boxColor(index) }, selected && { backgroundColor: boxColor(index) }]}
+                >
+                  <Text style={[styles.boxSwatchText, selected && { color: 'white' }]}>
+                    {(item.boxes || []).length}
+                  </Text>
+                </TouchableOpacity>
+              )}
+              <TextInput
+                style={styles.itemNameInput}
+                value={item.name}
+                onChangeText={(text) => onChange(renameItem(items, index, text))}
+                placeholder="Item Name"
+              />
+              <View style={styles.stepper}>
+                <TouchableOpacity onPress={() => onChange(changeItemCount(items, index, -1))} style={styles.stepButton}>
+                  <FontAwesome name="minus" size={12} color="white" />
+                </TouchableOpacity>
+                <Text style={styles.countText}>{item.count}</Text>
+                <TouchableOpacity onPress={() => onChange(changeItemCount(items, index, 1))} style={styles.stepButton}>
+                  <FontAwesome name="plus" size={12} color="white" />
+                </TouchableOpacity>
+              </View>
+            </View>
+            {normalizeCatalogName(canonicalName) !== normalizeCatalogName(item.name) && (
+              <Text style={styles.catalogHint}>Counted as "{canonicalName}"</Text>
+            )}
+            <ConditionPicker
+              compact={compact}
+              value={item.condition}
+              onChange={(condition) => onChange(setItemCondition(items, index, condition))}
+              style={styles.conditionPicker}
+            />
+            <TextInput
+              style={styles.notesInput}
+              value={item.damage_notes || ''}
+              onChangeText={(text) => onChange(setItemNotes(items, index, text))}
+              placeholder="Notes (optional)"
+            />
+            <View style={styles.costRow}>
+              <CostInput
+                value={cost?.unitCost}
+                currency={cost?.currency || item.currency}
+                onChange={(value) => onChange(setItemCost(items, index, value))}
+                style={styles.costInput}
+              />
+              <Text style={styles.lineValue}>
+                {cost ? formatMoney(cost.unitCost * item.count, cost.currency) : '-'}
+              </Text>
+            </View>
+          </View>
+        );
+      })}
+      <TouchableOpacity onPress={() => onChange(addItem(items))} style={styles.addItemButton}>
+        <FontAwesome name="plus" size={14} color="#007AFF" />
+        <Text style={styles.addItemText}>Add Item</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  itemRow: {
+    marginBottom: 12,
+    backgroundColor: 'white',
+    padding: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#eee',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  reviewItemRow: {
+    borderLeftWidth: 4,
+    borderLeftColor: REVIEW_COLOR,
+  },
+  reviewBadge: {
+    marginBottom: 8,
+  },
+  itemMainRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  deleteItemButton: {
+    padding: 8,
+    marginRight: 5,
+  },
+  boxSwatch: {
+    width: 28,
+    height: 28,
+    borderRadius: 6,
+    borderWidth: 2,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  boxSwatchText: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  itemNameInput: {
+    flex: 1,
+    fontSize: 16,
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    backgroundColor: '#f0f0f0',
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    marginRight: 10,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepButton: {
+    backgroundColor: '#007AFF',
+    width: 30,
+    height: 30,
+    borderRadius: 15,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  countText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginHorizontal: 12,
+    minWidth: 20,
+    textAlign: 'center',
+  },
+  catalogHint: {
+    fontSize: 12,
+    color: '#666',
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
+  conditionPicker: {
+    marginTop: 10,
+    marginBottom: 8,
+  },
+  notesInput: {
+    fontSize: 14,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    backgroundColor: '#f9f9f9',
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#eee',
+  },
+  costRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  costInput: {
+    flex: 1,
+    marginRight: 10,
+  },
+  lineValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    minWidth: 80,
+    textAlign: 'right',
+  },
+  addItemButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: '#007AFF',
+  },
+  addItemText: {
+    color: '#007AFF',
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  emptyText: {
+    color: '#999',
+    fontStyle: 'italic',
+    marginBottom: 10,
+  },
+});
@@ -0,0 +1,113 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { StyleProp, StyleSheet, Text, TouchableOpacity, View, ViewStyle } from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+
+interface Props {
+  onDropFiles: (files: File[]) => void;
+  onChooseFiles: () => void;
+  style?: StyleProp<ViewStyle>;
+  children?: React.ReactNode;
+}
+
+// Web only: stands in for the camera preview, taking photos dropped onto it or picked from disk
+export default function PhotoDropZone({ onDropFiles, onChooseFiles, style, children }: Props) {
+  const zoneRef = useRef<View>(null);
+  const [dragging, setDragging] = useState(false);
+  // The listeners are attached once, so they read the latest callback from here
+  const onDropRef = useRef(onDropFiles);
+  onDropRef.current = onDropFiles;
+
+  useEffect(() => {
+    // react-native-web renders a View as a plain element
+    const node = zoneRef.current as unknown as HTMLElement | null;
+    if (!node) return;
+
+    const handleDragOver = (event: DragEvent) => {
+      // Without this the browser opens the file instead of dropping it here
+      event.preventDefault();
+      setDragging(true);
+    };
+    const handleDragLeave = (event: DragEvent) => {
+      // Moving over the prompt or the header fires dragleave too
+      if (!node.contains(event.relatedTarget as Node | null)) setDragging(false);
+    };
+    const handleDrop = (event: DragEvent) => {
+      event.preventDefault();
+      setDragging(false);
+      const files = Array.from(event.dataTransfer?.files || []);
+      if (files.length > 0) onDropRef.current(files);
+    };
+
+    node.addEventListener('dragover', handleDragOver);
+    node.addEventListener('dragleave', handleDragLeave);
+    node.addEventListener('drop', handleDrop);
+    return () => {
+      node.removeEventListener('dragover', handleDragOver);
+      node.removeEventListener('dragleave', handleDragLeave);
+      node.removeEventListener('drop', handleDrop);
+    };
+  }, []);
+
+  return (
+    <View ref={zoneRef} style={[styles.zone, dragging && styles.zoneActive, style]}>
+      <View style={styles.promptContainer} pointerEvents="box-none">
+        <View style={styles.prompt}>
+          <FontAwesome name="cloud-upload" size={44} color={dragging ? '#007AFF' : 'white'} />
+          <Text style={styles.title}>{dragging ? 'Drop to import' : 'Drop photos here'}</Text>
+          <Text style={styles.subtitle}>One photo starts a scan. Several are saved as separate scans.</Text>
+          <TouchableOpacity style={styles.chooseButton} onPress={onChooseFiles}>
+            <Text style={styles.chooseText}>Choose Files</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+      {/* Drawn over the prompt, so overlays like a progress spinner cover it */}
+      {children}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  zone: {
+    backgroundColor: '#1c1c1e',
+    borderWidth: 2,
+    borderStyle: 'dashed',
+    borderColor: 'transparent',
+  },
+  zoneActive: {
+    borderColor: '#007AFF',
+    backgroundColor: '#10243d',
+  },
+  promptContainer: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  prompt: {
+    alignItems: 'center',
+    maxWidth: 320,
+    padding: 20,
+  },
+  title: {
+    color: 'white',
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginTop: 12,
+  },
+  subtitle: {
+    color: 'rgba(255,255,255,0.7)',
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 6,
+  },
+  chooseButton: {
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 20,
+    marginTop: 16,
+  },
+  chooseText: {
+    color: 'white',
+    fontWeight: '600',
+  },
+});
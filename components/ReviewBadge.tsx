@@ -0,0 +1,67 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View, StyleProp, ViewStyle } from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import { InventoryItem } from '@/lib/supabase';
+import { isLowConfidence } from '@/lib/inventory';
+
+export const REVIEW_COLOR = '#FF9500';
+
+interface Props {
+  item: InventoryItem;
+  // Marks the row as checked by a person
+  onConfirm: () => void;
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * Shown on low-confidence rows only: an orange "confirm" chip until someone
+ * confirms or corrects the row, then a quiet "checked" tag.
+ */
+export default function ReviewBadge({ item, onConfirm, style }: Props) {
+  if (!isLowConfidence(item)) return null;
+  const percent = `${Math.round((item.confidence || 0) * 100)}%`;
+
+  if (item.reviewed) {
+    return (
+      <View style={[styles.badge, styles.reviewed, style]}>
+        <FontAwesome name="check" size={10} color="#8E8E93" />
+        <Text style={styles.reviewedText}>{percent} · checked</Text>
+      </View>
+    );
+  }
+
+  return (
+    <TouchableOpacity onPress={onConfirm} style={[styles.badge, styles.pending, style]}>
+      <FontAwesome name="exclamation-circle" size={11} color="white" />
+      <Text style={styles.pendingText}>{percent} · Tap to confirm</Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+  },
+  pending: {
+    backgroundColor: REVIEW_COLOR,
+  },
+  pendingText: {
+    color: 'white',
+    fontSize: 11,
+    fontWeight: 'bold',
+    marginLeft: 4,
+  },
+  reviewed: {
+    backgroundColor: '#f0f0f0',
+  },
+  reviewedText: {
+    color: '#8E8E93',
+    fontSize: 11,
+    marginLeft: 4,
+  },
+});
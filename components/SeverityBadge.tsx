@@ -0,0 +1,44 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity } from 'react-native';
+import { SEVERITIES, Severity } from '@/lib/inventory';
+
+export const SEVERITY_COLORS: Record<Severity, string> = {
+  Minor: '#FFCC00',
+  Moderate: '#FF9500',
+  Severe: '#FF3B30',
+};
+
+interface Props {
+  severity: Severity;
+  // When set, tapping the badge cycles to the next severity
+  onChange?: (severity: Severity) => void;
+}
+
+export default function SeverityBadge({ severity, onChange }: Props) {
+  const next = SEVERITIES[(SEVERITIES.indexOf(severity) + 1) % SEVERITIES.length];
+
+  return (
+    <TouchableOpacity
+      disabled={!onChange}
+      onPress={() => onChange?.(next)}
+      style={[styles.badge, { backgroundColor: SEVERITY_COLORS[severity] }]}
+    >
+      <Text style={styles.text}>{severity}</Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+    minWidth: 70,
+    alignItems: 'center',
+  },
+  text: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,140 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, Alert, Image, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import { QueueEntry, discardQueueEntry, listQueue, retryQueueEntry, subscribeToQueue } from '@/lib/offlineQueue';
+
+interface Props {
+  propertyId: string;
+  // Called when entries leave the queue, so the screen can load the scans they became
+  onSynced: () => void;
+}
+
+const STAGE_LABELS = {
+  upload: 'Uploading photos…',
+  analyze: 'Analyzing…',
+  save: 'Saving…',
+};
+
+function describeStatus(entry: QueueEntry) {
+  if (entry.status === 'syncing') return entry.stage ? STAGE_LABELS[entry.stage] : 'Syncing…';
+  if (entry.status === 'failed') return entry.last_error || 'Sync failed';
+  if (entry.next_attempt_at && entry.next_attempt_at > Date.now()) {
+    return `Waiting for a connection · retrying at ${new Date(entry.next_attempt_at).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}`;
+  }
+  return 'Waiting for a connection';
+}
+
+/**
+ * Scans and edits for one property that are still on this device, each with
+ * its sync status. Failed entries can be retried or discarded.
+ */
+export default function SyncQueuePanel({ propertyId, onSynced }: Props) {
+  const [entries, setEntries] = useState<QueueEntry[]>([]);
+  const countRef = useRef(0);
+
+  useEffect(() => {
+    function show(all: QueueEntry[]) {
+      const mine = all.filter(entry => entry.property_id === propertyId);
+      if (mine.length < countRef.current) onSynced();
+      countRef.current = mine.length;
+      setEntries(mine);
+    }
+    listQueue().then(show);
+    return subscribeToQueue(show);
+  }, [propertyId]);
+
+  function confirmDiscard(entry: QueueEntry) {
+    const what = entry.kind === 'scan' ? 'this scan and its photos' : 'these edits';
+    Alert.alert('Discard', `Delete ${what} from this device? This cannot be undone.`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Discard', style: 'destructive', onPress: () => discardQueueEntry(entry.id) },
+    ]);
+  }
+
+  if (entries.length === 0) return null;
+
+  return (
+    <View style={styles.panel}>
+      <Text style={styles.title}>Waiting to Sync</Text>
+      {entries.map(entry => (
+        <View key={entry.id} style={styles.row}>
+          {entry.kind === 'scan' ? (
+            <Image source={{ uri: entry.photos[0] }} style={styles.thumbnail} />
+          ) : (
+            <View style={[styles.thumbnail, styles.editIcon]}>
+              <FontAwesome name="pencil" size={18} color="#666" />
+            </View>
+          )}
+          <View style={{ flex: 1 }}>
+            <Text style={styles.name}>
+              {entry.kind === 'scan'
+                ? `${entry.location || entry.room_name} · ${entry.photos.length} photo(s)`
+                : `Edits to ${entry.changes.location || entry.changes.room_name || 'a scan'}`}
+            </Text>
+            <Text style={[styles.status, entry.status === 'failed' && styles.failedStatus]}>{describeStatus(entry)}</Text>
+          </View>
+          {entry.status === 'syncing' ? (
+            <ActivityIndicator size="small" color="#007AFF" />
+          ) : (
+            <>
+              <TouchableOpacity onPress={() => retryQueueEntry(entry.id)} style={styles.action}>
+                <FontAwesome name="refresh" size={18} color="#007AFF" />
+              </TouchableOpacity>
+              {entry.status === 'failed' && (
+                <TouchableOpacity onPress={() => confirmDiscard(entry)} style={styles.action}>
+                  <FontAwesome name="trash" size={18} color="#FF3B30" />
+                </TouchableOpacity>
+              )}
+            </>
+          )}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: {
+    marginBottom: 15,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 10,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f9f9f9',
+    padding: 10,
+    borderRadius: 10,
+    marginBottom: 8,
+  },
+  thumbnail: {
+    width: 44,
+    height: 44,
+    borderRadius: 6,
+    marginRight: 10,
+    backgroundColor: '#eee',
+  },
+  editIcon: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  name: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  status: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 2,
+  },
+  failedStatus: {
+    color: '#FF3B30',
+  },
+  action: {
+    padding: 6,
+    marginLeft: 4,
+  },
+});
@@ -0,0 +1,233 @@
+import React, { useState } from 'react';
+import { ActivityIndicator, Alert, Image, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import { uploadPhoto } from '@/lib/supabase';
+import { Condition } from '@/lib/inventory';
+import { AssetWithSightings, currentCondition, latestSighting, recordSighting, registerAsset } from '@/lib/assets';
+import ConditionPicker from '@/components/ConditionPicker';
+
+export interface ScannedTag {
+  code: string;
+  type: string;
+  // null for a tag that hasn't been registered yet
+  asset: AssetWithSightings | null;
+}
+
+interface Props {
+  tag: ScannedTag;
+  propertyId: string;
+  roomName: string;
+  location: string;
+  // Takes a photo with the open camera; resolves to null if none was taken
+  onTakePhoto: () => Promise<string | null>;
+  onSaved: (message: string) => void;
+  onCancel: () => void;
+  onViewAsset: (assetId: string) => void;
+}
+
+function describeSighting(asset: AssetWithSightings) {
+  const last = latestSighting(asset.sightings);
+  if (!last) return 'Never confirmed';
+  const where = [last.room_name, last.location].filter(Boolean).join(' · ') || 'unknown room';
+  return `Last seen ${new Date(last.seen_at).toLocaleDateString()} in ${where}`;
+}
+
+/**
+ * Shown over the scan camera when a tag is read: confirms a known asset as
+ * seen here, or registers a new one. Either way a sighting is recorded with
+ * the camera's current room and location.
+ */
+export default function TagScanSheet({ tag, propertyId, roomName, location, onTakePhoto, onSaved, onCancel, onViewAsset }: Props) {
+  const [name, setName] = useState(tag.asset?.name || '');
+  const [condition, setCondition] = useState<Condition>((tag.asset && currentCondition(tag.asset.sightings)) || 'Good');
+  const [photo, setPhoto] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  async function takePhoto() {
+    try {
+      const uri = await onTakePhoto();
+      if (uri) setPhoto(uri);
+    } catch (error: any) {
+      console.error('Tag photo error:', error);
+      Alert.alert('Error', error.message || 'Failed to take photo');
+    }
+  }
+
+  async function save() {
+    if (!tag.asset && !name.trim()) {
+      Alert.alert('Name Required', 'Give this item a name so the tag can be recognised later.');
+      return;
+    }
+    const savedRoomName = roomName.trim() || 'Unassigned';
+    try {
+      setSaving(true);
+      const imagePath = photo ? await uploadPhoto(photo, 0) : null;
+      const asset = tag.asset || await registerAsset({
+        tagCode: tag.code,
+        tagType: tag.type,
+        name,
+        propertyId,
+        roomName: savedRoomName,
+        // The sighting adds the photo, so it isn't listed twice
+        imagePaths: [],
+      });
+      await recordSighting({
+        assetId: asset.id,
+        propertyId,
+        roomName: savedRoomName,
+        location,
+        condition,
+        imagePath,
+        source: 'inventory',
+      });
+      onSaved(tag.asset ? `${asset.name} confirmed in ${savedRoomName}` : `${asset.name} tagged in ${savedRoomName}`);
+    } catch (error: any) {
+      console.error('Tag save error:', error);
+      Alert.alert('Error', error.message || 'Failed to save the tag');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <View style={styles.sheet}>
+      <View style={styles.header}>
+        <FontAwesome name="tag" size={18} color="#007AFF" />
+        <View style={{ flex: 1, marginLeft: 10 }}>
+          <Text style={styles.title}>{tag.asset ? tag.asset.name : 'New Tag'}</Text>
+          <Text style={styles.code}>{tag.code}</Text>
+        </View>
+        {tag.asset && (
+          <TouchableOpacity onPress={() => onViewAsset(tag.asset!.id)} style={styles.viewButton}>
+            <Text style={styles.viewText}>History</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {tag.asset ? (
+        <Text style={styles.detail}>{describeSighting(tag.asset)}</Text>
+      ) : (
+        <TextInput
+          style={styles.input}
+          value={name}
+          onChangeText={setName}
+          placeholder="Item name (e.g. Samsung TV)"
+          autoFocus
+        />
+      )}
+      <Text style={styles.detail}>Seen in {[roomName.trim() || 'Unassigned', location].filter(Boolean).join(' · ')}</Text>
+
+      <ConditionPicker compact value={condition} onChange={setCondition} style={styles.conditionPicker} />
+
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.photoButton} onPress={takePhoto} disabled={saving}>
+          {photo ? (
+            <Image source={{ uri: photo }} style={styles.photo} />
+          ) : (
+            <FontAwesome name="camera" size={18} color="#007AFF" />
+          )}
+        </TouchableOpacity>
+        <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={onCancel} disabled={saving}>
+          <Text style={styles.cancelText}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={[styles.button, styles.saveButton]} onPress={save} disabled={saving}>
+          {saving ? (
+            <ActivityIndicator color="white" />
+          ) : (
+            <Text style={styles.saveText}>{tag.asset ? 'Confirm Seen' : 'Register Tag'}</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  sheet: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: 'white',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    paddingBottom: 30,
+    zIndex: 30,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  code: {
+    fontSize: 12,
+    color: '#999',
+  },
+  viewButton: {
+    padding: 6,
+  },
+  viewText: {
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  detail: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 16,
+    marginBottom: 8,
+  },
+  conditionPicker: {
+    marginVertical: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  photoButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 8,
+    backgroundColor: '#EEF5FF',
+    justifyContent: 'center',
+    alignItems: 'center',
+    overflow: 'hidden',
+  },
+  photo: {
+    width: 48,
+    height: 48,
+  },
+  button: {
+    flex: 1,
+    padding: 14,
+    borderRadius: 10,
+    alignItems: 'center',
+    marginLeft: 10,
+  },
+  cancelButton: {
+    backgroundColor: '#f0f0f0',
+  },
+  cancelText: {
+    color: '#333',
+    fontWeight: 'bold',
+  },
+  saveButton: {
+    backgroundColor: '#007AFF',
+  },
+  saveText: {
+    color: 'white',
+    fontWeight: 'bold',
+  },
+});
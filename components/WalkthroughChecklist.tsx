@@ -0,0 +1,126 @@
+import React from 'react';
+import { Modal, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import { TemplateCoverage, TemplateSpot, isSameSpot } from '@/lib/roomTemplate';
+
+interface Props {
+  visible: boolean;
+  coverage: TemplateCoverage;
+  current: TemplateSpot | null;
+  onSelect: (spot: TemplateSpot) => void;
+  onClose: () => void;
+}
+
+// Every spot in the property's template, ticked once scanned; picking one sets the camera's room and location
+export default function WalkthroughChecklist({ visible, coverage, current, onSelect, onClose }: Props) {
+  const rooms: string[] = [];
+  coverage.spots.forEach(spot => {
+    if (!rooms.includes(spot.room)) rooms.push(spot.room);
+  });
+
+  return (
+    <Modal animationType="slide" transparent visible={visible} onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Walkthrough</Text>
+            <Text style={styles.count}>{coverage.scanned} of {coverage.total} scanned</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <FontAwesome name="close" size={20} color="#666" />
+            </TouchableOpacity>
+          </View>
+          <ScrollView>
+            {rooms.map(room => (
+              <View key={room} style={styles.room}>
+                <Text style={styles.roomName}>{room}</Text>
+                {coverage.spots.filter(spot => spot.room === room).map(spot => {
+                  const selected = !!current && isSameSpot(spot, current);
+                  return (
+                    <TouchableOpacity
+                      key={spot.location || room}
+                      style={[styles.spotRow, selected && styles.spotRowSelected]}
+                      onPress={() => onSelect(spot)}
+                    >
+                      <FontAwesome
+                        name={spot.scanCount > 0 ? 'check-circle' : 'circle-thin'}
+                        size={20}
+                        color={spot.scanCount > 0 ? '#34C759' : '#ccc'}
+                      />
+                      <Text style={[styles.spotText, spot.scanCount > 0 && styles.scannedText]}>
+                        {spot.location || 'Whole room'}
+                      </Text>
+                      {spot.scanCount > 1 && <Text style={styles.scanCount}>{spot.scanCount} scans</Text>}
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            ))}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    maxHeight: '75%',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    flex: 1,
+  },
+  count: {
+    fontSize: 14,
+    color: '#666',
+  },
+  closeButton: {
+    padding: 6,
+    marginLeft: 10,
+  },
+  room: {
+    marginBottom: 12,
+  },
+  roomName: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  spotRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 8,
+    borderRadius: 8,
+  },
+  spotRowSelected: {
+    backgroundColor: '#EEF5FF',
+  },
+  spotText: {
+    flex: 1,
+    fontSize: 15,
+    marginLeft: 10,
+  },
+  scannedText: {
+    color: '#666',
+  },
+  scanCount: {
+    fontSize: 12,
+    color: '#999',
+  },
+});
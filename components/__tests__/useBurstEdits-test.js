@@ -0,0 +1,84 @@
+import * as React from 'react';
+import renderer, { act } from 'react-test-renderer';
+
+import { useBurstEdits } from '../useBurstEdits';
+import { saveScanResults } from '@/lib/itemEdits';
+
+jest.mock('@/lib/itemEdits', () => ({ saveScanResults: jest.fn() }));
+
+function shot(id, changes = {}) {
+  return {
+    id,
+    uri: `file:///${id}.jpg`,
+    room_name: 'Kitchen',
+    location: '',
+    mode: 'items',
+    status: 'done',
+    scan_id: `scan-${id}`,
+    analysis: { items: [{ name: 'Chair', count: 1, condition: 'Good' }], findings: [] },
+    ...changes,
+  };
+}
+
+function renderEdits() {
+  const handle = {};
+  function Tray() {
+    handle.edits = useBurstEdits();
+    return null;
+  }
+  act(() => {
+    handle.tree = renderer.create(<Tray />);
+  });
+  return handle;
+}
+
+beforeEach(() => {
+  saveScanResults.mockReset();
+  saveScanResults.mockResolvedValue('saved');
+});
+
+it('starts editing a shot only once its scan is saved with items', () => {
+  const handle = renderEdits();
+  let loaded;
+  act(() => {
+    loaded = [
+      handle.edits.load('property', shot('a', { status: 'analyzing', scan_id: undefined })),
+      handle.edits.load('property', shot('b', { mode: 'damage' })),
+      handle.edits.load('property', shot('c', { failure_reason: 'The model timed out.' })),
+      handle.edits.load('property', shot('d')),
+      handle.edits.load('property', shot('d')),
+    ];
+  });
+  expect(loaded).toEqual([false, false, false, true, false]);
+  expect(Object.keys(handle.edits.states)).toEqual(['d']);
+});
+
+it('saves every shot before the room is finished', async () => {
+  const handle = renderEdits();
+  act(() => {
+    handle.edits.load('property', shot('a'));
+    handle.edits.load('property', shot('b'));
+  });
+  act(() => handle.edits.change('b', { ...handle.edits.states.b.results, items: [] }));
+
+  let canLeave;
+  await act(async () => {
+    canLeave = await handle.edits.confirmLeave();
+  });
+  expect(canLeave).toBe(true);
+  expect(saveScanResults).toHaveBeenCalledTimes(1);
+  expect(saveScanResults).toHaveBeenCalledWith('property', 'scan-b', expect.objectContaining({ items: [] }));
+  expect(handle.edits.states.b.status).toBe('saved');
+});
+
+it('writes edits still waiting when the tray unmounts', async () => {
+  const handle = renderEdits();
+  act(() => {
+    handle.edits.load('property', shot('a'));
+  });
+  act(() => handle.edits.change('a', { ...handle.edits.states.a.results, location: 'By the window' }));
+  await act(async () => {
+    handle.tree.unmount();
+  });
+  expect(saveScanResults).toHaveBeenCalledWith('property', 'scan-a', expect.objectContaining({ location: 'By the window' }));
+});
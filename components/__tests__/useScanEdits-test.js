@@ -0,0 +1,41 @@
+import * as React from 'react';
+import renderer, { act } from 'react-test-renderer';
+
+import { useScanEdits } from '../useScanEdits';
+import { saveScanResults } from '@/lib/itemEdits';
+
+jest.mock('@/lib/itemEdits', () => ({ saveScanResults: jest.fn() }));
+
+function results(count) {
+  return { items: [{ name: 'Chair', count, condition: 'Good' }], location: 'North wall', findings: [] };
+}
+
+it('writes edits still waiting behind a slow save when the screen unmounts', async () => {
+  let finishFirst;
+  saveScanResults
+    .mockReturnValueOnce(new Promise(resolve => { finishFirst = () => resolve('saved'); }))
+    .mockResolvedValue('saved');
+
+  let edits;
+  function Editor() {
+    edits = useScanEdits();
+    return null;
+  }
+  let tree;
+  act(() => {
+    tree = renderer.create(<Editor />);
+  });
+
+  act(() => edits.load('property', 'scan', results(1)));
+  act(() => edits.change(results(2)));
+  act(() => {
+    edits.flush();
+  });
+  act(() => edits.change(results(3)));
+  act(() => tree.unmount());
+
+  await act(async () => {
+    finishFirst();
+  });
+  expect(saveScanResults.mock.calls.map(([, , saved]) => saved.items[0].count)).toEqual([2, 3]);
+});
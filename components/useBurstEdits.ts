@@ -0,0 +1,86 @@
+import { useEffect, useRef, useState } from 'react';
+import { Alert } from 'react-native';
+import { BatchShot } from '@/lib/batchCapture';
+import { ScanResults } from '@/lib/itemEdits';
+import { ScanEditState, ScanEditStore, createScanEditStore } from '@/lib/scanEditStore';
+
+/**
+ * The burst tray's handle on its shots' scans: one edit store per shot (see
+ * lib/scanEditStore), so corrections are saved the same way as a single
+ * scan's. A shot has no state until load() is given it with its scan saved.
+ */
+export function useBurstEdits() {
+  const storesRef = useRef(new Map<string, ScanEditStore>());
+  const [states, setStates] = useState<Record<string, ScanEditState>>({});
+
+  // Whatever is still waiting is written, not dropped, as in useScanEdits
+  function release() {
+    storesRef.current.forEach(store => {
+      store.flush().finally(() => store.dispose());
+    });
+    storesRef.current = new Map();
+  }
+
+  useEffect(() => release, []);
+
+  /**
+   * Starts editing a shot once its scan is saved with items to correct.
+   * Returns true only the first time, so the caller can file its items once.
+   */
+  function load(propertyId: string, shot: BatchShot) {
+    if (storesRef.current.has(shot.id)) return false;
+    if (!shot.scan_id || !shot.analysis || shot.failure_reason || shot.mode !== 'items') return false;
+    const results: ScanResults = {
+      items: shot.analysis.items,
+      location: shot.location,
+      findings: shot.analysis.findings,
+      provenance: shot.analysis.provenance,
+    };
+    const store = createScanEditStore(propertyId, shot.scan_id, results, state => {
+      setStates(prev => ({ ...prev, [shot.id]: state }));
+    });
+    storesRef.current.set(shot.id, store);
+    setStates(prev => ({ ...prev, [shot.id]: store.state() }));
+    return true;
+  }
+
+  // For a new batch; the old one's edits are still written
+  function reset() {
+    release();
+    setStates({});
+  }
+
+  /**
+   * Saves every shot's outstanding edits before the room is finished. If any
+   * can't be saved, asks whether to leave anyway; resolves true when it's fine to go.
+   */
+  async function confirmLeave(): Promise<boolean> {
+    const stores = [...storesRef.current.values()];
+    const saved = await Promise.all(stores.map(store => store.flush()));
+    const failed = stores.filter((_, index) => !saved[index]);
+    if (failed.length === 0) return true;
+    return new Promise(resolve => {
+      Alert.alert(
+        'Unsaved Changes',
+        `Changes to ${failed.length} photo(s) couldn't be saved.\n\n${failed[0].state().error || ''}`.trim(),
+        [
+          { text: 'Keep Editing', style: 'cancel', onPress: () => resolve(false) },
+          { text: 'Discard Changes', style: 'destructive', onPress: () => resolve(true) },
+        ]
+      );
+    });
+  }
+
+  return {
+    states,
+    load,
+    reset,
+    confirmLeave,
+    change: (shotId: string, results: ScanResults) => storesRef.current.get(shotId)?.change(results),
+    undo: (shotId: string) => storesRef.current.get(shotId)?.undo(),
+    redo: (shotId: string) => storesRef.current.get(shotId)?.redo(),
+    flush: (shotId: string) => storesRef.current.get(shotId)?.flush() ?? Promise.resolve(true),
+  };
+}
+
+export type BurstEdits = ReturnType<typeof useBurstEdits>;
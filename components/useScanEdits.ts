@@ -0,0 +1,64 @@
+import { useEffect, useRef, useState } from 'react';
+import { Alert } from 'react-native';
+import { ScanResults } from '@/lib/itemEdits';
+import { ScanEditState, ScanEditStore, createScanEditStore } from '@/lib/scanEditStore';
+
+/**
+ * A screen's handle on the scan it's editing (see lib/scanEditStore). Empty
+ * until load() is given a saved scan; state is null until then.
+ */
+export function useScanEdits() {
+  const storeRef = useRef<ScanEditStore | null>(null);
+  const [state, setState] = useState<ScanEditState | null>(null);
+
+  // Whatever is still waiting when the screen goes away is written, not
+  // dropped: the store is only disposed once the flush has drained it
+  useEffect(() => () => {
+    const store = storeRef.current;
+    store?.flush().finally(() => store.dispose());
+  }, []);
+
+  function load(propertyId: string, scanId: string, results: ScanResults) {
+    storeRef.current?.dispose();
+    const store = createScanEditStore(propertyId, scanId, results, setState);
+    storeRef.current = store;
+    setState(store.state());
+  }
+
+  // Stops editing without writing anything further, e.g. before the scan is deleted or re-analysed
+  function clear() {
+    storeRef.current?.dispose();
+    storeRef.current = null;
+    setState(null);
+  }
+
+  /**
+   * Saves what's outstanding before moving on. If it can't be saved, asks
+   * whether to leave anyway; resolves true when it's fine to go.
+   */
+  async function confirmLeave(): Promise<boolean> {
+    const store = storeRef.current;
+    if (!store || await store.flush()) return true;
+    return new Promise(resolve => {
+      Alert.alert(
+        'Unsaved Changes',
+        `Your latest changes couldn't be saved.\n\n${store.state().error || ''}`.trim(),
+        [
+          { text: 'Keep Editing', style: 'cancel', onPress: () => resolve(false) },
+          { text: 'Discard Changes', style: 'destructive', onPress: () => resolve(true) },
+        ]
+      );
+    });
+  }
+
+  return {
+    state,
+    load,
+    clear,
+    confirmLeave,
+    change: (results: ScanResults) => storeRef.current?.change(results),
+    undo: () => storeRef.current?.undo(),
+    redo: () => storeRef.current?.redo(),
+    flush: () => storeRef.current?.flush() ?? Promise.resolve(true),
+  };
+}
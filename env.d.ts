@@ -3,7 +3,12 @@ declare global {
     interface ProcessEnv {
       EXPO_PUBLIC_SUPABASE_URL: string;
       EXPO_PUBLIC_SUPABASE_ANON_KEY: string;
-      EXPO_PUBLIC_GOOGLE_API_KEY: string;
+      EXPO_PUBLIC_VISION_PROVIDER?: 'gemini' | 'fake' | 'proxy';
+      EXPO_PUBLIC_ANALYSIS_URL?: string;
+      EXPO_PUBLIC_IMAGE_MAX_DIMENSION?: string;
+      EXPO_PUBLIC_IMAGE_QUALITY?: string;
+      EXPO_PUBLIC_PROMPT_VERSION?: string;
+      EXPO_PUBLIC_REVIEW_CONFIDENCE_THRESHOLD?: string;
     }
   }
 }
@@ -0,0 +1,102 @@
+import { parseExifDateTime, readExifCaptureTime } from '@/lib/captureTime';
+
+const DATE_TIME = 0x0132;
+const EXIF_IFD = 0x8769;
+const DATE_TIME_ORIGINAL = 0x9003;
+const DATE_TIME_DIGITIZED = 0x9004;
+const OFFSET_TIME_ORIGINAL = 0x9011;
+
+type Tags = Record<number, string>;
+
+// A JPEG whose APP1 segment holds a TIFF block with the given ASCII tags in IFD0 and the Exif IFD
+function jpegWithExif({ ifd0 = {}, exif = {}, littleEndian = true }: { ifd0?: Tags; exif?: Tags; littleEndian?: boolean }) {
+  const tiff: number[] = [];
+  const u16 = (at: number, value: number) => {
+    const bytes = [value & 0xff, (value >> 8) & 0xff];
+    tiff.splice(at, 2, ...(littleEndian ? bytes : bytes.reverse()));
+  };
+  const u32 = (at: number, value: number) => {
+    const bytes = [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, (value >>> 24) & 0xff];
+    tiff.splice(at, 4, ...(littleEndian ? bytes : bytes.reverse()));
+  };
+  const ifdSize = (tags: Tags) => 2 + 12 * Object.keys(tags).length + 4;
+
+  const ifd0Tags = Object.keys(exif).length > 0 ? { ...ifd0, [EXIF_IFD]: '' } : ifd0;
+  const ifd0Offset = 8;
+  const exifOffset = ifd0Offset + ifdSize(ifd0Tags);
+  let dataOffset = exifOffset + ifdSize(exif);
+  tiff.length = dataOffset;
+  tiff.fill(0);
+  tiff.splice(0, 2, ...(littleEndian ? [0x49, 0x49] : [0x4d, 0x4d]));
+  u16(2, 42);
+  u32(4, ifd0Offset);
+
+  const writeIfd = (at: number, tags: Tags) => {
+    const entries = Object.entries(tags);
+    u16(at, entries.length);
+    entries.forEach(([tag, value], i) => {
+      const entry = at + 2 + i * 12;
+      u16(entry, Number(tag));
+      if (Number(tag) === EXIF_IFD) {
+        u16(entry + 2, 4);
+        u32(entry + 4, 1);
+        u32(entry + 8, exifOffset);
+        return;
+      }
+      const text = [...value].map(char => char.charCodeAt(0)).concat(0);
+      u16(entry + 2, 2);
+      u32(entry + 4, text.length);
+      u32(entry + 8, dataOffset);
+      tiff.push(...text);
+      dataOffset += text.length;
+    });
+  };
+  writeIfd(ifd0Offset, ifd0Tags);
+  writeIfd(exifOffset, exif);
+
+  const exifHeader = [...'Exif'].map(char => char.charCodeAt(0)).concat(0, 0);
+  const size = 2 + exifHeader.length + tiff.length;
+  return new Uint8Array([0xff, 0xd8, 0xff, 0xe1, size >> 8, size & 0xff, ...exifHeader, ...tiff, 0xff, 0xda]);
+}
+
+describe('parseExifDateTime', () => {
+  it('applies the offset when there is one', () => {
+    expect(parseExifDateTime('2023:04:05 14:30:00', '+02:00')).toBe('2023-04-05T12:30:00.000Z');
+  });
+
+  it('rejects unset clocks and other formats', () => {
+    expect(parseExifDateTime('0000:00:00 00:00:00')).toBeNull();
+    expect(parseExifDateTime('April 5th')).toBeNull();
+  });
+});
+
+describe('readExifCaptureTime', () => {
+  const exif = { [DATE_TIME_ORIGINAL]: '2023:04:05 14:30:00', [OFFSET_TIME_ORIGINAL]: '-05:00' };
+
+  it.each([
+    ['little-endian', true],
+    ['big-endian', false],
+  ])('reads DateTimeOriginal in %s files', (_, littleEndian) => {
+    expect(readExifCaptureTime(jpegWithExif({ exif, littleEndian }))).toBe('2023-04-05T19:30:00.000Z');
+  });
+
+  it('falls back to DateTimeDigitized, then the file DateTime, without DateTimeOriginal', () => {
+    const digitized = jpegWithExif({ exif: { [DATE_TIME_DIGITIZED]: '2022:01:02 03:04:05', [OFFSET_TIME_ORIGINAL]: '+00:00' } });
+    expect(readExifCaptureTime(digitized)).toBe('2022-01-02T03:04:05.000Z');
+    const fileTime = jpegWithExif({ ifd0: { [DATE_TIME]: '2021:06:07 08:09:10' } });
+    expect(readExifCaptureTime(fileTime)).toBe(new Date(2021, 5, 7, 8, 9, 10).toISOString());
+  });
+
+  it('is null without any date tag', () => {
+    expect(readExifCaptureTime(jpegWithExif({ ifd0: { 0x010f: 'Camera maker' } }))).toBeNull();
+  });
+
+  it('is null for a truncated block instead of throwing', () => {
+    const bytes = jpegWithExif({ exif });
+    expect(readExifCaptureTime(bytes.subarray(0, 40))).toBeNull();
+  });
+
+  it('is null for files that are not JPEGs', () => {
+    expect(readExifCaptureTime(new Uint8Array([0x89, 0x50, 0x4e, 0x47]))).toBeNull();
+  });
+});
@@ -0,0 +1,71 @@
+import {
+  addCatalogAlias,
+  canonicalItemName,
+  groupItemsByCatalog,
+  matchItemsToCatalog,
+  mergeCatalogEntries,
+  splitCatalogAlias,
+} from '@/lib/catalog';
+import type { CatalogEntry } from '@/lib/supabase';
+
+const chair: CatalogEntry = { id: 'chair', name: 'Chair', aliases: ['Dining chairs'] };
+const lamp: CatalogEntry = { id: 'lamp', name: 'Lamp', aliases: [] };
+
+describe('canonicalItemName', () => {
+  it('resolves aliases regardless of case and plurals', () => {
+    expect(canonicalItemName('dining chair', [chair])).toBe('Chair');
+    expect(canonicalItemName(' Sofa ', [chair])).toBe('Sofa');
+  });
+});
+
+describe('matchItemsToCatalog', () => {
+  it('keeps the same catalog when every name is known', () => {
+    const catalog = [chair];
+    expect(matchItemsToCatalog(catalog, ['Chairs', 'Dining chair']).catalog).toBe(catalog);
+  });
+
+  it('suggests lookalikes and adds anything else', () => {
+    const { catalog, suggestions } = matchItemsToCatalog([chair], ['Wooden chair', 'Rug']);
+    expect(suggestions).toEqual([{ name: 'Wooden chair', entry: chair }]);
+    expect(catalog.map(entry => entry.name)).toEqual(['Chair', 'Rug']);
+  });
+});
+
+describe('mergeCatalogEntries', () => {
+  it('moves every name of the source onto the target', () => {
+    const source: CatalogEntry = { id: 'armchair', name: 'Armchair', aliases: ['Arm chair'] };
+    expect(mergeCatalogEntries([chair, source], 'armchair', 'chair')).toEqual([
+      { ...chair, aliases: ['Dining chairs', 'Armchair', 'Arm chair'] },
+    ]);
+  });
+});
+
+describe('splitCatalogAlias', () => {
+  it('makes the alias an entry of its own', () => {
+    const split = splitCatalogAlias([chair], 'chair', 'Dining chairs');
+    expect(split[0].aliases).toEqual([]);
+    expect(split[1].name).toBe('Dining chairs');
+  });
+
+  it('does not add the name twice when applied again', () => {
+    const once = splitCatalogAlias([chair], 'chair', 'Dining chairs');
+    expect(splitCatalogAlias(once, 'chair', 'Dining chairs')).toEqual(once);
+  });
+});
+
+describe('addCatalogAlias', () => {
+  it('ignores a name the entry already has', () => {
+    expect(addCatalogAlias([chair], 'chair', 'dining chair')).toEqual([chair]);
+  });
+});
+
+describe('groupItemsByCatalog', () => {
+  it('sums counts under the canonical name', () => {
+    const groups = groupItemsByCatalog([
+      { name: 'Chair', count: 2, condition: 'Good' },
+      { name: 'Dining chairs', count: 4, condition: 'Fair' },
+      { name: 'Lamp', count: 1, condition: 'Good' },
+    ], [chair, lamp]);
+    expect(groups.map(group => [group.name, group.count])).toEqual([['Chair', 6], ['Lamp', 1]]);
+  });
+});
@@ -0,0 +1,53 @@
+import { normalizeCondition, normalizeInventoryItem, summarizeConditions } from '@/lib/inventory';
+
+describe('normalizeCondition', () => {
+  it('accepts a grade in any casing without notes', () => {
+    expect(normalizeCondition('damaged')).toEqual({ condition: 'Damaged' });
+  });
+
+  it('defaults empty or non-text conditions to Good', () => {
+    expect(normalizeCondition('')).toEqual({ condition: 'Good' });
+    expect(normalizeCondition(3)).toEqual({ condition: 'Good' });
+  });
+
+  it.each([
+    ['Good, no damage', 'Good'],
+    ['Fair, one scratch on the leg', 'Fair'],
+    ['Not damaged', 'Good'],
+    ['Excellent condition, no dents', 'New'],
+    ['Without visible stains', 'Good'],
+    ['Unused', 'New'],
+    ['Used but working', 'Fair'],
+    ['Broken hinge', 'Damaged'],
+    ['Evidently worn', 'Fair'],
+    ['Leg is missing', 'Missing'],
+  ])('reads "%s" as %s', (text, grade) => {
+    expect(normalizeCondition(text)).toEqual({ condition: grade, notes: text });
+  });
+});
+
+describe('normalizeInventoryItem', () => {
+  it('keeps free-text conditions as notes', () => {
+    expect(normalizeInventoryItem({ name: 'Sofa', count: 1, condition: 'Stained cushions' })).toEqual({
+      name: 'Sofa',
+      count: 1,
+      condition: 'Poor',
+      damage_notes: 'Stained cushions',
+    });
+  });
+
+  it('prefers existing notes over the condition text', () => {
+    const item = normalizeInventoryItem({ name: 'Desk', count: 1, condition: 'chipped', damage_notes: ' Corner chipped ' });
+    expect(item.damage_notes).toBe('Corner chipped');
+  });
+});
+
+describe('summarizeConditions', () => {
+  it('counts pieces rather than rows', () => {
+    const summary = summarizeConditions([
+      { name: 'Chair', count: 4, condition: 'Good' },
+      { name: 'Table', count: 1, condition: 'Damaged' },
+    ]);
+    expect(summary).toEqual({ New: 0, Good: 4, Fair: 0, Poor: 0, Damaged: 1, Missing: 0 });
+  });
+});
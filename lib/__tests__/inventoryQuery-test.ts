@@ -0,0 +1,58 @@
+import { buildQueryVocabulary, InventoryQuery, QueryableScan, runInventoryQuery } from '@/lib/inventoryQuery';
+
+const scans: QueryableScan[] = [
+  {
+    id: 'kitchen',
+    room_name: 'Kitchen',
+    location: 'Counter',
+    items: [
+      { name: 'Cup', count: 6, condition: 'Good' },
+      { name: 'Cupboard', count: 2, condition: 'Fair' },
+      { name: 'Dining chairs', count: 4, condition: 'Good', unit_cost: 40, currency: 'USD' },
+    ],
+  },
+  {
+    id: 'living',
+    room_name: 'Living Room',
+    location: '',
+    items: [
+      { name: 'Armchair', count: 1, condition: 'Damaged' },
+      { name: 'Chair', count: 2, condition: 'Damaged', unit_cost: 25, currency: 'USD' },
+    ],
+  },
+];
+
+function query(overrides: Partial<InventoryQuery>): InventoryQuery {
+  return { intent: 'count', items: [], rooms: [], conditions: [], ...overrides };
+}
+
+describe('runInventoryQuery', () => {
+  it('matches item names on whole words', () => {
+    expect(runInventoryQuery(query({ items: ['cup'] }), scans).text).toBe('6 × cup, across 1 scan.');
+    expect(runInventoryQuery(query({ items: ['chairs'] }), scans).text).toBe('6 × chairs, across 2 scans.');
+  });
+
+  it('filters by room and condition', () => {
+    const answer = runInventoryQuery(query({ intent: 'list', rooms: ['living room'], conditions: ['Damaged'] }), scans);
+    expect(answer.text).toBe('Armchair ×1, Chair ×2.');
+    expect(answer.citations.map(citation => citation.scanId)).toEqual(['living']);
+  });
+
+  it('values the matching items', () => {
+    expect(runInventoryQuery(query({ intent: 'value', items: ['chair'] }), scans).text)
+      .toBe('Estimated replacement value of chair: $210.00.');
+  });
+
+  it('says when nothing matches', () => {
+    expect(runInventoryQuery(query({ items: ['lamp'] }), scans)).toEqual({ text: 'No lamp found.', citations: [] });
+  });
+});
+
+describe('buildQueryVocabulary', () => {
+  it('lists each name once, sorted', () => {
+    expect(buildQueryVocabulary(scans)).toEqual({
+      items: ['Armchair', 'Chair', 'Cup', 'Cupboard', 'Dining chairs'],
+      rooms: ['Kitchen', 'Living Room'],
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import {
+  differenceHash,
+  FrameSample,
+  GrayImage,
+  hammingDistance,
+  MAX_KEYFRAMES,
+  measureSharpness,
+  selectKeyframes,
+  toGrayscale,
+} from '@/lib/keyframes';
+import { MAX_IMAGES_PER_REQUEST } from '@/server/handler';
+
+function image(width: number, height: number, pixel: (x: number, y: number) => number): GrayImage {
+  const data = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) data[y * width + x] = pixel(x, y);
+  }
+  return { width, height, data };
+}
+
+// A hash with the first `ones` bits set, so two hashes differ by the difference in ones
+function hash(ones: number) {
+  return Array.from({ length: 64 }, (_, i) => i < ones);
+}
+
+function frame(timeMs: number, sharpness: number, ones: number): FrameSample {
+  return { uri: `frame-${timeMs}`, timeMs, sharpness, hash: hash(ones) };
+}
+
+describe('toGrayscale', () => {
+  it('weights the channels by luminance', () => {
+    const gray = toGrayscale([255, 0, 0, 255, 0, 255, 0, 255], 2, 1);
+    expect(Array.from(gray.data).map(Math.round)).toEqual([76, 150]);
+  });
+});
+
+describe('measureSharpness', () => {
+  it('scores edges above a flat image', () => {
+    const flat = image(8, 8, () => 128);
+    const checkerboard = image(8, 8, (x, y) => ((x + y) % 2 ? 255 : 0));
+    expect(measureSharpness(flat)).toBe(0);
+    expect(measureSharpness(checkerboard)).toBeGreaterThan(0);
+  });
+
+  it('is zero for an image too small to have an inside', () => {
+    expect(measureSharpness(image(2, 2, x => x * 255))).toBe(0);
+  });
+});
+
+describe('differenceHash', () => {
+  it('is 64 bits that follow the brightness from left to right', () => {
+    const darkening = differenceHash(image(18, 16, x => 255 - x * 10));
+    expect(darkening).toHaveLength(64);
+    expect(darkening.every(Boolean)).toBe(true);
+    expect(differenceHash(image(18, 16, x => x * 10)).some(Boolean)).toBe(false);
+  });
+
+  it('barely changes when the brightness shifts', () => {
+    const scene = image(36, 32, (x, y) => (x * 7 + y * 13) % 251);
+    const brighter = image(36, 32, (x, y) => ((x * 7 + y * 13) % 251) + 4);
+    expect(hammingDistance(differenceHash(scene), differenceHash(brighter))).toBeLessThan(4);
+  });
+});
+
+describe('hammingDistance', () => {
+  it('counts differing bits and missing ones', () => {
+    expect(hammingDistance([true, false, true], [true, true, true])).toBe(1);
+    expect(hammingDistance([true], [true, false, false])).toBe(2);
+  });
+});
+
+describe('selectKeyframes', () => {
+  it('allows as many frames as the analysis service accepts', () => {
+    expect(MAX_KEYFRAMES).toBe(MAX_IMAGES_PER_REQUEST);
+  });
+
+  it('keeps the sharpest frame of each view, in time order', () => {
+    const selected = selectKeyframes([
+      frame(200, 50, 0),
+      frame(0, 40, 0),
+      frame(100, 90, 2),
+      frame(300, 60, 40),
+      frame(400, 70, 41),
+    ]);
+    expect(selected.map(sample => sample.timeMs)).toEqual([100, 400]);
+  });
+
+  it('drops a view that was only motion blur', () => {
+    const selected = selectKeyframes([frame(0, 100, 0), frame(100, 5, 20), frame(200, 90, 40), frame(300, 80, 60)]);
+    expect(selected.map(sample => sample.timeMs)).toEqual([0, 200, 300]);
+  });
+
+  it('drops a view that repeats an earlier one', () => {
+    const selected = selectKeyframes([frame(0, 100, 0), frame(100, 100, 30), frame(200, 100, 1)]);
+    expect(selected.map(sample => sample.timeMs)).toEqual([0, 100]);
+  });
+
+  it('thins the views evenly when there are more than allowed', () => {
+    const samples = Array.from({ length: 5 }, (_, i) => frame(i * 100, 100, i * 15));
+    expect(selectKeyframes(samples, 3).map(sample => sample.timeMs)).toEqual([0, 200, 400]);
+    expect(selectKeyframes(samples, 0)).toEqual([]);
+  });
+});
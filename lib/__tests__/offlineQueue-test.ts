@@ -0,0 +1,94 @@
+import { isOfflineError, listQueue, QueuedEdit, saveScanEdit, syncQueue } from '@/lib/offlineQueue';
+import { updateScanResults } from '@/lib/scans';
+import { AnalysisServiceError } from '@/lib/resilience';
+import { getNetworkStateAsync } from 'expo-network';
+
+jest.mock('@react-native-async-storage/async-storage', () => require('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+jest.mock('expo-file-system/legacy', () => ({ documentDirectory: 'file:///documents/' }));
+jest.mock('expo-network', () => ({ getNetworkStateAsync: jest.fn(async () => ({ isConnected: false })) }));
+jest.mock('@/lib/supabase', () => ({ supabase: {}, uploadPhoto: jest.fn() }));
+jest.mock('@/lib/scans', () => ({ insertScan: jest.fn(), updateScanResults: jest.fn() }));
+jest.mock('@/lib/scanAnalysis', () => ({ analyzeScanPhotos: jest.fn(), describeAnalysisFailure: (error: Error) => error.message }));
+
+const mockUpdateScanResults = updateScanResults as jest.MockedFunction<typeof updateScanResults>;
+const mockNetworkState = getNetworkStateAsync as jest.MockedFunction<typeof getNetworkStateAsync>;
+
+describe('isOfflineError', () => {
+  it('waits out dropped connections and outages', () => {
+    expect(isOfflineError(new TypeError('Network request failed'))).toBe(true);
+    expect(isOfflineError({ name: 'StorageUnknownError', message: 'Failed to fetch' })).toBe(true);
+    expect(isOfflineError(new AnalysisServiceError('Unavailable', 503))).toBe(true);
+  });
+
+  it('does not mistake a bug or a refusal for being offline', () => {
+    expect(isOfflineError(new TypeError("Cannot read properties of null (reading 'id')"))).toBe(false);
+    expect(isOfflineError({ code: '42501', message: 'permission denied for table scans' })).toBe(false);
+  });
+});
+
+describe('saveScanEdit', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('saves straight away when online', async () => {
+    mockUpdateScanResults.mockResolvedValueOnce(true);
+    await expect(saveScanEdit('property', 'online-scan', { room_name: 'Kitchen' })).resolves.toBe('saved');
+  });
+
+  it('rethrows errors that retrying would not fix', async () => {
+    mockUpdateScanResults.mockRejectedValueOnce(new TypeError("Cannot read properties of null (reading 'id')"));
+    await expect(saveScanEdit('property', 'broken-scan', { room_name: 'Kitchen' })).rejects.toThrow(TypeError);
+    expect(await listQueue()).toEqual([]);
+  });
+
+  it('merges edits queued for the same scan', async () => {
+    mockUpdateScanResults.mockRejectedValueOnce(new TypeError('Network request failed'));
+    const items = [{ name: 'Chair', count: 2, condition: 'Good' as const }];
+    await expect(saveScanEdit('property', 'offline-scan', { items, location: 'North wall' })).resolves.toBe('queued');
+    await expect(saveScanEdit('property', 'offline-scan', { room_name: 'Kitchen', location: 'South wall' })).resolves.toBe('queued');
+
+    const queue = await listQueue('property');
+    expect(queue).toHaveLength(1);
+    expect((queue[0] as QueuedEdit).changes).toEqual({ items, room_name: 'Kitchen', location: 'South wall' });
+  });
+
+  it('keeps an edit queued during a failed sync behind the one being sent', async () => {
+    mockUpdateScanResults.mockRejectedValueOnce(new TypeError('Network request failed'));
+    await saveScanEdit('synced-property', 'synced-scan', { location: 'North wall' });
+    // The attempt saveScanEdit starts finds no connection
+    await syncQueue();
+
+    let sent!: () => void;
+    let dropConnection!: () => void;
+    const sending = new Promise<void>(resolve => {
+      sent = resolve;
+    });
+    mockNetworkState.mockResolvedValue({ isConnected: true, isInternetReachable: true } as any);
+    // Edits left queued by the tests above go through; this scan's loses the connection mid-send
+    mockUpdateScanResults.mockImplementation(async scanId => {
+      if (scanId !== 'synced-scan') return true;
+      return new Promise<boolean>((_, reject) => {
+        dropConnection = () => reject(new TypeError('Network request failed'));
+        sent();
+      });
+    });
+    const sync = syncQueue();
+    await sending;
+
+    await expect(saveScanEdit('synced-property', 'synced-scan', { room_name: 'Kitchen', location: 'South wall' })).resolves.toBe('queued');
+    dropConnection();
+    await sync;
+
+    const queue = await listQueue('synced-property');
+    expect(queue).toHaveLength(1);
+    expect(queue[0]).toMatchObject({ status: 'pending', changes: { room_name: 'Kitchen', location: 'South wall' } });
+    expect(await listQueue()).toHaveLength(1);
+    mockNetworkState.mockResolvedValue({ isConnected: false } as any);
+    mockUpdateScanResults.mockReset();
+  });
+});
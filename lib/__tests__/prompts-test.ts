@@ -0,0 +1,25 @@
+import { getPromptTemplate, isPromptVersion, listPromptTemplates } from '@/lib/prompts';
+
+describe('getPromptTemplate', () => {
+  it('defaults to the latest version', () => {
+    expect(getPromptTemplate().version).toBe('v4');
+  });
+
+  it('rejects an unknown version', () => {
+    expect(() => getPromptTemplate('v0')).toThrow('Unknown prompt version "v0"');
+    expect(isPromptVersion('v0')).toBe(false);
+  });
+
+  it('spells out the grades, severities and currency in every version', () => {
+    for (const template of listPromptTemplates()) {
+      expect(template.items(1)).toContain('exactly one of: New, Good, Fair, Poor, Damaged, Missing.');
+      expect(template.items(1)).toContain('(default USD)');
+      expect(template.damage(2)).toContain('exactly one of: Minor, Moderate, Severe.');
+    }
+  });
+
+  it('asks for a confidence score from v3 on', () => {
+    expect(getPromptTemplate('v2').items(1)).not.toContain('confidence');
+    expect(getPromptTemplate('v3').items(1)).toContain('confidence');
+  });
+});
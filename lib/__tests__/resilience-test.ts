@@ -0,0 +1,70 @@
+import {
+  AnalysisCancelledError,
+  AnalysisServiceError,
+  AnalysisTimeoutError,
+  isTransientError,
+  withRetries,
+} from '@/lib/resilience';
+
+const fast = { baseDelayMs: 1, maxDelayMs: 5 };
+
+describe('isTransientError', () => {
+  it('retries timeouts, rate limits and server errors', () => {
+    expect(isTransientError(new AnalysisTimeoutError(1000))).toBe(true);
+    expect(isTransientError(new AnalysisServiceError('Busy', 429))).toBe(true);
+    expect(isTransientError(new AnalysisServiceError('Down', 503))).toBe(true);
+  });
+
+  it('gives up on client errors and cancellation', () => {
+    expect(isTransientError(new AnalysisServiceError('Bad key', 401))).toBe(false);
+    expect(isTransientError(new AnalysisCancelledError())).toBe(false);
+  });
+
+  it('retries a dropped connection but not other TypeErrors', () => {
+    expect(isTransientError(new TypeError('Network request failed'))).toBe(true);
+    expect(isTransientError(new TypeError("Cannot read properties of undefined (reading 'items')"))).toBe(false);
+  });
+});
+
+describe('withRetries', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('retries a transient failure until it succeeds', async () => {
+    const run = jest.fn()
+      .mockRejectedValueOnce(new AnalysisServiceError('Busy', 503))
+      .mockResolvedValueOnce('done');
+    await expect(withRetries(run, fast)).resolves.toBe('done');
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry a permanent failure', async () => {
+    const run = jest.fn().mockRejectedValue(new AnalysisServiceError('Bad request', 400));
+    await expect(withRetries(run, fast)).rejects.toThrow('Bad request');
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops after maxAttempts', async () => {
+    const run = jest.fn().mockRejectedValue(new AnalysisServiceError('Busy', 503));
+    await expect(withRetries(run, { ...fast, maxAttempts: 3 })).rejects.toThrow('Busy');
+    expect(run).toHaveBeenCalledTimes(3);
+  });
+
+  it('times out an attempt that never answers', async () => {
+    const run = () => new Promise<string>(() => {});
+    await expect(withRetries(run, { ...fast, timeoutMs: 10, maxAttempts: 1 })).rejects.toBeInstanceOf(AnalysisTimeoutError);
+  });
+
+  it('rejects with AnalysisCancelledError when cancelled', async () => {
+    const controller = new AbortController();
+    const run = () => new Promise<string>(() => {});
+    const result = withRetries(run, { ...fast, signal: controller.signal });
+    controller.abort();
+    await expect(result).rejects.toBeInstanceOf(AnalysisCancelledError);
+  });
+});
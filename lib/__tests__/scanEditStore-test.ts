@@ -0,0 +1,74 @@
+import { createScanEditStore, ScanEditState } from '@/lib/scanEditStore';
+import type { ScanResults } from '@/lib/itemEdits';
+import type { ScanEditResult } from '@/lib/offlineQueue';
+
+jest.mock('@/lib/itemEdits', () => ({ saveScanResults: jest.fn() }));
+
+function results(count: number): ScanResults {
+  return { items: [{ name: 'Chair', count, condition: 'Good' }], location: 'North wall', findings: [] };
+}
+
+function deferred() {
+  let resolve!: (outcome: ScanEditResult) => void;
+  const promise = new Promise<ScanEditResult>(done => {
+    resolve = done;
+  });
+  return { promise, resolve };
+}
+
+describe('createScanEditStore', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('writes the newest version once a slow write finishes', async () => {
+    const first = deferred();
+    const save = jest.fn().mockReturnValueOnce(first.promise).mockResolvedValue('saved');
+    const store = createScanEditStore('property', 'scan', results(1), () => {}, { save, delayMs: 0 });
+
+    store.change(results(2));
+    const flushed = store.flush();
+    store.change(results(3));
+    first.resolve('saved');
+
+    await expect(flushed).resolves.toBe(true);
+    await expect(store.flush()).resolves.toBe(true);
+    expect(save.mock.calls.map(([, , saved]) => saved.items[0].count)).toEqual([2, 3]);
+    store.dispose();
+  });
+
+  it('saves undo and redo like any other change', async () => {
+    const save = jest.fn().mockResolvedValue('saved');
+    const store = createScanEditStore('property', 'scan', results(1), () => {}, { save, delayMs: 0 });
+
+    store.change(results(2));
+    store.undo();
+    expect(store.state()).toMatchObject({ results: results(1), canUndo: false, canRedo: true });
+    await store.flush();
+    expect(save).toHaveBeenLastCalledWith('property', 'scan', results(1));
+
+    store.redo();
+    expect(store.state().results).toEqual(results(2));
+    store.dispose();
+  });
+
+  it('reports a refused write as failed until one succeeds', async () => {
+    const save = jest.fn().mockResolvedValueOnce('rejected').mockResolvedValue('queued');
+    const states: ScanEditState[] = [];
+    const store = createScanEditStore('property', 'scan', results(1), state => states.push(state), { save, delayMs: 0 });
+
+    store.change(results(2));
+    await expect(store.flush()).resolves.toBe(false);
+    expect(store.state().status).toBe('failed');
+    expect(store.state().error).toMatch('Row Level Security');
+
+    await expect(store.flush()).resolves.toBe(true);
+    expect(store.state()).toMatchObject({ status: 'queued', error: undefined });
+    expect(states.length).toBeGreaterThan(0);
+    store.dispose();
+  });
+});
@@ -0,0 +1,136 @@
+import {
+  AnalysisValidationError,
+  parseModelJson,
+  validateAuditVerification,
+  validateInventoryItems,
+  validateInventoryQuery,
+  validatePlacement,
+  validateSurfaceFindings,
+} from '@/lib/validation';
+
+describe('parseModelJson', () => {
+  it('strips markdown fences and chatter around the payload', () => {
+    expect(parseModelJson('Here you go:\n```json\n{"items": []}\n```\nHope that helps')).toEqual({ items: [] });
+  });
+
+  it('rejects a response without JSON', () => {
+    expect(() => parseModelJson('I could not see the photo')).toThrow(AnalysisValidationError);
+  });
+
+  it('rejects malformed JSON', () => {
+    expect(() => parseModelJson('{"items": [}')).toThrow('Response was not valid JSON');
+  });
+});
+
+describe('validateInventoryItems', () => {
+  it('coerces numeric strings, prices and percentages', () => {
+    const [item] = validateInventoryItems({
+      items: [{ name: ' Chair ', count: '3', condition: 'good', unit_cost: '$1,200.50', currency: 'eur', confidence: '85%' }],
+    });
+    expect(item).toEqual({
+      name: 'Chair',
+      count: 3,
+      condition: 'Good',
+      unit_cost: 1200.5,
+      currency: 'EUR',
+      cost_source: 'ai',
+      confidence: 0.85,
+    });
+  });
+
+  it.each([
+    ['$120', 120],
+    ['USD 80', 80],
+    ['45.5 EUR', 45.5],
+    ['100-150', undefined],
+    ['-5', undefined],
+    ['1,200.50 (2 items)', undefined],
+    ['about 30', undefined],
+  ])('reads a unit_cost of "%s" as %s', (unitCost, expected) => {
+    const [item] = validateInventoryItems([{ name: 'Lamp', count: 1, unit_cost: unitCost }]);
+    expect(item.unit_cost).toBe(expected);
+  });
+
+  it('accepts a bare array without the items wrapper', () => {
+    expect(validateInventoryItems([{ name: 'Lamp', count: 1 }])).toHaveLength(1);
+  });
+
+  it('converts Gemini [ymin, xmin, ymax, xmax] boxes on the 0-1000 scale', () => {
+    const [item] = validateInventoryItems([{ name: 'Lamp', count: 1, boxes: [[100, 200, 500, 600]] }]);
+    expect(item.boxes).toEqual([{ x: 0.2, y: 0.1, width: 0.4, height: 0.4 }]);
+  });
+
+  it('lists every invalid item instead of stopping at the first', () => {
+    try {
+      validateInventoryItems({ items: [{ count: 1 }, { name: 'Sofa', count: 'several' }, 'Table'] });
+      throw new Error('expected a validation error');
+    } catch (error) {
+      expect(error).toBeInstanceOf(AnalysisValidationError);
+      expect((error as AnalysisValidationError).issues).toEqual([
+        'Item 1 is missing a name',
+        'Item 2 (Sofa) has no numeric count',
+        'Item 3 is not an object',
+      ]);
+    }
+  });
+
+  it('rejects a shape without an items array', () => {
+    expect(() => validateInventoryItems({ objects: [] })).toThrow('Unexpected analysis shape');
+  });
+});
+
+describe('validateSurfaceFindings', () => {
+  it('maps severity synonyms onto the scale', () => {
+    const [finding] = validateSurfaceFindings({ findings: [{ surface: 'Wall', description: 'Crack', severity: 'High' }] });
+    expect(finding).toEqual({ surface: 'Wall', location: '', description: 'Crack', severity: 'Severe' });
+  });
+
+  it('rejects an unknown severity', () => {
+    expect(() => validateSurfaceFindings([{ description: 'Stain', severity: 'catastrophic' }])).toThrow(AnalysisValidationError);
+  });
+});
+
+describe('validateAuditVerification', () => {
+  it('derives each status from the counts', () => {
+    const { results, changes } = validateAuditVerification([
+      { item: 'Chair', expected_count: 4, found_count: '4', status: 'Missing' },
+      { item: 'Lamp', expected_count: 2, found_count: 0 },
+      { item: 'Rug', expected_count: 1, found_count: 2 },
+    ]);
+    expect(results.map(result => result.status)).toEqual(['Match', 'Missing', 'Mismatch']);
+    expect(changes).toEqual([]);
+  });
+
+  it('normalizes change kinds', () => {
+    const { changes } = validateAuditVerification({
+      results: [],
+      changes: [{ type: 'Relocated', name: 'Sofa', description: 'Now by the window' }],
+    });
+    expect(changes).toEqual([{ kind: 'moved', item: 'Sofa', description: 'Now by the window' }]);
+  });
+});
+
+describe('validatePlacement', () => {
+  it('keeps a room without a location', () => {
+    expect(validatePlacement({ room: 'Kitchen' })).toEqual({ room: 'Kitchen', location: '' });
+  });
+
+  it('rejects a missing room', () => {
+    expect(() => validatePlacement({ location: 'North wall' })).toThrow('Placement is missing a room');
+  });
+});
+
+describe('validateInventoryQuery', () => {
+  it('accepts any casing of intents and conditions', () => {
+    expect(validateInventoryQuery({ intent: 'Count', items: ['chair'], conditions: ['damaged'] })).toEqual({
+      intent: 'count',
+      items: ['chair'],
+      rooms: [],
+      conditions: ['Damaged'],
+    });
+  });
+
+  it('rejects an unknown intent', () => {
+    expect(() => validateInventoryQuery({ intent: 'delete', items: [] })).toThrow('Query could not be understood');
+  });
+});
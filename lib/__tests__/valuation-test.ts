@@ -0,0 +1,45 @@
+import { addTotals, effectiveUnitCost, formatTotals, valueItems } from '@/lib/valuation';
+import type { InventoryItem, PriceListEntry } from '@/lib/supabase';
+
+const priceList: PriceListEntry[] = [{ name: 'chair', unit_cost: 50, currency: 'EUR' }];
+
+function item(overrides: Partial<InventoryItem>): InventoryItem {
+  return { name: 'Chair', count: 1, condition: 'Good', ...overrides };
+}
+
+describe('effectiveUnitCost', () => {
+  it('prefers the price list over the model estimate', () => {
+    expect(effectiveUnitCost(item({ unit_cost: 80, currency: 'USD', cost_source: 'ai' }), priceList)).toEqual({ unitCost: 50, currency: 'EUR' });
+  });
+
+  it('never overrides a cost the user typed', () => {
+    expect(effectiveUnitCost(item({ unit_cost: 80, currency: 'USD', cost_source: 'manual' }), priceList)).toEqual({ unitCost: 80, currency: 'USD' });
+  });
+
+  it('is null for an item nobody has priced', () => {
+    expect(effectiveUnitCost(item({ name: 'Lamp' }), priceList)).toBeNull();
+  });
+});
+
+describe('valueItems', () => {
+  it('multiplies by count and keeps currencies apart', () => {
+    const totals = valueItems([
+      item({ count: 4 }),
+      item({ name: 'Lamp', count: 2, unit_cost: 30, currency: 'USD' }),
+      item({ name: 'Rug' }),
+    ], priceList);
+    expect(totals).toEqual({ EUR: 200, USD: 60 });
+  });
+});
+
+describe('addTotals', () => {
+  it('adds amounts per currency', () => {
+    expect(addTotals({ USD: 10 }, { USD: 5, EUR: 1 }, {})).toEqual({ USD: 15, EUR: 1 });
+  });
+});
+
+describe('formatTotals', () => {
+  it('shows a dash for nothing valued', () => {
+    expect(formatTotals({})).toBe('-');
+  });
+});
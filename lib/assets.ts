@@ -0,0 +1,147 @@
+import type { BarcodeType } from 'expo-camera';
+import { supabase, Asset, AssetSighting, SightingSource } from '@/lib/supabase';
+import type { Condition } from '@/lib/inventory';
+
+/**
+ * QR and barcode asset tags. Each tag code belongs to one asset record; every
+ * time the tag is scanned a sighting is added, so an asset's history says
+ * where and when it was last confirmed and how its condition has changed.
+ * The asset itself keeps the property and room of its latest sighting.
+ */
+
+// QR for printed asset tags, plus the 1D and 2D codes already on many appliances
+export const TAG_BARCODE_TYPES: BarcodeType[] = ['qr', 'datamatrix', 'code128', 'code39', 'ean13', 'ean8', 'upc_a', 'upc_e'];
+
+// The camera reports a code many times a second; the same code is ignored this long after it was handled
+export const TAG_RESCAN_MS = 5 * 1000;
+
+export interface AssetWithSightings extends Asset {
+  // Newest first
+  sightings: AssetSighting[];
+}
+
+export interface NewAsset {
+  tagCode: string;
+  tagType?: string;
+  name: string;
+  propertyId: string;
+  roomName: string;
+  imagePaths: string[];
+}
+
+export interface NewSighting {
+  assetId: string;
+  propertyId: string | null;
+  roomName: string | null;
+  location?: string;
+  condition?: Condition;
+  imagePath?: string | null;
+  source: SightingSource;
+  scanId?: string | null;
+}
+
+// Scanners pad some symbologies with whitespace; the code itself is case-sensitive
+export function normalizeTagCode(code: string) {
+  return code.trim();
+}
+
+export function latestSighting(sightings: AssetSighting[]): AssetSighting | null {
+  return sightings.reduce<AssetSighting | null>(
+    (latest, sighting) => (!latest || sighting.seen_at > latest.seen_at ? sighting : latest),
+    null
+  );
+}
+
+// The condition recorded at the most recent sighting that noted one
+export function currentCondition(sightings: AssetSighting[]): Condition | null {
+  const withCondition = sightings.filter(sighting => sighting.condition);
+  return latestSighting(withCondition)?.condition || null;
+}
+
+export async function findAssetByTag(tagCode: string): Promise<AssetWithSightings | null> {
+  const { data, error } = await supabase
+    .from('assets')
+    .select('*, sightings:asset_sightings(*)')
+    .eq('tag_code', normalizeTagCode(tagCode))
+    .maybeSingle();
+  if (error) throw error;
+  return data ? sortSightings(data) : null;
+}
+
+export async function fetchAsset(id: string): Promise<AssetWithSightings> {
+  const { data, error } = await supabase.from('assets').select('*, sightings:asset_sightings(*)').eq('id', id).single();
+  if (error) throw error;
+  return sortSightings(data);
+}
+
+// Assets last seen at a property, each with its history
+export async function listPropertyAssets(propertyId: string): Promise<AssetWithSightings[]> {
+  const { data, error } = await supabase
+    .from('assets')
+    .select('*, sightings:asset_sightings(*)')
+    .eq('property_id', propertyId)
+    .order('name');
+  if (error) throw error;
+  return (data || []).map(sortSightings);
+}
+
+// An assets row as selected with its asset_sightings embedded as sightings
+type AssetRow = Omit<Asset, 'image_paths'> & { image_paths: string[] | null; sightings?: AssetSighting[] | null };
+
+function sortSightings({ sightings, image_paths, ...asset }: AssetRow): AssetWithSightings {
+  return {
+    ...asset,
+    image_paths: image_paths || [],
+    sightings: [...(sightings || [])].sort((a, b) => b.seen_at.localeCompare(a.seen_at)),
+  };
+}
+
+export async function registerAsset(asset: NewAsset): Promise<Asset> {
+  const { data, error } = await supabase
+    .from('assets')
+    .insert({
+      tag_code: normalizeTagCode(asset.tagCode),
+      tag_type: asset.tagType || null,
+      name: asset.name.trim(),
+      property_id: asset.propertyId,
+      room_name: asset.roomName,
+      image_paths: asset.imagePaths,
+    })
+    .select()
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Records that a tag was seen and moves the asset to where it was seen. A
+ * sighting's photo is also added to the asset's photos.
+ */
+export async function recordSighting(sighting: NewSighting): Promise<AssetSighting> {
+  const { data, error } = await supabase
+    .from('asset_sightings')
+    .insert({
+      asset_id: sighting.assetId,
+      property_id: sighting.propertyId,
+      room_name: sighting.roomName,
+      location: sighting.location || null,
+      condition: sighting.condition || null,
+      image_path: sighting.imagePath || null,
+      source: sighting.source,
+      scan_id: sighting.scanId || null,
+    })
+    .select()
+    .single();
+  if (error) throw error;
+
+  // The photo is appended in the database (SUPABASE_MIGRATION_V10.md), so concurrent sightings keep both
+  const { error: updateError } = await supabase.rpc('move_asset_to_sighting', {
+    p_asset_id: sighting.assetId,
+    p_property_id: sighting.propertyId,
+    p_room_name: sighting.roomName,
+    p_image_path: sighting.imagePath || null,
+  });
+  // The sighting is what matters; a stale "last seen" on the asset fixes itself next time
+  if (updateError) console.warn(`Could not update asset ${sighting.assetId} after a sighting:`, updateError);
+  return data;
+}
@@ -0,0 +1,236 @@
+import { supabase, uploadPhoto } from '@/lib/supabase';
+import { ScanAnalysis, ScanMode, analyzeScanPhotos, describeAnalysisFailure, suggestScanPlacement } from '@/lib/scanAnalysis';
+import { ScanToQueue, enqueueScan, isOfflineError, isOnline } from '@/lib/offlineQueue';
+import { insertScan } from '@/lib/scans';
+
+/**
+ * Burst capture: every shot becomes its own scan, uploaded, analysed and
+ * saved in the background while the camera stays open. At most
+ * MAX_PARALLEL_SHOTS are in flight at once; the rest wait their turn in the
+ * order they were taken. A shot taken without a room gets one suggested
+ * from its photo, as in the single-shot flow. A shot that loses the
+ * connection is handed to the offline queue instead of failing.
+ */
+
+// How many shots upload and analyse at the same time
+export const MAX_PARALLEL_SHOTS = 3;
+
+// 'queued' shots were handed to the offline queue and finish syncing there
+export type BatchShotStatus = 'waiting' | 'uploading' | 'analyzing' | 'saving' | 'done' | 'queued' | 'failed';
+
+export interface BatchShot {
+  // Also the scan's client_id, so a retried insert finds the row instead of adding another
+  id: string;
+  uri: string;
+  // Empty until suggested when the shot was taken without a room
+  room_name: string;
+  location: string;
+  mode: ScanMode;
+  status: BatchShotStatus;
+  // When an imported photo was originally taken
+  captured_at?: string | null;
+  storage_path?: string;
+  analysis?: ScanAnalysis;
+  scan_id?: string;
+  // The model couldn't answer; the scan was saved as failed and can be re-run from its page
+  failure_reason?: string | null;
+  // Set when the shot couldn't be saved at all; it can be retried from the review tray
+  error?: string;
+}
+
+export interface ShotToCapture {
+  uri: string;
+  // Empty to have the room suggested from the photo
+  roomName: string;
+  location: string;
+  mode: ScanMode;
+  capturedAt?: string | null;
+}
+
+export interface BatchOptions {
+  concurrency?: number;
+  // The property's room names, so suggestions reuse them
+  knownRooms?: () => string[];
+}
+
+export interface BatchCapture {
+  add(shot: ShotToCapture): BatchShot;
+  // Puts a failed shot back in line
+  retry(id: string): void;
+  shots(): BatchShot[];
+}
+
+// Shots that will still change status without anyone touching them
+export function isShotPending(shot: BatchShot) {
+  return shot.status === 'waiting' || shot.status === 'uploading' || shot.status === 'analyzing' || shot.status === 'saving';
+}
+
+function createShotId() {
+  return `batch-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+class ShotQueuedOffline extends Error {}
+
+/**
+ * Starts an empty batch for one property. onChange is called with every
+ * shot after each status change, in the order they were taken.
+ */
+export function createBatchCapture(
+  propertyId: string,
+  onChange: (shots: BatchShot[]) => void,
+  { concurrency = MAX_PARALLEL_SHOTS, knownRooms = () => [] }: BatchOptions = {}
+): BatchCapture {
+  let shots: BatchShot[] = [];
+  let running = 0;
+
+  function patch(id: string, changes: Partial<BatchShot>) {
+    shots = shots.map(shot => (shot.id === id ? { ...shot, ...changes } : shot));
+    onChange(shots);
+  }
+
+  function current(id: string) {
+    return shots.find(shot => shot.id === id)!;
+  }
+
+  async function queueOffline(shot: BatchShot, progress: Pick<ScanToQueue, 'storagePaths' | 'analysis'>) {
+    await enqueueScan({
+      propertyId,
+      roomName: shot.room_name || 'Unassigned',
+      location: shot.location,
+      mode: shot.mode,
+      photos: [shot.uri],
+      capturedAt: shot.captured_at,
+      ...progress,
+    });
+    throw new ShotQueuedOffline();
+  }
+
+  async function upload(shot: BatchShot) {
+    if (shot.storage_path) return shot.storage_path;
+    if (!(await isOnline())) await queueOffline(shot, {});
+    patch(shot.id, { status: 'uploading' });
+    try {
+      // A fixed name means a retried upload replaces the first attempt's file
+      const path = await uploadPhoto(shot.uri, 0, { name: shot.id });
+      patch(shot.id, { storage_path: path });
+      return path;
+    } catch (error) {
+      if (isOfflineError(error)) await queueOffline(shot, {});
+      throw error;
+    }
+  }
+
+  // A failed suggestion only costs the room; the shot is still saved
+  async function place(shot: BatchShot, storagePath: string) {
+    if (shot.room_name) return;
+    try {
+      const suggestion = await suggestScanPlacement([shot.uri], knownRooms(), { storagePaths: [storagePath] });
+      patch(shot.id, { room_name: suggestion.room, location: shot.location || suggestion.location || '' });
+    } catch (error) {
+      console.warn(`Could not suggest a room for burst shot ${shot.id}:`, error);
+      patch(shot.id, { room_name: 'Unassigned' });
+    }
+  }
+
+  async function analyze(shot: BatchShot, storagePath: string) {
+    if (shot.analysis) return;
+    patch(shot.id, { status: 'analyzing' });
+    try {
+      const analysis = await analyzeScanPhotos(shot.mode, [shot.uri], { storagePaths: [storagePath] });
+      patch(shot.id, { analysis, failure_reason: null });
+    } catch (error) {
+      if (isOfflineError(error) && !(await isOnline())) await queueOffline(shot, { storagePaths: [storagePath] });
+      // Saved as a failed scan, as in the single-shot flow, so the photo isn't lost
+      console.error(`Analysis of burst shot ${shot.id} failed:`, error);
+      patch(shot.id, { analysis: { items: [], findings: [] }, failure_reason: describeAnalysisFailure(error) });
+    }
+  }
+
+  async function save(shot: BatchShot, storagePath: string) {
+    patch(shot.id, { status: 'saving' });
+    const analysis = shot.analysis || { items: [], findings: [] };
+    try {
+      return await insertScan({
+        clientId: shot.id,
+        propertyId,
+        roomName: shot.room_name || 'Unassigned',
+        location: shot.location,
+        imagePaths: [storagePath],
+        status: shot.failure_reason ? 'failed' : 'complete',
+        failureReason: shot.failure_reason,
+        items: analysis.items,
+        findings: analysis.findings,
+        provenance: analysis.provenance,
+        capturedAt: shot.captured_at,
+      });
+    } catch (error: any) {
+      if (error?.code === '23505') {
+        // An earlier attempt's insert landed after all
+        const { data: existing, error: lookupError } = await supabase.from('scans').select('id').eq('client_id', shot.id).limit(1);
+        if (lookupError) throw lookupError;
+        return existing?.[0]?.id as string | undefined;
+      }
+      if (isOfflineError(error)) {
+        await queueOffline(shot, { storagePaths: [storagePath], ...(shot.failure_reason ? {} : { analysis }) });
+      }
+      throw error;
+    }
+  }
+
+  async function process(id: string) {
+    try {
+      const storagePath = await upload(current(id));
+      await Promise.all([place(current(id), storagePath), analyze(current(id), storagePath)]);
+      const scanId = await save(current(id), storagePath);
+      patch(id, { status: 'done', scan_id: scanId, error: undefined });
+    } catch (error: any) {
+      if (error instanceof ShotQueuedOffline) {
+        console.log(`Burst shot ${id} queued for offline sync`);
+        patch(id, { status: 'queued', error: undefined });
+        return;
+      }
+      console.error(`Burst shot ${id} could not be saved:`, error);
+      patch(id, { status: 'failed', error: error?.message || 'Failed to save this photo' });
+    }
+  }
+
+  function pump() {
+    while (running < concurrency) {
+      const next = shots.find(shot => shot.status === 'waiting');
+      if (!next) return;
+      running++;
+      // Marked before the first await so the next pass doesn't pick it up again
+      patch(next.id, { status: next.storage_path ? 'analyzing' : 'uploading' });
+      process(next.id).finally(() => {
+        running--;
+        pump();
+      });
+    }
+  }
+
+  return {
+    add(capture) {
+      const shot: BatchShot = {
+        id: createShotId(),
+        uri: capture.uri,
+        room_name: capture.roomName,
+        location: capture.location,
+        mode: capture.mode,
+        status: 'waiting',
+        ...(capture.capturedAt ? { captured_at: capture.capturedAt } : {}),
+      };
+      shots = [...shots, shot];
+      onChange(shots);
+      pump();
+      return shot;
+    },
+
+    retry(id) {
+      if (current(id)?.status !== 'failed') return;
+      patch(id, { status: 'waiting', error: undefined });
+      pump();
+    },
+
+    shots: () => shots,
+  };
+}
@@ -0,0 +1,140 @@
+/**
+ * When an imported photo was actually taken, read from its EXIF data. Photos
+ * from an earlier inspection or a separate camera can be months old, and the
+ * scan should say so rather than showing the day it was imported.
+ * preparePhoto drops EXIF when it re-encodes, so this has to run on the
+ * original file.
+ */
+
+// Enough of the file to reach the EXIF block, which sits near the start of a JPEG
+export const CAPTURE_TIME_HEADER_BYTES = 128 * 1024;
+
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_DATE_TIME_DIGITIZED = 0x9004;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const TYPE_ASCII = 2;
+
+/**
+ * EXIF dates look like "2023:04:05 14:30:00" with no time zone; the optional
+ * offset ("+02:00") comes from OffsetTimeOriginal. Without one the time is
+ * taken as local to the device. Returns an ISO string, or null if unreadable.
+ */
+export function parseExifDateTime(value: string, offset?: string | null): string | null {
+  const match = /^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/.exec(value.trim());
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second] = match.map(Number);
+  // Cameras without a set clock write zeros
+  if (year < 1900 || month < 1 || day < 1) return null;
+
+  let date: Date;
+  const offsetMatch = offset ? /^([+-])(\d{2}):?(\d{2})$/.exec(offset.trim()) : null;
+  if (offsetMatch) {
+    const sign = offsetMatch[1] === '-' ? -1 : 1;
+    const offsetMinutes = sign * (Number(offsetMatch[2]) * 60 + Number(offsetMatch[3]));
+    date = new Date(Date.UTC(year, month - 1, day, hour, minute, second) - offsetMinutes * 60 * 1000);
+  } else {
+    date = new Date(year, month - 1, day, hour, minute, second);
+  }
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+interface TiffReader {
+  u16(offset: number): number;
+  u32(offset: number): number;
+  ascii(offset: number, length: number): string;
+}
+
+function createTiffReader(bytes: Uint8Array, start: number, littleEndian: boolean): TiffReader {
+  const inRange = (offset: number, length: number) => offset >= 0 && start + offset + length <= bytes.length;
+  return {
+    u16(offset) {
+      if (!inRange(offset, 2)) throw new RangeError('EXIF offset out of range');
+      const a = bytes[start + offset];
+      const b = bytes[start + offset + 1];
+      return littleEndian ? a | (b << 8) : (a << 8) | b;
+    },
+    u32(offset) {
+      const high = this.u16(littleEndian ? offset + 2 : offset);
+      const low = this.u16(littleEndian ? offset : offset + 2);
+      return high * 0x10000 + low;
+    },
+    ascii(offset, length) {
+      if (!inRange(offset, length)) throw new RangeError('EXIF offset out of range');
+      let text = '';
+      for (let i = 0; i < length; i++) {
+        const code = bytes[start + offset + i];
+        if (code === 0) break;
+        text += String.fromCharCode(code);
+      }
+      return text;
+    },
+  };
+}
+
+// Tag -> ASCII value or raw offset/value, for one IFD
+function readIfd(reader: TiffReader, ifdOffset: number): Map<number, string | number> {
+  const entries = new Map<number, string | number>();
+  const count = reader.u16(ifdOffset);
+  for (let i = 0; i < count; i++) {
+    const entry = ifdOffset + 2 + i * 12;
+    const tag = reader.u16(entry);
+    const type = reader.u16(entry + 2);
+    const length = reader.u32(entry + 4);
+    if (type === TYPE_ASCII) {
+      // Values of four bytes or less are stored inline
+      entries.set(tag, reader.ascii(length > 4 ? reader.u32(entry + 8) : entry + 8, length));
+    } else {
+      entries.set(tag, reader.u32(entry + 8));
+    }
+  }
+  return entries;
+}
+
+function findExifStart(bytes: Uint8Array): number | null {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Start of scan: image data follows and no more metadata
+    if (marker === 0xda) return null;
+    const size = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const isExif = marker === 0xe1 && String.fromCharCode(...Array.from(bytes.subarray(offset + 4, offset + 10))) === 'Exif\0\0';
+    if (isExif) return offset + 10;
+    offset += 2 + size;
+  }
+  return null;
+}
+
+/**
+ * Reads the capture time from the start of a JPEG (see
+ * CAPTURE_TIME_HEADER_BYTES). Prefers DateTimeOriginal, then
+ * DateTimeDigitized, then the file's DateTime. Returns null for other
+ * formats, missing tags or a malformed block.
+ */
+export function readExifCaptureTime(bytes: Uint8Array): string | null {
+  try {
+    const tiffStart = findExifStart(bytes);
+    if (tiffStart === null) return null;
+    const byteOrder = String.fromCharCode(bytes[tiffStart], bytes[tiffStart + 1]);
+    if (byteOrder !== 'II' && byteOrder !== 'MM') return null;
+    const reader = createTiffReader(bytes, tiffStart, byteOrder === 'II');
+
+    const ifd0 = readIfd(reader, reader.u32(4));
+    const exifOffset = ifd0.get(TAG_EXIF_IFD);
+    const exif = typeof exifOffset === 'number' ? readIfd(reader, exifOffset) : new Map<number, string | number>();
+
+    const asText = (value: string | number | undefined) => (typeof value === 'string' ? value : null);
+    const offset = asText(exif.get(TAG_OFFSET_TIME_ORIGINAL));
+    const candidates = [asText(exif.get(TAG_DATE_TIME_ORIGINAL)), asText(exif.get(TAG_DATE_TIME_DIGITIZED)), asText(ifd0.get(TAG_DATE_TIME))];
+    for (const candidate of candidates) {
+      const parsed = candidate ? parseExifDateTime(candidate, offset) : null;
+      if (parsed) return parsed;
+    }
+    return null;
+  } catch (error) {
+    // A truncated or malformed block just means no capture time
+    return null;
+  }
+}
@@ -0,0 +1,187 @@
+import type { CatalogEntry, InventoryItem } from '@/lib/supabase';
+import { conditionRank } from '@/lib/inventory';
+
+/**
+ * A property's catalog of canonical items. The model and the people editing
+ * scans call the same object "Chair", "Dining chair" or "Wooden chair"; the
+ * catalog maps every such name onto one entry so totals, reports and audits
+ * count it once. Items keep whatever name they were saved with and are
+ * resolved through the catalog when read, so merging or splitting entries
+ * never has to rewrite scans.
+ */
+
+// A name the catalog doesn't know yet that looks like an existing entry
+export interface CatalogSuggestion {
+  name: string;
+  entry: CatalogEntry;
+}
+
+// Two entries that look like the same object
+export interface CatalogMergeCandidate {
+  source: CatalogEntry;
+  target: CatalogEntry;
+}
+
+// Items under one canonical name, with their counts summed across scans
+export interface CatalogGroup {
+  name: string;
+  count: number;
+  // Other names the grouped items were saved under
+  aliases: string[];
+  items: InventoryItem[];
+}
+
+function tokens(name: string) {
+  return name.trim().toLowerCase().split(/[^a-z0-9]+/).filter(Boolean).map(token => token.replace(/s$/, ''));
+}
+
+export function normalizeCatalogName(name: string) {
+  return tokens(name).join(' ');
+}
+
+// The last word is usually what the object is ("Wooden chair" is a chair)
+function headNoun(name: string) {
+  const words = tokens(name);
+  return words[words.length - 1] || '';
+}
+
+function entryNames(entry: CatalogEntry) {
+  return [entry.name, ...entry.aliases];
+}
+
+function createCatalogId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createCatalogEntry(name: string): CatalogEntry {
+  return { id: createCatalogId(), name: name.trim(), aliases: [] };
+}
+
+export function findCatalogEntry(catalog: CatalogEntry[], name: string): CatalogEntry | undefined {
+  const key = normalizeCatalogName(name);
+  if (!key) return undefined;
+  return catalog.find(entry => entryNames(entry).some(known => normalizeCatalogName(known) === key));
+}
+
+export function canonicalItemName(name: string, catalog: CatalogEntry[]) {
+  return findCatalogEntry(catalog, name)?.name || name.trim();
+}
+
+function sharedTokens(a: string, b: string) {
+  const other = new Set(tokens(b));
+  return tokens(a).filter(token => other.has(token)).length;
+}
+
+/**
+ * The entry an unknown name most likely belongs to: one with the same head
+ * noun, preferring the most words in common and then the shortest name.
+ * Null when the name is already in the catalog or nothing looks similar.
+ */
+export function suggestCatalogEntry(catalog: CatalogEntry[], name: string, exclude?: CatalogEntry): CatalogEntry | null {
+  if (!exclude && findCatalogEntry(catalog, name)) return null;
+  const head = headNoun(name);
+  if (!head) return null;
+
+  let best: CatalogEntry | null = null;
+  let bestScore = 0;
+  for (const entry of catalog) {
+    if (entry === exclude) continue;
+    const score = Math.max(...entryNames(entry).map(known => (headNoun(known) === head ? sharedTokens(name, known) : 0)));
+    if (score > bestScore || (score > 0 && score === bestScore && best && entry.name.length < best.name.length)) {
+      best = entry;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Files a scan's item names: names the catalog knows need nothing, names
+ * that look like an existing entry come back as suggestions for the user to
+ * accept or reject, and anything else becomes a new entry.
+ */
+export function matchItemsToCatalog(catalog: CatalogEntry[], names: string[]): { catalog: CatalogEntry[]; suggestions: CatalogSuggestion[] } {
+  let next = catalog;
+  const suggestions: CatalogSuggestion[] = [];
+  names.forEach(name => {
+    if (!name.trim() || findCatalogEntry(next, name)) return;
+    if (suggestions.some(suggestion => normalizeCatalogName(suggestion.name) === normalizeCatalogName(name))) return;
+    const entry = suggestCatalogEntry(next, name);
+    if (entry) suggestions.push({ name, entry });
+    else next = [...next, createCatalogEntry(name)];
+  });
+  return { catalog: next, suggestions };
+}
+
+export function addCatalogAlias(catalog: CatalogEntry[], entryId: string, alias: string): CatalogEntry[] {
+  return catalog.map(entry =>
+    entry.id === entryId && !entryNames(entry).some(known => normalizeCatalogName(known) === normalizeCatalogName(alias))
+      ? { ...entry, aliases: [...entry.aliases, alias.trim()] }
+      : entry
+  );
+}
+
+// Keeps the name apart from the entry it was suggested for
+export function addCatalogName(catalog: CatalogEntry[], name: string): CatalogEntry[] {
+  return findCatalogEntry(catalog, name) ? catalog : [...catalog, createCatalogEntry(name)];
+}
+
+// The target keeps its name; the source's names become aliases of it
+export function mergeCatalogEntries(catalog: CatalogEntry[], sourceId: string, targetId: string): CatalogEntry[] {
+  const source = catalog.find(entry => entry.id === sourceId);
+  if (!source || sourceId === targetId) return catalog;
+  return entryNames(source)
+    .reduce((next, name) => addCatalogAlias(next, targetId, name), catalog)
+    .filter(entry => entry.id !== sourceId);
+}
+
+// Undoes a merge for one name: the alias becomes an entry of its own
+export function splitCatalogAlias(catalog: CatalogEntry[], entryId: string, alias: string): CatalogEntry[] {
+  const key = normalizeCatalogName(alias);
+  const without = catalog.map(entry =>
+    entry.id === entryId ? { ...entry, aliases: entry.aliases.filter(known => normalizeCatalogName(known) !== key) } : entry
+  );
+  return addCatalogName(without, alias);
+}
+
+// Pairs of entries that share a head noun, each entry paired with its best match once
+export function findMergeCandidates(catalog: CatalogEntry[]): CatalogMergeCandidate[] {
+  const candidates: CatalogMergeCandidate[] = [];
+  const paired = new Set<string>();
+  catalog.forEach(source => {
+    if (paired.has(source.id)) return;
+    const target = suggestCatalogEntry(catalog, source.name, source);
+    if (!target || paired.has(target.id)) return;
+    paired.add(source.id);
+    paired.add(target.id);
+    candidates.push({ source, target });
+  });
+  return candidates;
+}
+
+export function groupItemsByCatalog(items: InventoryItem[], catalog: CatalogEntry[]): CatalogGroup[] {
+  const groups = new Map<string, CatalogGroup>();
+  items.forEach(item => {
+    const name = canonicalItemName(item.name, catalog);
+    const key = normalizeCatalogName(name) || name;
+    const group = groups.get(key) || { name, count: 0, aliases: [], items: [] };
+    group.count += item.count;
+    group.items.push(item);
+    if (normalizeCatalogName(item.name) !== normalizeCatalogName(name) && !group.aliases.includes(item.name)) {
+      group.aliases.push(item.name);
+    }
+    groups.set(key, group);
+  });
+  return Array.from(groups.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * One item per canonical name, as the audit's expected list: counts are
+ * summed and the worst-graded item's condition is kept.
+ */
+export function canonicalizeItems(items: InventoryItem[], catalog: CatalogEntry[]): InventoryItem[] {
+  return groupItemsByCatalog(items, catalog).map(group => {
+    const worst = group.items.reduce((a, b) => (conditionRank(b.condition) > conditionRank(a.condition) ? b : a));
+    return { ...worst, name: group.name, count: group.count };
+  });
+}
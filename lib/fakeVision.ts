@@ -0,0 +1,227 @@
+import type { InventoryItem, AuditChange, AuditVerification, BoundingBox, SurfaceFinding, PlacementSuggestion } from '@/lib/supabase';
+import type { VisionProvider, AnalysisOptions, AuditBaseline } from '@/lib/vision';
+import { statusForCounts } from '@/lib/validation';
+import { mergeInventoryItems, conditionRank, CONDITIONS, Condition } from '@/lib/inventory';
+import type { InventoryQuery, QueryVocabulary } from '@/lib/inventoryQuery';
+import { sleep } from '@/lib/resilience';
+
+/**
+ * Offline stand-in for the real vision model. Every answer is derived from
+ * the image URI alone, so the same photo always yields the same analysis and
+ * the scan/audit flows can be demoed without a key or network.
+ */
+
+// Small delay so loading states are still visible in demos
+const FAKE_LATENCY_MS = 600;
+
+const FIXTURES: Record<string, InventoryItem[]> = {
+  kitchen: [
+    { name: 'Dining chair', count: 4, condition: 'Good', unit_cost: 85, currency: 'USD', cost_source: 'ai', confidence: 0.92 },
+    { name: 'Dining table', count: 1, condition: 'Good', unit_cost: 320, currency: 'USD', cost_source: 'ai', confidence: 0.92 },
+    { name: 'Microwave', count: 1, condition: 'Fair', unit_cost: 120, currency: 'USD', cost_source: 'ai', confidence: 0.92 },
+    { name: 'Kettle', count: 1, condition: 'Good', unit_cost: 35, currency: 'USD', cost_source: 'ai', confidence: 0.45 },
+  ],
+  living: [
+    { name: 'Sofa', count: 1, condition: 'Fair', unit_cost: 900, currency: 'USD', cost_source: 'ai', confidence: 0.92 },
+    { name: 'Cushion', count: 3, condition: 'Good', unit_cost: 20, currency: 'USD', cost_source: 'ai', confidence: 0.5 },
+    { name: 'Coffee table', count: 1, condition: 'Good', unit_cost: 150, currency: 'USD', cost_source: 'ai', confidence: 0.92 },
+    { name: 'Television', count: 1, condition: 'Good', unit_cost: 450, currency: 'USD', cost_source: 'ai', confidence: 0.92 },
+  ],
+  bedroom: [
+    { name: 'Double bed', count: 1, condition: 'Good', unit_cost: 600, currency: 'USD', cost_source: 'ai', confidence: 0.92 },
+    { name: 'Bedside table', count: 2, condition: 'Good', unit_cost: 90, currency: 'USD', cost_source: 'ai', confidence: 0.92 },
+    { name: 'Lamp', count: 2, condition: 'Fair', unit_cost: 40, currency: 'USD', cost_source: 'ai', confidence: 0.55 },
+  ],
+  bathroom: [
+    { name: 'Bath towel', count: 2, condition: 'Good', unit_cost: 18, currency: 'USD', cost_source: 'ai', confidence: 0.92 },
+    { name: 'Hand towel', count: 2, condition: 'Fair', unit_cost: 9, currency: 'USD', cost_source: 'ai', confidence: 0.4 },
+    { name: 'Bath mat', count: 1, condition: 'Poor', unit_cost: 15, currency: 'USD', cost_source: 'ai', confidence: 0.92 },
+  ],
+};
+
+const DAMAGE_FIXTURES: Record<string, SurfaceFinding[]> = {
+  kitchen: [
+    { surface: 'Wall', location: 'Behind the hob', description: 'Grease staining on paint', severity: 'Minor', region: { x: 0.55, y: 0.2, width: 0.2, height: 0.15 } },
+  ],
+  living: [
+    { surface: 'Wall', location: 'Left of the doorway', description: 'Hole from removed wall anchor', severity: 'Moderate', region: { x: 0.1, y: 0.3, width: 0.08, height: 0.08 } },
+    { surface: 'Floor', location: 'In front of the sofa', description: 'Wine stain on carpet', severity: 'Moderate', region: { x: 0.35, y: 0.7, width: 0.25, height: 0.15 } },
+  ],
+  bedroom: [],
+  bathroom: [
+    { surface: 'Floor', location: 'Next to the bath', description: 'Cracked floor tile', severity: 'Severe', region: { x: 0.4, y: 0.75, width: 0.15, height: 0.12 } },
+  ],
+};
+
+const PLACEMENT_FIXTURES: Record<string, PlacementSuggestion> = {
+  kitchen: { room: 'Kitchen', location: 'Dining area' },
+  living: { room: 'Living Room', location: 'Facing the sofa' },
+  bedroom: { room: 'Bedroom', location: 'Beside the bed' },
+  bathroom: { room: 'Bathroom', location: 'Next to the bath' },
+};
+
+const FIXTURE_KEYS = Object.keys(FIXTURES);
+
+// djb2; stable across runs and platforms, which is all we need here
+function hashString(value: string) {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+}
+
+// A URI that mentions a fixture name (e.g. ".../kitchen-1.jpg") gets that fixture,
+// anything else is assigned one by hash.
+function fixtureKeyForImage(imageUri: string) {
+  const lower = imageUri.toLowerCase();
+  const named = FIXTURE_KEYS.find(key => lower.includes(key));
+  return named || FIXTURE_KEYS[hashString(imageUri) % FIXTURE_KEYS.length];
+}
+
+function delay(signal?: AbortSignal) {
+  return sleep(FAKE_LATENCY_MS, signal);
+}
+
+// Lays one box per instance out on a grid so the overlay UI has something to draw
+function withBoxes(items: InventoryItem[], image: number): InventoryItem[] {
+  const total = items.reduce((sum, item) => sum + item.count, 0);
+  const columns = Math.max(1, Math.ceil(Math.sqrt(total)));
+  const rows = Math.max(1, Math.ceil(total / columns));
+  let slot = 0;
+
+  return items.map(item => {
+    const boxes: BoundingBox[] = [];
+    for (let i = 0; i < item.count; i++, slot++) {
+      const column = slot % columns;
+      const row = Math.floor(slot / columns);
+      boxes.push({
+        x: (column + 0.1) / columns,
+        y: (row + 0.1) / rows,
+        width: 0.8 / columns,
+        height: 0.8 / rows,
+        ...(image > 0 ? { image } : {}),
+      });
+    }
+    return { ...item, boxes };
+  });
+}
+
+async function analyzeImage(fileUri: string, options: AnalysisOptions = {}): Promise<InventoryItem[]> {
+  await delay(options.signal);
+  return withBoxes(FIXTURES[fixtureKeyForImage(fileUri)], 0);
+}
+
+async function analyzeImages(fileUris: string[], options: AnalysisOptions = {}): Promise<InventoryItem[]> {
+  await delay(options.signal);
+  return mergeInventoryItems(fileUris.map((uri, index) => withBoxes(FIXTURES[fixtureKeyForImage(uri)], index)));
+}
+
+async function analyzeDamage(fileUris: string[], options: AnalysisOptions = {}): Promise<SurfaceFinding[]> {
+  await delay(options.signal);
+  // Overlapping angles would show the same defects, so one fixture per distinct key
+  const keys = Array.from(new Set(fileUris.map(fixtureKeyForImage)));
+  return keys.flatMap(key => DAMAGE_FIXTURES[key].map(finding => ({ ...finding })));
+}
+
+// With a baseline, one item has moved, one has worn and the audit photo's own
+// fixture may add an item, so every kind of change shows up in demos
+function fakeChanges(imageUri: string, expected: InventoryItem[], shortIndex: number): AuditChange[] {
+  const changes: AuditChange[] = [];
+  if (expected.length > 1) {
+    const moved = expected[(shortIndex + 1) % expected.length];
+    changes.push({ kind: 'moved', item: moved.name, description: `${moved.name} is on the other side of the room` });
+  }
+  const worn = expected.find((item, index) => {
+    const rank = conditionRank(item.condition);
+    return index !== shortIndex && rank >= 0 && rank < conditionRank('Poor');
+  });
+  if (worn) {
+    const current = CONDITIONS[conditionRank(worn.condition) + 1];
+    changes.push({
+      kind: 'condition_changed',
+      item: worn.name,
+      description: `${worn.name} shows new wear`,
+      previous_condition: worn.condition,
+      current_condition: current,
+    });
+  }
+  const added = FIXTURES[fixtureKeyForImage(imageUri)].find(item => !expected.some(known => known.name === item.name));
+  if (added) changes.push({ kind: 'added', item: added.name, description: `${added.name} was not in the original photo` });
+  return changes;
+}
+
+async function verifyInventory(
+  imageUri: string,
+  expectedItemsList: string,
+  baseline: AuditBaseline | null,
+  options: AnalysisOptions = {}
+): Promise<AuditVerification> {
+  await delay(options.signal);
+
+  let expected: InventoryItem[] = [];
+  try {
+    const parsed = JSON.parse(expectedItemsList);
+    if (Array.isArray(parsed)) expected = parsed;
+  } catch (e) {
+    console.warn('Fake provider could not parse expected items:', e);
+  }
+  if (expected.length === 0) return { results: [], changes: [] };
+
+  // One item per audit photo comes up short so the mismatch UI gets exercised
+  const shortIndex = hashString(imageUri) % expected.length;
+  const results = expected.map((item, index) => {
+    const expectedCount = Number(item.count) || 0;
+    const foundCount = index === shortIndex ? Math.max(0, expectedCount - 1) : expectedCount;
+    return {
+      item: item.name,
+      expected_count: expectedCount,
+      found_count: foundCount,
+      status: statusForCounts(expectedCount, foundCount),
+    };
+  });
+  return { results, changes: baseline ? fakeChanges(imageUri, expected, shortIndex) : [] };
+}
+
+async function suggestPlacement(fileUris: string[], knownRooms: string[], options: AnalysisOptions = {}): Promise<PlacementSuggestion> {
+  await delay(options.signal);
+  return { ...PLACEMENT_FIXTURES[fixtureKeyForImage(fileUris[0])] };
+}
+
+// Whole-word match that also accepts a plural ("chairs" for "chair")
+function mentions(text: string, name: string) {
+  const words = name.toLowerCase().split(/\s+/).filter(Boolean)
+    .map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  if (words.length === 0) return false;
+  return new RegExp(`\\b${words.join('\\s+')}s?\\b`).test(text);
+}
+
+// Keyword matching is enough to demo the Ask panel without a model
+async function interpretQuestion(question: string, vocabulary: QueryVocabulary, options: AnalysisOptions = {}): Promise<InventoryQuery> {
+  await delay(options.signal);
+  const text = question.toLowerCase();
+
+  const intent = /\b(which|what) rooms?\b|\bwhere\b/.test(text) ? 'rooms'
+    : /\bworth\b|\bvalue\b|\bcost\b/.test(text) ? 'value'
+    : /\bhow many\b|\bcount\b|\bnumber of\b/.test(text) ? 'count'
+    : 'list';
+  // "chairs" should find "Dining chair", so match on each name's last word too
+  const items = vocabulary.items.filter(name => mentions(text, name) || mentions(text, name.split(/\s+/).pop() || ''));
+  const rooms = vocabulary.rooms.filter(room => mentions(text, room));
+  const conditions: Condition[] = /\b(damaged|broken)\b/.test(text)
+    ? ['Poor', 'Damaged']
+    : CONDITIONS.filter(condition => mentions(text, condition));
+
+  return { intent, items, rooms, conditions };
+}
+
+export const fakeProvider: VisionProvider = {
+  name: 'fake',
+  modelId: () => 'fake-fixtures',
+  analyzeImage,
+  analyzeImages,
+  analyzeDamage,
+  verifyInventory,
+  suggestPlacement,
+  interpretQuestion,
+};
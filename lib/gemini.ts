@@ -1,84 +1,227 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import * as FileSystem from 'expo-file-system/legacy';
+import { GoogleGenerativeAI, GenerativeModel, Part } from "@google/generative-ai";
+import type { InventoryItem, AuditVerification, SurfaceFinding, PlacementSuggestion } from '@/lib/supabase';
+import type { VisionProvider, AnalysisOptions, AuditBaseline } from '@/lib/vision';
+import { AnalysisValidationError, parseModelJson, validateInventoryItems, validateAuditVerification, validateSurfaceFindings, validatePlacement, validateInventoryQuery } from '@/lib/validation';
+import { mergeInventoryItems } from '@/lib/inventory';
+import { getPromptTemplate } from '@/lib/prompts';
+import type { InventoryQuery, QueryVocabulary } from '@/lib/inventoryQuery';
+import { withRetries, throwIfCancelled } from '@/lib/resilience';
 
-const GOOGLE_API_KEY = process.env.EXPO_PUBLIC_GOOGLE_API_KEY;
+/**
+ * Gemini-backed analysis with no platform dependencies, so the same prompts
+ * and validation run in the app (reading local files) and in the analysis
+ * server (reading from the Photos bucket). Callers supply how an image
+ * reference is turned into bytes and where the API key comes from.
+ */
 
-if (!GOOGLE_API_KEY) {
-  throw new Error('Missing Google API Key environment variable');
+export interface EncodedImage {
+  data: string; // base64
+  mimeType: string;
 }
 
-const genAI = new GoogleGenerativeAI(GOOGLE_API_KEY);
-
-export async function analyzeImage(fileUri: string) {
-  try {
-    const base64String = await FileSystem.readAsStringAsync(fileUri, {
-      encoding: 'base64',
-    });
-
-    const model = genAI.getGenerativeModel({ 
-      model: "gemini-2.0-flash",
-    });
-
-    const prompt = "Analyze this inventory photo. Count the distinct items. Return ONLY a raw JSON object with a key 'items' which is an array of objects: { name: string, count: number, condition: string }.";
-
-    const imagePart = {
-      inlineData: {
-        data: base64String,
-        mimeType: "image/jpeg"
-      },
-    };
-
-    const result = await model.generateContent([prompt, imagePart]);
-    const response = await result.response;
-    let text = response.text();
-    
-    console.log('Gemini Raw Response:', text);
-
-    // Clean up potential markdown formatting if Gemini didn't return raw JSON
-    text = text.replace(/```json/g, '').replace(/```/g, '').trim();
-    
-    const data = JSON.parse(text);
-    
-    return data.items || data; // Handle if items is missing or if data is the array itself
-  } catch (error) {
-    console.error("Gemini analysis error:", error);
-    throw error;
+export interface GeminiOptions {
+  // Read lazily so the app can load without a key when another provider is configured
+  getApiKey: () => string | undefined;
+  loadImage: (ref: string) => Promise<EncodedImage>;
+}
+
+// How many times we ask the model to fix its own output before giving up
+const MAX_REPAIR_ATTEMPTS = 1;
+
+function buildRepairPrompt(originalPrompt: string, badResponse: string, issues: string[]) {
+  return `Your previous response to the request below could not be used.
+    Problems: ${issues.join('; ')}.
+    Original request: ${originalPrompt}
+    Your previous response: ${badResponse}
+    Return ONLY the corrected raw JSON object, with no markdown and no commentary.`;
+}
+
+// One model call, with a timeout per attempt and backoff on rate limits and server errors
+async function generateText(model: GenerativeModel, request: string | Array<string | Part>, signal?: AbortSignal) {
+  const result = await withRetries(
+    attemptSignal => model.generateContent(request, { signal: attemptSignal }),
+    { signal }
+  );
+  return result.response.text();
+}
+
+/**
+ * Runs a prompt and validates the JSON it returns. If the response can't be
+ * coerced into the expected shape, the model is re-prompted with the problems
+ * it made; if that still fails an AnalysisValidationError is thrown.
+ */
+async function generateValidated<T>(
+  model: GenerativeModel,
+  prompt: string,
+  parts: Part[],
+  validate: (data: unknown) => T,
+  signal?: AbortSignal
+): Promise<T> {
+  let text = await generateText(model, [prompt, ...parts], signal);
+  console.log('Gemini Raw Response:', text);
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return validate(parseModelJson(text));
+    } catch (error) {
+      if (!(error instanceof AnalysisValidationError)) throw error;
+      if (attempt >= MAX_REPAIR_ATTEMPTS) {
+        throw new AnalysisValidationError(
+          'The AI returned an analysis we could not read. Please try again.',
+          error.issues,
+          text
+        );
+      }
+
+      console.warn('Invalid Gemini response, requesting repair:', error.issues);
+      text = await generateText(model, buildRepairPrompt(prompt, text, error.issues), signal);
+      console.log('Gemini Repaired Response:', text);
+    }
   }
 }
 
-export async function verifyInventory(imageUri: string, expectedItemsList: string) {
-  try {
-    const base64String = await FileSystem.readAsStringAsync(imageUri, {
-      encoding: 'base64',
-    });
-
-    const model = genAI.getGenerativeModel({ 
-      model: "gemini-2.0-flash",
-      generationConfig: { responseMimeType: "application/json" }
-    });
-
-    const prompt = `I am providing an image and a list of expected items with their quantities. Your job is to verify if each item is present and if the quantity matches. 
-    Expected Items List: ${expectedItemsList}. 
-    Return ONLY a raw JSON object: { results: [{ item: string, expected_count: number, found_count: number, status: 'Match' | 'Mismatch' | 'Missing' }] }.`;
-
-    const imagePart = {
-      inlineData: {
-        data: base64String,
-        mimeType: "image/jpeg"
-      },
-    };
-
-    const result = await model.generateContent([prompt, imagePart]);
-    const response = await result.response;
-    let text = response.text();
-    
-    // Clean up potential markdown formatting
-    text = text.replace(/```json/g, '').replace(/```/g, '').trim();
-    
-    const data = JSON.parse(text);
-    return data.results;
-  } catch (error) {
-    console.error("Gemini verification error:", error);
-    throw error;
+export function createGeminiProvider({ getApiKey, loadImage }: GeminiOptions): VisionProvider {
+  let genAI: GoogleGenerativeAI | null = null;
+
+  function getClient() {
+    if (!genAI) {
+      const apiKey = getApiKey();
+      if (!apiKey) {
+        throw new Error('Missing Google API Key environment variable');
+      }
+      genAI = new GoogleGenerativeAI(apiKey);
+    }
+    return genAI;
   }
+
+  async function readImageParts(refs: string[], signal?: AbortSignal): Promise<Part[]> {
+    const parts = await Promise.all(refs.map(async ref => ({ inlineData: await loadImage(ref) })));
+    throwIfCancelled(signal);
+    return parts;
+  }
+
+  async function analyzeImage(imageRef: string, options: AnalysisOptions = {}): Promise<InventoryItem[]> {
+    try {
+      const template = getPromptTemplate(options.promptVersion);
+      const model = getClient().getGenerativeModel({
+        model: template.model.id,
+      });
+
+      const prompt = template.items(1);
+
+      const imageParts = await readImageParts([imageRef], options.signal);
+      return await generateValidated(model, prompt, imageParts, validateInventoryItems, options.signal);
+    } catch (error) {
+      console.error("Gemini analysis error:", error);
+      throw error;
+    }
+  }
+
+  async function analyzeImages(imageRefs: string[], options: AnalysisOptions = {}): Promise<InventoryItem[]> {
+    if (imageRefs.length === 1) return analyzeImage(imageRefs[0], options);
+
+    try {
+      const template = getPromptTemplate(options.promptVersion);
+      const model = getClient().getGenerativeModel({
+        model: template.model.id,
+      });
+
+      const prompt = template.items(imageRefs.length);
+
+      const imageParts = await readImageParts(imageRefs, options.signal);
+      const items = await generateValidated(model, prompt, imageParts, validateInventoryItems, options.signal);
+      // Guard against the model listing the same item once per photo
+      return mergeInventoryItems([items]);
+    } catch (error) {
+      console.error("Gemini multi-photo analysis error:", error);
+      throw error;
+    }
+  }
+
+  async function analyzeDamage(imageRefs: string[], options: AnalysisOptions = {}): Promise<SurfaceFinding[]> {
+    try {
+      const template = getPromptTemplate(options.promptVersion);
+      const model = getClient().getGenerativeModel({
+        model: template.model.id,
+      });
+
+      const prompt = template.damage(imageRefs.length);
+
+      const imageParts = await readImageParts(imageRefs, options.signal);
+      return await generateValidated(model, prompt, imageParts, validateSurfaceFindings, options.signal);
+    } catch (error) {
+      console.error("Gemini damage analysis error:", error);
+      throw error;
+    }
+  }
+
+  async function verifyInventory(
+    imageRef: string,
+    expectedItemsList: string,
+    baseline: AuditBaseline | null,
+    options: AnalysisOptions = {}
+  ): Promise<AuditVerification> {
+    try {
+      const template = getPromptTemplate(options.promptVersion);
+      const model = getClient().getGenerativeModel({
+        model: template.model.id,
+        generationConfig: { responseMimeType: "application/json" }
+      });
+
+      // Versions without a compare prompt, and audits without a baseline, check the list alone
+      const compare = baseline && template.compare ? template.compare : null;
+      const prompt = compare ? compare(expectedItemsList) : template.verify(expectedItemsList);
+
+      const imageParts = await readImageParts(compare && baseline ? [baseline.uri, imageRef] : [imageRef], options.signal);
+      return await generateValidated(model, prompt, imageParts, validateAuditVerification, options.signal);
+    } catch (error) {
+      console.error("Gemini verification error:", error);
+      throw error;
+    }
+  }
+
+  async function suggestPlacement(imageRefs: string[], knownRooms: string[], options: AnalysisOptions = {}): Promise<PlacementSuggestion> {
+    try {
+      const template = getPromptTemplate(options.promptVersion);
+      const model = getClient().getGenerativeModel({
+        model: template.model.id,
+        generationConfig: { responseMimeType: "application/json" }
+      });
+
+      const prompt = template.placement(imageRefs.length, knownRooms);
+
+      const imageParts = await readImageParts(imageRefs, options.signal);
+      return await generateValidated(model, prompt, imageParts, validatePlacement, options.signal);
+    } catch (error) {
+      console.error("Gemini placement error:", error);
+      throw error;
+    }
+  }
+
+  async function interpretQuestion(question: string, vocabulary: QueryVocabulary, options: AnalysisOptions = {}): Promise<InventoryQuery> {
+    try {
+      const template = getPromptTemplate(options.promptVersion);
+      const model = getClient().getGenerativeModel({
+        model: template.model.id,
+        generationConfig: { responseMimeType: "application/json" }
+      });
+
+      const prompt = template.question(question, vocabulary);
+      return await generateValidated(model, prompt, [], validateInventoryQuery, options.signal);
+    } catch (error) {
+      console.error("Gemini question error:", error);
+      throw error;
+    }
+  }
+
+  return {
+    name: 'gemini',
+    modelId: promptVersion => getPromptTemplate(promptVersion).model.id,
+    analyzeImage,
+    analyzeImages,
+    analyzeDamage,
+    verifyInventory,
+    suggestPlacement,
+    interpretQuestion,
+  };
 }
@@ -0,0 +1,60 @@
+import * as FileSystem from 'expo-file-system/legacy';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { DEFAULT_IMAGE_MIME_TYPE, IMAGE_SIGNATURE_BYTES, detectBase64ImageMimeType } from '@/lib/imageType';
+
+/**
+ * Every photo the app takes goes through preparePhoto before it is shown,
+ * uploaded or analysed, so storage and the model always get the same
+ * upright, downscaled JPEG instead of the camera's full-resolution file.
+ */
+
+// Longest edge in pixels; the model gains nothing from more and uploads on site are slow
+const MAX_DIMENSION = Number(process.env.EXPO_PUBLIC_IMAGE_MAX_DIMENSION) || 1600;
+// JPEG quality, 0-1
+const QUALITY = Number(process.env.EXPO_PUBLIC_IMAGE_QUALITY) || 0.7;
+
+export interface PreparedPhoto {
+  uri: string;
+  mimeType: string;
+}
+
+/**
+ * Decoding through the manipulator applies the EXIF orientation and
+ * re-encoding drops the tag, so the saved pixels are upright on every
+ * platform. If the image can't be processed (e.g. an unsupported format) the
+ * original file is used as-is.
+ */
+export async function preparePhoto(uri: string): Promise<PreparedPhoto> {
+  try {
+    const original = await ImageManipulator.manipulate(uri).renderAsync();
+    const longestEdge = Math.max(original.width, original.height);
+
+    let image = original;
+    if (longestEdge > MAX_DIMENSION) {
+      const context = ImageManipulator.manipulate(original);
+      context.resize(original.width >= original.height ? { width: MAX_DIMENSION } : { height: MAX_DIMENSION });
+      image = await context.renderAsync();
+    }
+
+    const saved = await image.saveAsync({ compress: QUALITY, format: SaveFormat.JPEG });
+    return { uri: saved.uri, mimeType: 'image/jpeg' };
+  } catch (error) {
+    console.warn('Image preprocessing failed, using the original photo:', error);
+    return { uri, mimeType: await detectFileMimeType(uri) };
+  }
+}
+
+// Reads just the file's signature; falls back to JPEG if it isn't one we recognise
+export async function detectFileMimeType(uri: string): Promise<string> {
+  try {
+    const header = await FileSystem.readAsStringAsync(uri, {
+      encoding: 'base64',
+      position: 0,
+      length: IMAGE_SIGNATURE_BYTES,
+    });
+    return detectBase64ImageMimeType(header) || DEFAULT_IMAGE_MIME_TYPE;
+  } catch (error) {
+    console.warn('Could not read image header:', error);
+    return DEFAULT_IMAGE_MIME_TYPE;
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Works out an image's real type from its first bytes rather than trusting a
+ * file extension. No platform dependencies, so the analysis server uses it on
+ * photos read from storage too.
+ */
+
+export const DEFAULT_IMAGE_MIME_TYPE = 'image/jpeg';
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// Enough to cover every signature below
+export const IMAGE_SIGNATURE_BYTES = 16;
+
+const HEIF_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'mif1', 'msf1'];
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/heic': 'heic',
+  'image/gif': 'gif',
+};
+
+function decodeBase64Prefix(base64: string, byteCount: number) {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (let i = 0; i < base64.length && bytes.length < byteCount; i++) {
+    const value = BASE64_ALPHABET.indexOf(base64[i]);
+    if (value === -1) break; // padding or end of data
+    buffer = (buffer << 6) | value;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+  return bytes;
+}
+
+// Whole-file decode, for callers that need pixels rather than just the signature
+export function decodeBase64(base64: string): Uint8Array {
+  return Uint8Array.from(decodeBase64Prefix(base64, Infinity));
+}
+
+function ascii(bytes: number[], start: number, length: number) {
+  return String.fromCharCode(...bytes.slice(start, start + length));
+}
+
+export function detectImageMimeType(bytes: number[]): string | null {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+  if (bytes[0] === 0x89 && ascii(bytes, 1, 3) === 'PNG') return 'image/png';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') return 'image/webp';
+  if (ascii(bytes, 4, 4) === 'ftyp' && HEIF_BRANDS.includes(ascii(bytes, 8, 4))) return 'image/heic';
+  if (ascii(bytes, 0, 4) === 'GIF8') return 'image/gif';
+  return null;
+}
+
+// Takes the whole file or just its start, as long as it covers IMAGE_SIGNATURE_BYTES
+export function detectBase64ImageMimeType(base64: string): string | null {
+  return detectImageMimeType(decodeBase64Prefix(base64, IMAGE_SIGNATURE_BYTES));
+}
+
+export function extensionForMimeType(mimeType: string) {
+  return EXTENSIONS[mimeType] || 'jpg';
+}
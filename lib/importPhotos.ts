@@ -0,0 +1,109 @@
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system/legacy';
+import * as ImagePicker from 'expo-image-picker';
+import { Platform } from 'react-native';
+import { preparePhoto } from '@/lib/imagePipeline';
+import { CAPTURE_TIME_HEADER_BYTES, parseExifDateTime, readExifCaptureTime } from '@/lib/captureTime';
+
+/**
+ * Photos brought in from the gallery, the Files app, or dropped onto the web
+ * build, as an alternative to the live camera. Each comes out prepared like
+ * a camera shot, with the time it was originally taken when that can be
+ * found.
+ */
+
+export interface ImportedPhoto {
+  uri: string;
+  // ISO time the photo was taken, or null if the file doesn't say
+  capturedAt: string | null;
+}
+
+function decodeBase64(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+async function readHeader(uri: string): Promise<Uint8Array> {
+  if (Platform.OS === 'web') {
+    const blob = await (await fetch(uri)).blob();
+    return new Uint8Array(await blob.slice(0, CAPTURE_TIME_HEADER_BYTES).arrayBuffer());
+  }
+  const base64 = await FileSystem.readAsStringAsync(uri, {
+    encoding: 'base64',
+    position: 0,
+    length: CAPTURE_TIME_HEADER_BYTES,
+  });
+  return decodeBase64(base64);
+}
+
+async function readCaptureTime(uri: string): Promise<string | null> {
+  try {
+    return readExifCaptureTime(await readHeader(uri));
+  } catch (error) {
+    console.warn('Could not read the capture time of an imported photo:', error);
+    return null;
+  }
+}
+
+// A file's modification time is the best guess left, but 0 means the platform didn't report one
+function fromLastModified(lastModified?: number) {
+  return lastModified && lastModified > 0 ? new Date(lastModified).toISOString() : null;
+}
+
+// The capture time has to be read before preparePhoto re-encodes the file without EXIF
+async function importPhoto(uri: string, knownCapturedAt: string | null, lastModified?: number): Promise<ImportedPhoto> {
+  const capturedAt = knownCapturedAt || await readCaptureTime(uri) || fromLastModified(lastModified);
+  const photo = await preparePhoto(uri);
+  return { uri: photo.uri, capturedAt };
+}
+
+export async function pickPhotosFromLibrary(): Promise<ImportedPhoto[]> {
+  const result = await ImagePicker.launchImageLibraryAsync({
+    mediaTypes: ['images'],
+    allowsMultipleSelection: true,
+    exif: true,
+    quality: 1,
+  });
+  if (result.canceled) return [];
+
+  const photos: ImportedPhoto[] = [];
+  for (const asset of result.assets) {
+    const exif = asset.exif || {};
+    const fromPicker = typeof exif.DateTimeOriginal === 'string' ? parseExifDateTime(exif.DateTimeOriginal, exif.OffsetTimeOriginal) : null;
+    photos.push(await importPhoto(asset.uri, fromPicker, asset.file?.lastModified));
+  }
+  return photos;
+}
+
+export async function pickPhotoFiles(): Promise<ImportedPhoto[]> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: 'image/*',
+    multiple: true,
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled) return [];
+
+  const photos: ImportedPhoto[] = [];
+  for (const asset of result.assets) {
+    photos.push(await importPhoto(asset.uri, null, asset.lastModified));
+  }
+  return photos;
+}
+
+// Web only: files dropped onto the scan screen
+export async function importDroppedFiles(files: File[]): Promise<ImportedPhoto[]> {
+  const photos: ImportedPhoto[] = [];
+  for (const file of files.filter(candidate => candidate.type.startsWith('image/'))) {
+    const objectUrl = URL.createObjectURL(file);
+    const photo = await importPhoto(objectUrl, null, file.lastModified).catch(error => {
+      URL.revokeObjectURL(objectUrl);
+      throw error;
+    });
+    // Only needed while preparing, unless preparing failed and the file itself is the photo
+    if (photo.uri !== objectUrl) URL.revokeObjectURL(objectUrl);
+    photos.push(photo);
+  }
+  return photos;
+}
@@ -0,0 +1,140 @@
+import type { InventoryItem } from '@/lib/supabase';
+
+// Fixed grading scale, best to worst, so conditions can be filtered and compared across audits
+export const CONDITIONS = ['New', 'Good', 'Fair', 'Poor', 'Damaged', 'Missing'] as const;
+
+export type Condition = typeof CONDITIONS[number];
+
+export const SEVERITIES = ['Minor', 'Moderate', 'Severe'] as const;
+
+export type Severity = typeof SEVERITIES[number];
+
+// Free-text phrases older scans (and chatty model output) use for each grade
+const CONDITION_KEYWORDS: [Condition, RegExp][] = [
+  ['Missing', /\b(missing|absent|not present|not found)\b/g],
+  ['Damaged', /\b(damage|broken|crack|torn|ripped|chipped|smashed|shattered|dent)/g],
+  ['Poor', /\b(poor|bad|stain|scratch|faded|worn out|heavily)/g],
+  ['Fair', /\b(fair|average|used|worn|moderate|ok(ay)?|acceptable)\b/g],
+  ['New', /\b(new|mint|excellent|pristine|unused)\b/g],
+  ['Good', /\b(good|fine|clean|working|great)\b/g],
+];
+
+// A grade named up front ("Good, no damage") is the grade; the rest is detail
+const LEADING_GRADE = new RegExp(`^(${CONDITIONS.join('|')})\\b`, 'i');
+
+// "no damage", "not damaged", "without visible dents" describe the absence of the keyword
+const NEGATION = /\b(no|not|without)\s+(\w+\s+)?$/;
+
+function mentions(text: string, pattern: RegExp) {
+  return Array.from(text.matchAll(pattern)).some(match => !NEGATION.test(text.slice(0, match.index)));
+}
+
+// Used when nothing in the text maps onto the scale; matches the manual "Add Item" default
+export const DEFAULT_CONDITION: Condition = 'Good';
+
+// Items the model is less sure of than this (0-1) are flagged for a person to check
+export const REVIEW_CONFIDENCE_THRESHOLD = Number(process.env.EXPO_PUBLIC_REVIEW_CONFIDENCE_THRESHOLD) || 0.6;
+
+export function isLowConfidence(item: InventoryItem) {
+  return item.confidence !== undefined && item.confidence < REVIEW_CONFIDENCE_THRESHOLD;
+}
+
+// Low confidence and nobody has confirmed or corrected it yet
+export function needsReview(item: InventoryItem) {
+  return isLowConfidence(item) && !item.reviewed;
+}
+
+export function countItemsNeedingReview(items: InventoryItem[]) {
+  return items.filter(needsReview).length;
+}
+
+/**
+ * Maps a free-form condition string onto the fixed scale. Text that is more
+ * than just the grade (e.g. "Good, small scratch on leg") is returned as
+ * notes so the detail isn't lost.
+ */
+export function normalizeCondition(raw: unknown): { condition: Condition; notes?: string } {
+  if (typeof raw !== 'string' || !raw.trim()) return { condition: DEFAULT_CONDITION };
+
+  const text = raw.trim();
+  const exact = CONDITIONS.find(c => c.toLowerCase() === text.toLowerCase());
+  if (exact) return { condition: exact };
+
+  const leading = text.match(LEADING_GRADE);
+  if (leading) {
+    return { condition: CONDITIONS.find(c => c.toLowerCase() === leading[1].toLowerCase())!, notes: text };
+  }
+
+  const lower = text.toLowerCase();
+  const match = CONDITION_KEYWORDS.find(([, pattern]) => mentions(lower, pattern));
+  return { condition: match ? match[0] : DEFAULT_CONDITION, notes: text };
+}
+
+// Brings items saved before the condition scale existed onto it
+export function normalizeInventoryItem(item: any): InventoryItem {
+  const { condition, notes } = normalizeCondition(item?.condition);
+  const damageNotes = typeof item?.damage_notes === 'string' && item.damage_notes.trim()
+    ? item.damage_notes.trim()
+    : notes;
+  const normalized: InventoryItem = { ...item, condition };
+  if (damageNotes) normalized.damage_notes = damageNotes;
+  else delete normalized.damage_notes;
+  return normalized;
+}
+
+export function conditionRank(condition: Condition) {
+  return CONDITIONS.indexOf(condition);
+}
+
+// Number of individual pieces in each grade, e.g. 4 chairs in Good counts as 4
+export function summarizeConditions(items: InventoryItem[]): Record<Condition, number> {
+  const summary = Object.fromEntries(CONDITIONS.map(c => [c, 0])) as Record<Condition, number>;
+  items.forEach(item => {
+    summary[item.condition] += item.count || 0;
+  });
+  return summary;
+}
+
+function itemKey(name: string) {
+  return name.trim().toLowerCase();
+}
+
+/**
+ * Collapses per-photo item lists taken of the same location into one list.
+ * Overlapping angles usually show the same objects again, so an item seen in
+ * several photos counts as the highest count seen in any one of them rather
+ * than the sum.
+ */
+export function mergeInventoryItems(lists: InventoryItem[][]): InventoryItem[] {
+  const merged = new Map<string, InventoryItem>();
+
+  lists.forEach(list => {
+    list.forEach(item => {
+      const key = itemKey(item.name);
+      const existing = merged.get(key);
+      if (!existing) {
+        merged.set(key, { ...item });
+      } else {
+        let next = existing;
+        if (item.count > existing.count) {
+          // Keep the boxes from the photo the winning count came from
+          next = { ...next, count: item.count, boxes: item.boxes };
+        }
+        // Damage visible from any angle counts, so keep the worst grade seen
+        if (conditionRank(item.condition) > conditionRank(next.condition)) {
+          next = { ...next, condition: item.condition, damage_notes: item.damage_notes || next.damage_notes };
+        }
+        if (next.unit_cost === undefined && item.unit_cost !== undefined) {
+          next = { ...next, unit_cost: item.unit_cost, currency: item.currency, cost_source: item.cost_source };
+        }
+        // Seeing the item clearly from one angle is enough
+        if (item.confidence !== undefined && (next.confidence === undefined || item.confidence > next.confidence)) {
+          next = { ...next, confidence: item.confidence };
+        }
+        merged.set(key, next);
+      }
+    });
+  });
+
+  return Array.from(merged.values());
+}
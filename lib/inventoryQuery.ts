@@ -0,0 +1,126 @@
+import type { InventoryItem, PriceListEntry } from '@/lib/supabase';
+import type { Condition } from '@/lib/inventory';
+import type { ScanRecord } from '@/lib/scans';
+import { formatTotals, valueItems } from '@/lib/valuation';
+import { isSameRoom } from '@/lib/rooms';
+import { normalizeCatalogName } from '@/lib/catalog';
+
+/**
+ * Answers questions about a property's inventory. The model only turns the
+ * question into an InventoryQuery; the counting, filtering and valuation
+ * happen here over the saved scans, so answers are exact and every number
+ * can be traced back to the scans it came from.
+ */
+
+// 'count' totals quantities, 'list' names the matching items, 'rooms' names
+// the rooms they are in, 'value' sums their replacement cost
+export type QueryIntent = 'count' | 'list' | 'rooms' | 'value';
+
+export const QUERY_INTENTS: QueryIntent[] = ['count', 'list', 'rooms', 'value'];
+
+export interface InventoryQuery {
+  intent: QueryIntent;
+  // Each filter matches everything when empty
+  items: string[];
+  rooms: string[];
+  conditions: Condition[];
+}
+
+// Names the model may map the question's wording onto
+export interface QueryVocabulary {
+  items: string[];
+  rooms: string[];
+}
+
+// The fields of a scan a query reads
+export type QueryableScan = Pick<ScanRecord, 'id' | 'room_name' | 'location' | 'items'>;
+
+export interface QueryCitation {
+  scanId: string;
+  roomName: string;
+  location?: string;
+  items: InventoryItem[];
+}
+
+export interface QueryAnswer {
+  text: string;
+  // Every scan that contributed to the answer, in list order
+  citations: QueryCitation[];
+}
+
+// "bath towels" matches "Bath towel", "chair" matches "Dining chair", but
+// only whole words count: "cup" doesn't match "Cupboard"
+function matchesItemName(itemName: string, names: string[]) {
+  if (names.length === 0) return true;
+  const item = ` ${normalizeCatalogName(itemName)} `;
+  return names.some(name => {
+    const wanted = normalizeCatalogName(name);
+    return wanted !== '' && item.includes(` ${wanted} `);
+  });
+}
+
+function matchesItem(item: InventoryItem, query: InventoryQuery) {
+  return matchesItemName(item.name, query.items) &&
+    (query.conditions.length === 0 || query.conditions.includes(item.condition));
+}
+
+export function buildQueryVocabulary(scans: QueryableScan[]): QueryVocabulary {
+  const items = new Set<string>();
+  const rooms = new Set<string>();
+  scans.forEach(scan => {
+    if (scan.room_name) rooms.add(scan.room_name.trim());
+    scan.items.forEach(item => items.add(item.name));
+  });
+  return { items: Array.from(items).sort(), rooms: Array.from(rooms).sort() };
+}
+
+function describeFilter(query: InventoryQuery) {
+  const what = query.items.length > 0 ? query.items.join(' or ') : 'items';
+  const condition = query.conditions.length > 0 ? ` in ${query.conditions.join('/')} condition` : '';
+  const where = query.rooms.length > 0 ? ` in ${query.rooms.join(' or ')}` : '';
+  return `${what}${condition}${where}`;
+}
+
+function summarizeNames(items: InventoryItem[]) {
+  const counts = new Map<string, number>();
+  items.forEach(item => counts.set(item.name, (counts.get(item.name) || 0) + item.count));
+  return Array.from(counts.entries()).map(([name, count]) => `${name} ×${count}`).join(', ');
+}
+
+export function runInventoryQuery(query: InventoryQuery, scans: QueryableScan[], priceList: PriceListEntry[] = []): QueryAnswer {
+  const citations: QueryCitation[] = [];
+  scans.forEach(scan => {
+    if (query.rooms.length > 0 && !query.rooms.some(room => isSameRoom(room, scan.room_name || ''))) return;
+    const items = scan.items.filter(item => matchesItem(item, query));
+    if (items.length === 0) return;
+    citations.push({
+      scanId: scan.id,
+      roomName: scan.room_name,
+      location: scan.location || undefined,
+      items,
+    });
+  });
+
+  const filter = describeFilter(query);
+  if (citations.length === 0) {
+    return { text: `No ${filter} found.`, citations };
+  }
+
+  const matched = citations.flatMap(citation => citation.items);
+  const scanCount = `${citations.length} scan${citations.length === 1 ? '' : 's'}`;
+  switch (query.intent) {
+    case 'count': {
+      const total = matched.reduce((sum, item) => sum + item.count, 0);
+      return { text: `${total} × ${filter}, across ${scanCount}.`, citations };
+    }
+    case 'rooms': {
+      const rooms = Array.from(new Set(citations.map(citation => citation.roomName)));
+      const subject = filter.charAt(0).toUpperCase() + filter.slice(1);
+      return { text: `${subject} are in ${rooms.length === 1 ? '1 room' : `${rooms.length} rooms`}: ${rooms.join(', ')}.`, citations };
+    }
+    case 'value':
+      return { text: `Estimated replacement value of ${filter}: ${formatTotals(valueItems(matched, priceList))}.`, citations };
+    case 'list':
+      return { text: `${summarizeNames(matched)}.`, citations };
+  }
+}
@@ -0,0 +1,92 @@
+import type { AnalysisProvenance, BoundingBox, InventoryItem, SurfaceFinding } from '@/lib/supabase';
+import { Condition, DEFAULT_CONDITION, countItemsNeedingReview } from '@/lib/inventory';
+import { DEFAULT_CURRENCY } from '@/lib/valuation';
+import { ScanEditResult, saveScanEdit } from '@/lib/offlineQueue';
+import { ScanChanges } from '@/lib/scans';
+
+/**
+ * Edits to a scan's item list, shared by the results overlay on the scan
+ * camera and the scan's edit screen so both treat a correction the same way.
+ * Every function returns a new list and leaves the one passed in untouched.
+ * Changing what was counted (name, count, boxes) marks the row as reviewed;
+ * grading it (condition, notes, cost) doesn't.
+ */
+
+function replaceItem(items: InventoryItem[], index: number, updates: Partial<InventoryItem>) {
+  return items.map((item, i) => (i === index ? { ...item, ...updates } : item));
+}
+
+export function renameItem(items: InventoryItem[], index: number, name: string) {
+  return replaceItem(items, index, { name, reviewed: true });
+}
+
+export function changeItemCount(items: InventoryItem[], index: number, change: number) {
+  return replaceItem(items, index, { count: Math.max(0, items[index].count + change), reviewed: true });
+}
+
+export function setItemCondition(items: InventoryItem[], index: number, condition: Condition) {
+  return replaceItem(items, index, { condition });
+}
+
+export function setItemNotes(items: InventoryItem[], index: number, damageNotes: string) {
+  return replaceItem(items, index, { damage_notes: damageNotes });
+}
+
+// A typed cost is the user's call, so it takes precedence over the price list from now on
+export function setItemCost(items: InventoryItem[], index: number, unitCost: number | undefined) {
+  return replaceItem(items, index, {
+    unit_cost: unitCost,
+    currency: items[index].currency || DEFAULT_CURRENCY,
+    cost_source: unitCost === undefined ? undefined : 'manual',
+  });
+}
+
+export function confirmItem(items: InventoryItem[], index: number) {
+  return replaceItem(items, index, { reviewed: true });
+}
+
+// For something the model missed
+export function addItem(items: InventoryItem[]): InventoryItem[] {
+  return [...items, { name: '', count: 1, condition: DEFAULT_CONDITION }];
+}
+
+// For a false detection
+export function removeItem(items: InventoryItem[], index: number) {
+  return items.filter((_, i) => i !== index);
+}
+
+// Boxes are one per counted instance, so adding or removing one moves the count with it
+export function addItemBox(items: InventoryItem[], index: number, box: BoundingBox) {
+  const item = items[index];
+  return replaceItem(items, index, { boxes: [...(item.boxes || []), box], count: item.count + 1, reviewed: true });
+}
+
+export function removeItemBox(items: InventoryItem[], index: number, boxIndex: number) {
+  const item = items[index];
+  const boxes = (item.boxes || []).filter((_, i) => i !== boxIndex);
+  return replaceItem(items, index, { boxes, count: Math.max(0, item.count - 1), reviewed: true });
+}
+
+export interface ScanResults {
+  items: InventoryItem[];
+  location: string;
+  findings: SurfaceFinding[];
+  provenance?: AnalysisProvenance;
+  // Left out to keep the room the scan already has
+  roomName?: string;
+}
+
+export function scanChangesFor({ items, location, findings, provenance, roomName }: ScanResults): ScanChanges {
+  return {
+    ...(roomName !== undefined ? { room_name: roomName.trim() } : {}),
+    location: location.trim(),
+    items,
+    ai_analysis: { findings, provenance },
+    needs_review: countItemsNeedingReview(items) > 0,
+  };
+}
+
+// The one way edited results reach the database, queued like any other edit while offline
+export function saveScanResults(propertyId: string, scanId: string, results: ScanResults): Promise<ScanEditResult> {
+  return saveScanEdit(propertyId, scanId, scanChangesFor(results));
+}
@@ -0,0 +1,138 @@
+import { MAX_IMAGES_PER_REQUEST } from '@/server/handler';
+
+/**
+ * Picks the frames of a walkthrough video worth analysing: sharp enough to
+ * read, and different enough from each other that the model isn't shown the
+ * same view twice. Works on small grayscale frames and has no platform
+ * dependencies; lib/videoPipeline.ts does the decoding on the device.
+ */
+
+// The analysis service accepts at most this many photos per scan
+export const MAX_KEYFRAMES = MAX_IMAGES_PER_REQUEST;
+
+// Bits (of 64) two difference hashes must differ by to count as different views
+const MIN_HASH_DISTANCE = 12;
+
+// A view whose best frame is this much softer than the video's median frame is motion blur
+const BLUR_RATIO = 0.5;
+
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+export interface FrameSample {
+  uri: string;
+  timeMs: number;
+  // Variance of the Laplacian; higher is sharper
+  sharpness: number;
+  // 64-bit difference hash, one entry per bit
+  hash: boolean[];
+}
+
+export interface GrayImage {
+  width: number;
+  height: number;
+  // One 0-255 luminance value per pixel, row by row
+  data: Float32Array;
+}
+
+export function toGrayscale(rgba: ArrayLike<number>, width: number, height: number): GrayImage {
+  const data = new Float32Array(width * height);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = 0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+  }
+  return { width, height, data };
+}
+
+// Blurry frames have few strong edges, so their Laplacian varies little
+export function measureSharpness({ width, height, data }: GrayImage): number {
+  let sum = 0;
+  let sumOfSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian = data[i - width] + data[i + width] + data[i - 1] + data[i + 1] - 4 * data[i];
+      sum += laplacian;
+      sumOfSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumOfSquares / count - mean * mean;
+}
+
+// Average of the source pixels a cell of a smaller grid covers
+function cellAverage({ width, height, data }: GrayImage, column: number, row: number, columns: number, rows: number) {
+  const x0 = Math.floor((column * width) / columns);
+  const x1 = Math.max(x0 + 1, Math.floor(((column + 1) * width) / columns));
+  const y0 = Math.floor((row * height) / rows);
+  const y1 = Math.max(y0 + 1, Math.floor(((row + 1) * height) / rows));
+  let sum = 0;
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) sum += data[y * width + x];
+  }
+  return sum / ((x1 - x0) * (y1 - y0));
+}
+
+// dHash: whether each cell of a 9x8 thumbnail is brighter than its right-hand neighbour
+export function differenceHash(image: GrayImage): boolean[] {
+  const hash: boolean[] = [];
+  for (let row = 0; row < HASH_HEIGHT; row++) {
+    let previous = cellAverage(image, 0, row, HASH_WIDTH, HASH_HEIGHT);
+    for (let column = 1; column < HASH_WIDTH; column++) {
+      const current = cellAverage(image, column, row, HASH_WIDTH, HASH_HEIGHT);
+      hash.push(previous > current);
+      previous = current;
+    }
+  }
+  return hash;
+}
+
+export function hammingDistance(a: boolean[], b: boolean[]) {
+  let distance = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) distance++;
+  }
+  return distance + Math.abs(a.length - b.length);
+}
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Splits the video into views (runs of frames that look alike), keeps the
+ * sharpest frame of each, drops views that were only ever motion blur or
+ * that repeat an earlier view, and thins the rest evenly over time if there
+ * are more than maxFrames. Returned in time order.
+ */
+export function selectKeyframes(samples: FrameSample[], maxFrames: number = MAX_KEYFRAMES): FrameSample[] {
+  if (samples.length === 0 || maxFrames < 1) return [];
+  const ordered = [...samples].sort((a, b) => a.timeMs - b.timeMs);
+
+  const views: FrameSample[][] = [];
+  ordered.forEach(sample => {
+    const current = views[views.length - 1];
+    if (current && hammingDistance(current[0].hash, sample.hash) < MIN_HASH_DISTANCE) current.push(sample);
+    else views.push([sample]);
+  });
+
+  const minSharpness = median(ordered.map(sample => sample.sharpness)) * BLUR_RATIO;
+  const best = views
+    .map(view => view.reduce((sharpest, sample) => (sample.sharpness > sharpest.sharpness ? sample : sharpest)))
+    .filter(frame => frame.sharpness >= minSharpness);
+
+  // Panning back to a wall already covered starts a new view but adds nothing
+  const distinct: FrameSample[] = [];
+  best.forEach(frame => {
+    if (distinct.every(kept => hammingDistance(kept.hash, frame.hash) >= MIN_HASH_DISTANCE)) distinct.push(frame);
+  });
+
+  if (distinct.length <= maxFrames) return distinct;
+  if (maxFrames === 1) return [distinct.reduce((a, b) => (b.sharpness > a.sharpness ? b : a))];
+  const step = (distinct.length - 1) / (maxFrames - 1);
+  return Array.from({ length: maxFrames }, (_, i) => distinct[Math.round(i * step)]);
+}
@@ -0,0 +1,445 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system/legacy';
+import * as Network from 'expo-network';
+import { AppState, Platform } from 'react-native';
+import { supabase, uploadPhoto, InventoryItem } from '@/lib/supabase';
+import { ScanChanges, insertScan, updateScanResults } from '@/lib/scans';
+import { isNetworkFailure, isTransientError } from '@/lib/resilience';
+import { ScanAnalysis, ScanMode, analyzeScanPhotos, describeAnalysisFailure } from '@/lib/scanAnalysis';
+
+/**
+ * Scans and scan edits that couldn't reach Supabase or the model, kept on the
+ * device until they can. The queue lives in AsyncStorage and its photos in
+ * the document directory, so both survive the app being closed. Syncing runs
+ * whenever the network comes back, the app returns to the foreground, or on
+ * a timer while anything is waiting.
+ *
+ * Every step can be retried safely: photos upload to fixed paths derived
+ * from the queue id, each step's result is stored before the next starts,
+ * and scans are inserted with the queue id as their client_id (unique, see
+ * SUPABASE_MIGRATION_V8.md), so a retry after a lost response finds the row
+ * instead of inserting it twice.
+ */
+
+export type QueueStatus = 'pending' | 'syncing' | 'failed';
+
+// What a syncing scan is doing right now, for the status line
+export type QueueStage = 'upload' | 'analyze' | 'save';
+
+interface QueueEntryBase {
+  // Also the scan's client_id once inserted
+  id: string;
+  property_id: string;
+  created_at: string;
+  status: QueueStatus;
+  stage?: QueueStage;
+  attempts: number;
+  // Set after a failed attempt; a failed entry only syncs again when retried by hand
+  last_error?: string | null;
+  // Backoff: not attempted again before this time (ms since epoch)
+  next_attempt_at?: number;
+}
+
+export interface QueuedScan extends QueueEntryBase {
+  kind: 'scan';
+  room_name: string;
+  location: string;
+  mode: ScanMode;
+  // Copies in the document directory; the camera's cache files can be purged
+  photos: string[];
+  // Filled in photo by photo, so a retry only uploads what's left
+  storage_paths: string[];
+  // Kept once the model has answered, so a retry after a failed insert doesn't analyse again
+  analysis?: ScanAnalysis;
+  failure_reason?: string | null;
+  // When an imported photo was originally taken
+  captured_at?: string | null;
+}
+
+export interface QueuedEdit extends QueueEntryBase {
+  kind: 'edit';
+  scan_id: string;
+  changes: ScanChanges;
+}
+
+export type QueueEntry = QueuedScan | QueuedEdit;
+
+// 'rejected' means the update reached the database but changed no rows (RLS or a deleted scan)
+export type ScanEditResult = 'saved' | 'queued' | 'rejected';
+
+const QUEUE_KEY = 'offlineQueue.entries';
+const QUEUE_DIRECTORY = `${FileSystem.documentDirectory}offline-queue/`;
+
+// Polling while something is waiting, in case no network event arrives
+const SYNC_INTERVAL_MS = 60 * 1000;
+const BASE_BACKOFF_MS = 15 * 1000;
+const MAX_BACKOFF_MS = 10 * 60 * 1000;
+
+type QueueListener = (entries: QueueEntry[]) => void;
+
+const listeners = new Set<QueueListener>();
+let cache: QueueEntry[] | null = null;
+// Serialises read-modify-write so concurrent updates never drop each other's changes
+let writeChain: Promise<unknown> = Promise.resolve();
+let syncInProgress: Promise<void> | null = null;
+
+function createQueueId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// Edits queued before items had their own table carried the items and location inside ai_analysis
+type LegacyEditAnalysis = NonNullable<ScanChanges['ai_analysis']> & { items?: InventoryItem[]; location?: string };
+
+function upgradeEntry(entry: QueueEntry): QueueEntry {
+  if (entry.kind !== 'edit' || !entry.changes.ai_analysis) return entry;
+  const { items, location, ...rest }: LegacyEditAnalysis = entry.changes.ai_analysis;
+  if (!Array.isArray(items)) return entry;
+  return { ...entry, changes: { ...entry.changes, items, location: location || '', ai_analysis: rest } };
+}
+
+async function readQueue(): Promise<QueueEntry[]> {
+  if (cache) return cache;
+  try {
+    const stored = await AsyncStorage.getItem(QUEUE_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    // An app killed mid-sync leaves entries marked syncing; they were never finished
+    cache = (Array.isArray(parsed) ? parsed : []).map((entry: QueueEntry) =>
+      upgradeEntry(entry.status === 'syncing' ? { ...entry, status: 'pending' as const, stage: undefined } : entry)
+    );
+  } catch (error) {
+    console.warn('Could not read the offline queue:', error);
+    cache = [];
+  }
+  return cache!;
+}
+
+function updateQueue(update: (entries: QueueEntry[]) => QueueEntry[]): Promise<QueueEntry[]> {
+  const next = writeChain.then(async () => {
+    const entries = update(await readQueue());
+    cache = entries;
+    await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(entries));
+    listeners.forEach(listener => listener(entries));
+    return entries;
+  });
+  writeChain = next.catch(() => {});
+  return next;
+}
+
+function patchEntry(id: string, patch: Partial<QueuedScan> | Partial<QueuedEdit>) {
+  return updateQueue(entries => entries.map(entry => (entry.id === id ? ({ ...entry, ...patch } as QueueEntry) : entry)));
+}
+
+function removeEntry(id: string) {
+  return updateQueue(entries => entries.filter(entry => entry.id !== id));
+}
+
+export async function listQueue(propertyId?: string): Promise<QueueEntry[]> {
+  const entries = await readQueue();
+  return propertyId ? entries.filter(entry => entry.property_id === propertyId) : entries;
+}
+
+// Called with the whole queue after every change; returns an unsubscribe function
+export function subscribeToQueue(listener: QueueListener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Network failures and service outages are worth waiting out; anything else needs a person
+export function isOfflineError(error: unknown): boolean {
+  if (isTransientError(error)) return true;
+  // supabase-js reports a dropped connection as an error object rather than throwing
+  if ((error as { name?: unknown })?.name === 'StorageUnknownError') return true;
+  return isNetworkFailure(error);
+}
+
+export async function isOnline() {
+  try {
+    const state = await Network.getNetworkStateAsync();
+    // Reachability is unknown (undefined) on some platforms; only trust a definite no
+    return state.isConnected !== false && state.isInternetReachable !== false;
+  } catch (error) {
+    return true;
+  }
+}
+
+export interface ScanToQueue {
+  propertyId: string;
+  roomName: string;
+  location: string;
+  mode: ScanMode;
+  photos: string[];
+  // Progress made before the connection dropped, so it isn't repeated
+  storagePaths?: string[];
+  analysis?: ScanAnalysis;
+  capturedAt?: string | null;
+}
+
+/**
+ * Queues a captured location for upload, analysis and saving. The photos are
+ * copied into the queue's own directory first, so the originals can be
+ * discarded as soon as this resolves.
+ */
+export async function enqueueScan(scan: ScanToQueue) {
+  // The queue copies photos with expo-file-system, which has no web implementation
+  if (Platform.OS === 'web') {
+    throw new Error("There's no connection, and the web version can't keep scans until there is one. Try again once you're back online.");
+  }
+  const id = createQueueId();
+  await FileSystem.makeDirectoryAsync(QUEUE_DIRECTORY, { intermediates: true }).catch(() => {});
+  const photos: string[] = [];
+  for (let i = 0; i < scan.photos.length; i++) {
+    const extension = scan.photos[i].split('.').pop()?.split('?')[0] || 'jpg';
+    const uri = `${QUEUE_DIRECTORY}${id}-${i}.${extension}`;
+    await FileSystem.copyAsync({ from: scan.photos[i], to: uri });
+    photos.push(uri);
+  }
+
+  const entry: QueuedScan = {
+    kind: 'scan',
+    id,
+    property_id: scan.propertyId,
+    created_at: new Date().toISOString(),
+    status: 'pending',
+    attempts: 0,
+    room_name: scan.roomName,
+    location: scan.location,
+    mode: scan.mode,
+    photos,
+    storage_paths: scan.storagePaths || [],
+    ...(scan.analysis ? { analysis: scan.analysis } : {}),
+    ...(scan.capturedAt ? { captured_at: scan.capturedAt } : {}),
+  };
+  await updateQueue(entries => [...entries, entry]);
+  console.log(`Queued scan ${id} with ${photos.length} photo(s) for later sync`);
+  return entry;
+}
+
+// A newer edit to the same scan is merged into a queued one, field by field,
+// so an edit that only renamed the room doesn't drop queued item changes
+async function enqueueEdit(propertyId: string, scanId: string, changes: ScanChanges) {
+  await updateQueue(entries => {
+    // One already being sent is left alone; this edit queues behind it
+    const existing = entries.find((entry): entry is QueuedEdit => entry.kind === 'edit' && entry.scan_id === scanId && entry.status !== 'syncing');
+    if (existing) {
+      const merged = { ...existing.changes, ...changes };
+      return entries.map(entry => (entry === existing ? { ...existing, changes: merged, status: 'pending', last_error: null, next_attempt_at: undefined } : entry));
+    }
+    const edit: QueuedEdit = {
+      kind: 'edit',
+      id: createQueueId(),
+      property_id: propertyId,
+      created_at: new Date().toISOString(),
+      status: 'pending',
+      attempts: 0,
+      scan_id: scanId,
+      changes,
+    };
+    return [...entries, edit];
+  });
+}
+
+/**
+ * Saves an edit to a scan now if possible, or queues it. While an older edit
+ * to the same scan is still queued, newer ones are queued behind it rather
+ * than written directly, so the older one can never land last.
+ */
+export async function saveScanEdit(propertyId: string, scanId: string, changes: ScanChanges): Promise<ScanEditResult> {
+  const queued = (await readQueue()).some(entry => entry.kind === 'edit' && entry.scan_id === scanId);
+  if (!queued) {
+    try {
+      return (await updateScanResults(scanId, changes)) ? 'saved' : 'rejected';
+    } catch (error) {
+      if (!isOfflineError(error)) throw error;
+      console.warn(`Saving scan ${scanId} failed offline, queueing the edit:`, error);
+    }
+  }
+  await enqueueEdit(propertyId, scanId, changes);
+  syncQueue();
+  return 'queued';
+}
+
+function backoffMs(attempts: number) {
+  return Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+// Uploads whatever is left, analyses once, then inserts unless a previous attempt already did
+async function syncScan(entry: QueuedScan) {
+  const storagePaths = [...entry.storage_paths];
+  for (let i = storagePaths.length; i < entry.photos.length; i++) {
+    await patchEntry(entry.id, { stage: 'upload' });
+    storagePaths.push(await uploadPhoto(entry.photos[i], i, { name: `${entry.id}-${i}` }));
+    await patchEntry(entry.id, { storage_paths: [...storagePaths] });
+  }
+
+  let analysis = entry.analysis;
+  let failureReason = entry.failure_reason ?? null;
+  if (!analysis) {
+    await patchEntry(entry.id, { stage: 'analyze' });
+    try {
+      analysis = await analyzeScanPhotos(entry.mode, entry.photos, { storagePaths });
+    } catch (analysisError) {
+      // Outages are retried later; an answer the model can't give is saved as a failed scan, as online
+      if (isOfflineError(analysisError)) throw analysisError;
+      console.error(`Analysis of queued scan ${entry.id} failed:`, analysisError);
+      analysis = { items: [], findings: [] };
+      failureReason = describeAnalysisFailure(analysisError);
+    }
+    await patchEntry(entry.id, { analysis, failure_reason: failureReason });
+  }
+
+  await patchEntry(entry.id, { stage: 'save' });
+  const { data: existing, error: lookupError } = await supabase.from('scans').select('id').eq('client_id', entry.id).limit(1);
+  if (lookupError) throw lookupError;
+  if (!existing || existing.length === 0) {
+    try {
+      await insertScan({
+        clientId: entry.id,
+        propertyId: entry.property_id,
+        roomName: entry.room_name,
+        location: entry.location,
+        imagePaths: storagePaths,
+        status: failureReason ? 'failed' : 'complete',
+        failureReason,
+        items: analysis.items,
+        findings: analysis.findings,
+        provenance: analysis.provenance,
+        capturedAt: entry.captured_at,
+        createdAt: entry.created_at,
+      });
+    } catch (error: any) {
+      // Unique violation: an earlier attempt's insert landed after all
+      if (error?.code !== '23505') throw error;
+    }
+  }
+
+  entry.photos.forEach(uri => FileSystem.deleteAsync(uri, { idempotent: true }).catch(() => {}));
+  console.log(`Queued scan ${entry.id} synced`);
+}
+
+async function syncEdit(entry: QueuedEdit) {
+  if (!(await updateScanResults(entry.scan_id, entry.changes))) {
+    // The scan was deleted elsewhere (or RLS refuses); retrying can't help
+    console.warn(`Dropping queued edit to scan ${entry.scan_id}: no row was updated`);
+  }
+}
+
+/**
+ * An edit that goes back into the queue takes in the edits to the same scan
+ * queued behind it while it was being sent. Left as separate entries, the
+ * newer one could sync while this one waits out its backoff, and this one
+ * would then overwrite it.
+ */
+function absorbLaterEdits(entries: QueueEntry[], id: string): QueueEntry[] {
+  const index = entries.findIndex(entry => entry.id === id);
+  const edit = entries[index];
+  if (!edit || edit.kind !== 'edit') return entries;
+  const later = entries.slice(index + 1).filter((entry): entry is QueuedEdit => entry.kind === 'edit' && entry.scan_id === edit.scan_id);
+  if (later.length === 0) return entries;
+  const changes = later.reduce((merged, entry) => ({ ...merged, ...entry.changes }), edit.changes);
+  const absorbed = new Set(later.map(entry => entry.id));
+  return entries
+    .filter(entry => !absorbed.has(entry.id))
+    .map(entry => (entry === edit ? { ...edit, changes } : entry));
+}
+
+async function syncEntry(entry: QueueEntry) {
+  // Re-read so a queued edit replaced since the snapshot is sent in its newest form
+  const current = (await readQueue()).find(candidate => candidate.id === entry.id);
+  if (!current) return;
+  await patchEntry(current.id, { status: 'syncing', last_error: null });
+  try {
+    if (current.kind === 'scan') await syncScan(current);
+    else await syncEdit(current);
+    await removeEntry(current.id);
+  } catch (error) {
+    const attempts = current.attempts + 1;
+    const offline = isOfflineError(error);
+    console.warn(`Sync of queued ${current.kind} ${current.id} failed (attempt ${attempts}):`, error);
+    const patch = {
+      status: offline ? 'pending' as const : 'failed' as const,
+      stage: undefined,
+      attempts,
+      last_error: offline ? 'Waiting for a connection' : describeAnalysisFailure(error),
+      next_attempt_at: offline ? Date.now() + backoffMs(attempts) : undefined,
+    };
+    await updateQueue(entries => absorbLaterEdits(
+      entries.map(entry => (entry.id === current.id ? ({ ...entry, ...patch } as QueueEntry) : entry)),
+      current.id
+    ));
+    if (offline) throw error;
+  }
+}
+
+async function runSync() {
+  if (!(await isOnline())) return;
+  const now = Date.now();
+  const due = (await readQueue()).filter(entry => entry.status === 'pending' && (entry.next_attempt_at || 0) <= now);
+  // Oldest first, so edits land in the order they were made
+  for (const entry of due) {
+    try {
+      await syncEntry(entry);
+    } catch (error) {
+      // The connection dropped again; everything after this would fail the same way
+      return;
+    }
+  }
+}
+
+/**
+ * Syncs every entry that is due. Only one sync runs at a time; calling this
+ * while one is running waits for that one instead of starting another.
+ */
+export function syncQueue(): Promise<void> {
+  if (!syncInProgress) {
+    syncInProgress = runSync()
+      .catch(error => console.error('Offline queue sync failed:', error))
+      .finally(() => {
+        syncInProgress = null;
+      });
+  }
+  return syncInProgress;
+}
+
+// Manual retry from the property screen; skips the backoff and clears a failure
+export async function retryQueueEntry(id: string) {
+  await patchEntry(id, { status: 'pending', next_attempt_at: undefined, last_error: null });
+  return syncQueue();
+}
+
+export async function discardQueueEntry(id: string) {
+  const entry = (await readQueue()).find(candidate => candidate.id === id);
+  if (!entry || entry.status === 'syncing') return;
+  await removeEntry(id);
+  if (entry.kind === 'scan') {
+    entry.photos.forEach(uri => FileSystem.deleteAsync(uri, { idempotent: true }).catch(() => {}));
+    if (entry.storage_paths.length > 0) {
+      supabase.storage.from('Photos').remove(entry.storage_paths).catch(() => {});
+    }
+  }
+}
+
+/**
+ * Starts syncing in the background for as long as the app runs: when the
+ * network comes back, when the app is foregrounded, and on a timer. Returns
+ * a function that stops it.
+ */
+export function startQueueSync() {
+  const network = Network.addNetworkStateListener(state => {
+    if (state.isConnected !== false && state.isInternetReachable !== false) syncQueue();
+  });
+  const appState = AppState.addEventListener('change', state => {
+    if (state === 'active') syncQueue();
+  });
+  const timer = setInterval(async () => {
+    if ((await readQueue()).some(entry => entry.status === 'pending')) syncQueue();
+  }, SYNC_INTERVAL_MS);
+  syncQueue();
+
+  return () => {
+    network.remove();
+    appState.remove();
+    clearInterval(timer);
+  };
+}
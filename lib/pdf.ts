@@ -1,20 +1,89 @@
 import { printToFileAsync } from 'expo-print';
 import { shareAsync } from 'expo-sharing';
 import * as FileSystem from 'expo-file-system/legacy';
-
-interface InventoryItem {
-  id: string;
-  room_name: string;
-  created_at: string;
-  ai_analysis: any; 
-}
+import { getPhotoUrl, getScanImagePaths, scanTakenAt, PriceListEntry, CatalogEntry } from '@/lib/supabase';
+import { CONDITIONS, summarizeConditions } from '@/lib/inventory';
+import type { ScanRecord } from '@/lib/scans';
+import { addTotals, effectiveUnitCost, formatMoney, formatTotals, valueItems } from '@/lib/valuation';
+import { groupItemsByCatalog } from '@/lib/catalog';
 
 interface RoomSection {
   title: string;
-  data: InventoryItem[];
+  data: ScanRecord[];
+}
+
+function renderDamageSection(inventory: RoomSection[]) {
+  const rooms = inventory
+    .map(section => ({ title: section.title, findings: section.data.flatMap(scan => scan.findings) }))
+    .filter(room => room.findings.length > 0);
+  if (rooms.length === 0) return '';
+
+  return `
+    <h1 class="page-break">Surface Damage</h1>
+    ${rooms.map(room => `
+      <h2>${room.title}</h2>
+      <table>
+        <tr>
+          <th>Surface</th>
+          <th>Location</th>
+          <th>Description</th>
+          <th>Severity</th>
+        </tr>
+        ${room.findings.map(f => `
+          <tr>
+            <td>${f.surface}</td>
+            <td>${f.location}</td>
+            <td>${f.description}</td>
+            <td>${f.severity}</td>
+          </tr>
+        `).join('')}
+      </table>
+    `).join('')}
+  `;
+}
+
+// Property-wide totals per canonical item, so "Chair" and "Wooden chair" are one line
+function renderCatalogSummary(inventory: RoomSection[], catalog: CatalogEntry[], priceList: PriceListEntry[]) {
+  const groups = groupItemsByCatalog(inventory.flatMap(section => section.data.flatMap(scan => scan.items)), catalog);
+  if (groups.length === 0) return '';
+
+  return `
+    <h2>Items by Type</h2>
+    <table>
+      <tr>
+        <th>Item</th>
+        <th>Count</th>
+        <th>Also Recorded As</th>
+        <th>Value</th>
+      </tr>
+      ${groups.map(group => `
+        <tr>
+          <td>${group.name}</td>
+          <td>${group.count}</td>
+          <td>${group.aliases.join(', ')}</td>
+          <td class="money">${formatTotals(valueItems(group.items, priceList))}</td>
+        </tr>
+      `).join('')}
+    </table>
+  `;
+}
+
+function renderConditionBreakdown(section: RoomSection) {
+  const summary = summarizeConditions(section.data.flatMap(scan => scan.items));
+  const total = CONDITIONS.reduce((sum, c) => sum + summary[c], 0);
+  if (total === 0) return '';
+
+  return `
+    <table class="breakdown">
+      <tr>${CONDITIONS.map(c => `<th>${c}</th>`).join('')}</tr>
+      <tr>${CONDITIONS.map(c => `<td>${summary[c]}</td>`).join('')}</tr>
+    </table>
+  `;
 }
 
-export async function generateAndShareReport(inventory: RoomSection[]) {
+export async function generateAndShareReport(inventory: RoomSection[], priceList: PriceListEntry[] = [], catalog: CatalogEntry[] = []) {
+  const roomTotals = inventory.map(section => valueItems(section.data.flatMap(scan => scan.items), priceList));
+
   const html = `
     <html>
       <head>
@@ -26,46 +95,71 @@ export async function generateAndShareReport(inventory: RoomSection[]) {
           table { width: 100%; border-collapse: collapse; margin-bottom: 20px; }
           th, td { border: 1px solid #ddd; padding: 8px; text-align: left; }
           th { background-color: #f2f2f2; }
+          .photos { margin-bottom: 10px; }
+          .page-break { page-break-before: always; }
+          .breakdown th, .breakdown td { text-align: center; }
+          .money { text-align: right; }
+          .subtotal td { font-weight: bold; background-color: #fafafa; }
+          .photos img { width: 150px; height: 150px; object-fit: cover; margin: 0 8px 8px 0; border-radius: 4px; }
         </style>
       </head>
       <body>
         <h1>Property Inventory Report</h1>
         <p style="text-align: center; color: #666;">Generated on: ${new Date().toLocaleDateString()} ${new Date().toLocaleTimeString()}</p>
+        <p style="text-align: center;"><strong>Estimated replacement value: ${formatTotals(addTotals(...roomTotals))}</strong></p>
+
+        ${renderCatalogSummary(inventory, catalog, priceList)}
         
-        ${inventory.map(section => `
+        ${inventory.map((section, sectionIndex) => `
           <h2>${section.title}</h2>
+          <p>Room subtotal: <strong>${formatTotals(roomTotals[sectionIndex])}</strong></p>
+          ${renderConditionBreakdown(section)}
           ${section.data.map(item => {
-             // Parse items logic matching app logic
-             let items: any[] = [];
-             if (Array.isArray(item.ai_analysis)) {
-               items = item.ai_analysis;
-             } else if (item.ai_analysis && typeof item.ai_analysis === 'object' && Array.isArray(item.ai_analysis.items)) {
-               items = item.ai_analysis.items;
-             }
+             const items = item.items;
              
-             const location = (item.ai_analysis && item.ai_analysis.location) ? item.ai_analysis.location : '';
+             const location = item.location || '';
              
+             // Damage-only scans are listed in the Surface Damage section instead
+             if (items.length === 0 && item.findings.length > 0) return '';
              if (items.length === 0) return `<p><em>No items recorded for this scan.</em></p>`;
 
+             const photos = getScanImagePaths(item).map(path => `<img src="${getPhotoUrl(path)}" />`).join('');
+
              return `
-               <h3>${location ? `Location: ${location}` : 'Scan'} <span style="font-weight: normal; font-size: 0.8em;">(${new Date(item.created_at).toLocaleDateString()})</span></h3>
+               <h3>${location ? `Location: ${location}` : 'Scan'} <span style="font-weight: normal; font-size: 0.8em;">(${new Date(scanTakenAt(item)).toLocaleDateString()})</span></h3>
+               <div class="photos">${photos}</div>
                <table>
                  <tr>
                    <th>Item</th>
                    <th>Count</th>
                    <th>Condition</th>
+                   <th>Damage Notes</th>
+                   <th>Unit Cost</th>
+                   <th>Value</th>
                  </tr>
-                 ${items.map((i: any) => `
+                 ${items.map(i => {
+                   const cost = effectiveUnitCost(i, priceList);
+                   return `
                    <tr>
                      <td>${i.name}</td>
                      <td>${i.count}</td>
                      <td>${i.condition}</td>
+                     <td>${i.damage_notes || ''}</td>
+                     <td class="money">${cost ? formatMoney(cost.unitCost, cost.currency) : '-'}</td>
+                     <td class="money">${cost ? formatMoney(cost.unitCost * i.count, cost.currency) : '-'}</td>
                    </tr>
-                 `).join('')}
+                 `;
+                 }).join('')}
+                 <tr class="subtotal">
+                   <td colspan="5">Subtotal</td>
+                   <td class="money">${formatTotals(valueItems(items, priceList))}</td>
+                 </tr>
                </table>
              `;
           }).join('')}
         `).join('')}
+
+        ${renderDamageSection(inventory)}
       </body>
     </html>
   `;
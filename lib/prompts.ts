@@ -0,0 +1,150 @@
+import { CONDITIONS } from '@/lib/inventory';
+import type { QueryVocabulary } from '@/lib/inventoryQuery';
+
+/**
+ * Every prompt and model the app has analysed photos with, by version. A
+ * version is never edited once scans have been saved with it: change a prompt
+ * or model by adding a new version, so each scan's provenance still says
+ * exactly what produced it.
+ */
+
+export interface ModelConfig {
+  // Model id as the Gemini API knows it
+  id: string;
+}
+
+export interface PromptTemplate {
+  version: string;
+  description: string;
+  model: ModelConfig;
+  items(photoCount: number): string;
+  damage(photoCount: number): string;
+  verify(expectedItemsList: string): string;
+  // Audits against the scan's own photo as well as its list; versions without
+  // it verify from the list alone
+  compare?(expectedItemsList: string): string;
+  placement(photoCount: number, knownRooms: string[]): string;
+  question(question: string, vocabulary: QueryVocabulary): string;
+}
+
+// The versioned prompts spell out the grades, severities and currency rather
+// than reading them from lib/inventory and lib/valuation, so changing those
+// constants can't silently rewrite a version that scans were saved with
+const CONDITION_RULES = `'condition' must be exactly one of: New, Good, Fair, Poor, Damaged, Missing. If an item is Fair or worse, describe the visible damage briefly in 'damage_notes'; otherwise omit it.`;
+
+const COST_RULES = `'unit_cost' is your estimate of the retail price to replace ONE such item new, as a plain number, and 'currency' is its ISO 4217 code (default USD).`;
+
+const CONFIDENCE_RULES = `'confidence' is how sure you are of the item's name and count together, from 0 (guess) to 1 (certain); use a low value for items that are partly hidden, blurry or easily confused.`;
+
+// Suggestions only pre-fill the scan form and are never saved as results, so
+// every version shares this prompt
+function placementPrompt(photoCount: number, knownRooms: string[]) {
+  const rooms = knownRooms.length > 0
+    ? `This property already has these rooms: ${knownRooms.join(', ')}. If the photo could be any of them, answer with that name exactly as written; only name a different room if none of them fits.`
+    : 'Use a common room name such as Kitchen, Living Room, Bedroom, Bathroom, Hallway or Office.';
+  return `${photoCount > 1 ? `These ${photoCount} photos show the same spot in a rental unit.` : 'This photo shows a spot in a rental unit.'} Say which room it is and where in the room the camera is pointing. ${rooms} 'location' is a short description of the spot, at most five words, such as 'East wall' or 'Under the window'. Return ONLY a raw JSON object: { room: string, location: string }.`;
+}
+
+// Shared by every version for the same reason as placementPrompt. The model
+// only translates the question; answers are computed from saved scans.
+function questionPrompt(question: string, vocabulary: QueryVocabulary) {
+  return `Translate a question about a rental property's inventory into a query. Do not answer it.
+      Question: ${JSON.stringify(question)}
+      Item names in the inventory: ${vocabulary.items.join(', ') || 'none yet'}.
+      Rooms in the property: ${vocabulary.rooms.join(', ') || 'none yet'}.
+      'intent' is exactly one of: count (how many), list (which items), rooms (which rooms or where), value (what they are worth).
+      'items' lists the inventory item names the question is about, copied exactly from the list above; include every name that fits (e.g. "chairs" means every kind of chair) and use an empty array for any item.
+      'rooms' lists room names from the list above, or an empty array for the whole property.
+      'conditions' lists any of: ${CONDITIONS.join(', ')} that the question asks about ("damaged" or "broken" means Poor and Damaged), or an empty array for any condition.
+      Return ONLY a raw JSON object: { intent: string, items: string[], rooms: string[], conditions: string[] }.`;
+}
+
+const V1_PROMPTS = {
+  items(photoCount: number) {
+    if (photoCount === 1) {
+      return `Analyze this inventory photo. Count the distinct items. For every individual instance you count, give its bounding box normalized to 0-1 from the top-left corner. ${CONDITION_RULES} ${COST_RULES} Return ONLY a raw JSON object with a key 'items' which is an array of objects: { name: string, count: number, condition: string, damage_notes?: string, unit_cost: number, currency: string, boxes: [{ x: number, y: number, width: number, height: number }] }.`;
+    }
+    return `These ${photoCount} photos show the same location from different angles. Count the distinct physical items across all photos. An item visible in more than one photo must only be counted once. For every individual instance you count, give one bounding box normalized to 0-1 from the top-left corner, in the photo where it is clearest, with 'image' as that photo's 0-based index. ${CONDITION_RULES} ${COST_RULES} Return ONLY a raw JSON object with a key 'items' which is an array of objects: { name: string, count: number, condition: string, damage_notes?: string, unit_cost: number, currency: string, boxes: [{ image: number, x: number, y: number, width: number, height: number }] }.`;
+  },
+
+  damage(photoCount: number) {
+    return `${photoCount > 1 ? `These ${photoCount} photos show the same area of a rental unit from different angles.` : 'This photo shows an area of a rental unit.'} Ignore furniture and movable items. Report every visible defect in the unit itself: scuffs, holes, stains, cracks, chipped paint, broken tiles, damaged fixtures. Report a defect seen in several photos only once. 'severity' must be exactly one of: Minor, Moderate, Severe. 'region' is the defect's bounding box normalized to 0-1 from the top-left corner${photoCount > 1 ? ", with 'image' as the 0-based index of the photo it is marked on" : ''}. Return ONLY a raw JSON object with a key 'findings' which is an array of objects: { surface: string, location: string, description: string, severity: string, region: { ${photoCount > 1 ? 'image: number, ' : ''}x: number, y: number, width: number, height: number } }. Use an empty array if there is no damage.`;
+  },
+
+  verify(expectedItemsList: string) {
+    return `I am providing an image and a list of expected items with their quantities. Your job is to verify if each item is present and if the quantity matches.
+      Expected Items List: ${expectedItemsList}.
+      Return ONLY a raw JSON object: { results: [{ item: string, expected_count: number, found_count: number, status: 'Match' | 'Mismatch' | 'Missing' }] }.`;
+  },
+
+  placement: placementPrompt,
+  question: questionPrompt,
+};
+
+const V3_PROMPTS = {
+  ...V1_PROMPTS,
+
+  items(photoCount: number) {
+    if (photoCount === 1) {
+      return `Analyze this inventory photo. Count the distinct items. For every individual instance you count, give its bounding box normalized to 0-1 from the top-left corner. ${CONDITION_RULES} ${COST_RULES} ${CONFIDENCE_RULES} Return ONLY a raw JSON object with a key 'items' which is an array of objects: { name: string, count: number, confidence: number, condition: string, damage_notes?: string, unit_cost: number, currency: string, boxes: [{ x: number, y: number, width: number, height: number }] }.`;
+    }
+    return `These ${photoCount} photos show the same location from different angles. Count the distinct physical items across all photos. An item visible in more than one photo must only be counted once. For every individual instance you count, give one bounding box normalized to 0-1 from the top-left corner, in the photo where it is clearest, with 'image' as that photo's 0-based index. ${CONDITION_RULES} ${COST_RULES} ${CONFIDENCE_RULES} Return ONLY a raw JSON object with a key 'items' which is an array of objects: { name: string, count: number, confidence: number, condition: string, damage_notes?: string, unit_cost: number, currency: string, boxes: [{ image: number, x: number, y: number, width: number, height: number }] }.`;
+  },
+};
+
+const V4_PROMPTS = {
+  ...V3_PROMPTS,
+
+  compare(expectedItemsList: string) {
+    return `I am providing two photos of the same spot in a rental unit. The first is the baseline, taken when the inventory below was recorded; the second was taken today. Compare them.
+      Expected Items List: ${expectedItemsList}.
+      For each expected item, count how many are in today's photo.
+      Then list what changed since the baseline: 'added' for an item in today's photo that is not in the baseline, 'moved' for an item that is still there but in a different place, and 'condition_changed' for an item that is now in better or worse condition. 'description' says briefly what changed and where. For condition_changed, give 'previous_condition' and 'current_condition', each exactly one of: New, Good, Fair, Poor, Damaged, Missing. Differences in lighting, angle or framing are not changes. Use an empty array if nothing changed.
+      Return ONLY a raw JSON object: { results: [{ item: string, expected_count: number, found_count: number, status: 'Match' | 'Mismatch' | 'Missing' }], changes: [{ kind: 'added' | 'moved' | 'condition_changed', item: string, description: string, previous_condition?: string, current_condition?: string }] }.`;
+  },
+};
+
+const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    version: 'v1',
+    description: 'Original prompts on gemini-2.0-flash',
+    model: { id: 'gemini-2.0-flash' },
+    ...V1_PROMPTS,
+  },
+  {
+    version: 'v2',
+    description: 'v1 prompts on gemini-2.5-flash',
+    model: { id: 'gemini-2.5-flash' },
+    ...V1_PROMPTS,
+  },
+  {
+    version: 'v3',
+    description: 'Adds a confidence score to each item, on gemini-2.0-flash',
+    model: { id: 'gemini-2.0-flash' },
+    ...V3_PROMPTS,
+  },
+  {
+    version: 'v4',
+    description: 'v3 prompts, with audits comparing the baseline photo to the new one',
+    model: { id: 'gemini-2.0-flash' },
+    ...V4_PROMPTS,
+  },
+];
+
+export const DEFAULT_PROMPT_VERSION = 'v4';
+
+export function listPromptTemplates() {
+  return PROMPT_TEMPLATES;
+}
+
+export function isPromptVersion(version: unknown): version is string {
+  return PROMPT_TEMPLATES.some(template => template.version === version);
+}
+
+export function getPromptTemplate(version: string = DEFAULT_PROMPT_VERSION): PromptTemplate {
+  const template = PROMPT_TEMPLATES.find(candidate => candidate.version === version);
+  if (!template) {
+    throw new Error(`Unknown prompt version "${version}". Expected one of: ${PROMPT_TEMPLATES.map(t => t.version).join(', ')}`);
+  }
+  return template;
+}
@@ -0,0 +1,168 @@
+import type { InventoryItem, AuditVerification, SurfaceFinding, PlacementSuggestion } from '@/lib/supabase';
+import type { VisionProvider, AnalysisOptions, AuditBaseline } from '@/lib/vision';
+import type { AnalysisRequest } from '@/server/handler';
+import { supabase, uploadPhoto } from '@/lib/supabase';
+import { AnalysisValidationError, validateInventoryItems, validateSurfaceFindings, validateAuditVerification, validatePlacement, validateInventoryQuery } from '@/lib/validation';
+import { AnalysisServiceError, DEFAULT_TIMEOUT_MS, throwIfCancelled, withRetries } from '@/lib/resilience';
+import { getPromptTemplate } from '@/lib/prompts';
+import type { InventoryQuery, QueryVocabulary } from '@/lib/inventoryQuery';
+
+/**
+ * Sends photos to our analysis endpoint (server/) instead of calling the
+ * model from the device, so no model API key ships in the bundle. The server
+ * reads the photos from the Photos bucket itself; we only send their paths
+ * along with the user's Supabase session token.
+ */
+
+// The server retries the model itself, so give it time for all of its attempts
+const SERVICE_TIMEOUT_MS = DEFAULT_TIMEOUT_MS * 3 + 15 * 1000;
+
+async function getAccessToken() {
+  const { data } = await supabase.auth.getSession();
+  if (data.session) return data.session.access_token;
+
+  // The app has no login screen yet, so every device gets an anonymous user
+  const { data: signIn, error } = await supabase.auth.signInAnonymously();
+  if (error || !signIn.session) {
+    throw new Error(`Could not authenticate with the analysis service: ${error?.message || 'no session'}`);
+  }
+  return signIn.session.access_token;
+}
+
+// Callers that haven't uploaded yet (the audit flow) get their photos uploaded here
+async function ensureStoragePaths(fileUris: string[], options: AnalysisOptions) {
+  const { storagePaths, signal } = options;
+  if (storagePaths && storagePaths.length === fileUris.length) return storagePaths;
+  const paths: string[] = [];
+  for (let i = 0; i < fileUris.length; i++) {
+    throwIfCancelled(signal);
+    paths.push(await uploadPhoto(fileUris[i], i));
+  }
+  return paths;
+}
+
+async function postAnalysisRequest(url: string, request: AnalysisRequest, signal: AbortSignal): Promise<unknown> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${await getAccessToken()}`,
+    },
+    body: JSON.stringify(request),
+    signal,
+  });
+
+  let body: any = null;
+  try {
+    body = await response.json();
+  } catch (e) {
+    console.warn('Analysis service returned a non-JSON body:', e);
+  }
+
+  if (response.ok) return body;
+
+  const message = body?.error || `Analysis service error (${response.status})`;
+  if (response.status === 422) {
+    throw new AnalysisValidationError(message, body?.issues || []);
+  }
+  const retryAfter = Number(response.headers.get('Retry-After'));
+  const retryAfterMs = retryAfter > 0 ? retryAfter * 1000 : undefined;
+  if (response.status === 429) {
+    throw new AnalysisServiceError(
+      `Too many analyses in a short time. Please try again${retryAfter > 0 ? ` in ${retryAfter} seconds` : ' shortly'}.`,
+      429,
+      retryAfterMs
+    );
+  }
+  throw new AnalysisServiceError(message, response.status, retryAfterMs);
+}
+
+function callAnalysisService(request: AnalysisRequest, signal?: AbortSignal): Promise<unknown> {
+  const url = process.env.EXPO_PUBLIC_ANALYSIS_URL;
+  if (!url) {
+    throw new Error('Missing EXPO_PUBLIC_ANALYSIS_URL environment variable');
+  }
+  return withRetries(
+    attemptSignal => postAnalysisRequest(url, request, attemptSignal),
+    { signal, timeoutMs: SERVICE_TIMEOUT_MS, maxAttempts: 2 }
+  );
+}
+
+async function analyzeImage(fileUri: string, options: AnalysisOptions = {}): Promise<InventoryItem[]> {
+  return analyzeImages([fileUri], options);
+}
+
+async function analyzeImages(fileUris: string[], options: AnalysisOptions = {}): Promise<InventoryItem[]> {
+  const imagePaths = await ensureStoragePaths(fileUris, options);
+  const data = await callAnalysisService({
+    action: 'items',
+    image_paths: imagePaths,
+    prompt_version: options.promptVersion,
+  }, options.signal);
+  return validateInventoryItems(data);
+}
+
+async function analyzeDamage(fileUris: string[], options: AnalysisOptions = {}): Promise<SurfaceFinding[]> {
+  const imagePaths = await ensureStoragePaths(fileUris, options);
+  const data = await callAnalysisService({
+    action: 'damage',
+    image_paths: imagePaths,
+    prompt_version: options.promptVersion,
+  }, options.signal);
+  return validateSurfaceFindings(data);
+}
+
+async function verifyInventory(
+  imageUri: string,
+  expectedItemsList: string,
+  baseline: AuditBaseline | null,
+  options: AnalysisOptions = {}
+): Promise<AuditVerification> {
+  const imagePaths = await ensureStoragePaths([imageUri], options);
+  // A scan's photo is normally already in the bucket; only a local baseline is uploaded
+  const baselinePath = baseline
+    ? baseline.storagePath || (await ensureStoragePaths([baseline.uri], { signal: options.signal }))[0]
+    : undefined;
+  const data = await callAnalysisService({
+    action: 'verify',
+    image_paths: imagePaths,
+    expected_items: expectedItemsList,
+    ...(baselinePath ? { baseline_path: baselinePath } : {}),
+    prompt_version: options.promptVersion,
+  }, options.signal);
+  return validateAuditVerification(data);
+}
+
+async function suggestPlacement(fileUris: string[], knownRooms: string[], options: AnalysisOptions = {}): Promise<PlacementSuggestion> {
+  const imagePaths = await ensureStoragePaths(fileUris, options);
+  const data = await callAnalysisService({
+    action: 'placement',
+    image_paths: imagePaths,
+    known_rooms: knownRooms,
+    prompt_version: options.promptVersion,
+  }, options.signal);
+  return validatePlacement(data);
+}
+
+async function interpretQuestion(question: string, vocabulary: QueryVocabulary, options: AnalysisOptions = {}): Promise<InventoryQuery> {
+  const data = await callAnalysisService({
+    action: 'question',
+    image_paths: [],
+    question,
+    vocabulary,
+    prompt_version: options.promptVersion,
+  }, options.signal);
+  return validateInventoryQuery(data);
+}
+
+export const proxyProvider: VisionProvider = {
+  name: 'proxy',
+  // The server runs the same registry against Gemini
+  modelId: promptVersion => getPromptTemplate(promptVersion).model.id,
+  analyzeImage,
+  analyzeImages,
+  analyzeDamage,
+  verifyInventory,
+  suggestPlacement,
+  interpretQuestion,
+};
@@ -0,0 +1,164 @@
+/**
+ * Timeouts, retries and cancellation for calls to the vision model or the
+ * analysis service. No platform dependencies, so the server uses it too.
+ */
+
+export class AnalysisCancelledError extends Error {
+  constructor() {
+    super('Analysis was cancelled');
+    this.name = 'AnalysisCancelledError';
+  }
+}
+
+export class AnalysisTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`The AI did not respond within ${Math.round(timeoutMs / 1000)} seconds`);
+    this.name = 'AnalysisTimeoutError';
+  }
+}
+
+// An HTTP failure from the analysis service; retryAfterMs comes from a Retry-After header
+export class AnalysisServiceError extends Error {
+  status: number;
+  retryAfterMs?: number;
+
+  constructor(message: string, status: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'AnalysisServiceError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export interface RetryOptions {
+  // Per attempt, not for the whole call
+  timeoutMs?: number;
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+}
+
+export const DEFAULT_TIMEOUT_MS = 45 * 1000;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 8000;
+
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+// What fetch rejects with when the request never got an answer, per platform:
+// React Native, Chrome, Firefox and Safari
+const NETWORK_FAILURE_MESSAGE = /network request failed|failed to fetch|networkerror|network error|load failed/i;
+
+// A request that never reached the server, as opposed to one it answered with an error
+export function isNetworkFailure(error: unknown): boolean {
+  const message = (error as { message?: unknown })?.message;
+  return typeof message === 'string' && NETWORK_FAILURE_MESSAGE.test(message);
+}
+
+/**
+ * Worth another try: timeouts, rate limits, server errors and dropped
+ * connections. Anything else (bad key, bad request, unreadable answer) would
+ * just fail again.
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof AnalysisCancelledError) return false;
+  if (error instanceof AnalysisTimeoutError) return true;
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') return RETRYABLE_STATUSES.includes(status);
+  // fetch rejects with a TypeError when the network drops, but so does a bug
+  // in the code handling the response, so the message has to say which
+  return error instanceof TypeError && isNetworkFailure(error);
+}
+
+export function throwIfCancelled(signal?: AbortSignal) {
+  if (signal?.aborted) throw new AnalysisCancelledError();
+}
+
+// Resolves after ms, or rejects as soon as the signal is aborted
+export function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AnalysisCancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AnalysisCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Runs one attempt with its own abort signal, which fires on timeout or when the caller cancels
+function runAttempt<T>(run: (signal: AbortSignal) => Promise<T>, timeoutMs: number, signal?: AbortSignal) {
+  const controller = new AbortController();
+
+  return new Promise<T>((resolve, reject) => {
+    const finish = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      controller.abort();
+      reject(new AnalysisCancelledError());
+    };
+    // Rejected here rather than trusting the call to honour its signal
+    const timer = setTimeout(() => {
+      finish();
+      controller.abort();
+      reject(new AnalysisTimeoutError(timeoutMs));
+    }, timeoutMs);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    run(controller.signal).then(
+      value => {
+        finish();
+        resolve(value);
+      },
+      error => {
+        finish();
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Calls run with a per-attempt timeout, retrying transient failures with
+ * exponential backoff and jitter. Cancelling the signal rejects immediately
+ * with AnalysisCancelledError, even mid-backoff.
+ */
+export async function withRetries<T>(run: (signal: AbortSignal) => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const {
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    maxAttempts = DEFAULT_MAX_ATTEMPTS,
+    baseDelayMs = DEFAULT_BASE_DELAY_MS,
+    maxDelayMs = DEFAULT_MAX_DELAY_MS,
+    signal,
+  } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    throwIfCancelled(signal);
+    try {
+      return await runAttempt(run, timeoutMs, signal);
+    } catch (error) {
+      if (signal?.aborted) throw new AnalysisCancelledError();
+      if (attempt >= maxAttempts || !isTransientError(error)) throw error;
+
+      const retryAfterMs = (error as AnalysisServiceError).retryAfterMs;
+      // A server asking us to wait longer than we'd ever back off won't be ready in time
+      if (retryAfterMs !== undefined && retryAfterMs > maxDelayMs) throw error;
+
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+      const delayMs = retryAfterMs ?? backoff / 2 + Math.random() * (backoff / 2);
+      console.warn(`Attempt ${attempt} failed, retrying in ${Math.round(delayMs)}ms:`, error);
+      await sleep(delayMs, signal);
+    }
+  }
+}
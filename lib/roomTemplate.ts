@@ -0,0 +1,123 @@
+import type { TemplateRoom } from '@/lib/supabase';
+import { isSameRoom } from '@/lib/rooms';
+
+/**
+ * A property's walkthrough template: the rooms an inspection should cover
+ * and the spots to photograph in each ("Kitchen: North wall, Pantry, Under
+ * sink"). Coverage is worked out from the room and location saved on each
+ * scan, so nothing extra is stored when a spot is photographed.
+ */
+
+// One place to photograph; an empty location stands for the room as a whole
+export interface TemplateSpot {
+  room: string;
+  location: string;
+}
+
+export interface SpotCoverage extends TemplateSpot {
+  scanCount: number;
+}
+
+export interface TemplateCoverage {
+  spots: SpotCoverage[];
+  scanned: number;
+  total: number;
+}
+
+// Where a scan was taken, as saved on it
+export interface ScannedPlace {
+  room_name: string | null;
+  location?: string | null;
+}
+
+function normalizeLocation(location: string) {
+  return location.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function tidy(text: string) {
+  return text.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Reads the editor's text form: one room per line, with its spots after a
+ * colon, separated by commas. A room listed twice has its spots combined.
+ */
+export function parseRoomTemplate(text: string): TemplateRoom[] {
+  const rooms: TemplateRoom[] = [];
+  text.split('\n').forEach(line => {
+    const [rawName, ...rest] = line.split(':');
+    const name = tidy(rawName || '');
+    if (!name) return;
+    const locations = rest.join(':').split(',').map(tidy).filter(Boolean);
+
+    let room = rooms.find(existing => isSameRoom(existing.name, name));
+    if (!room) {
+      room = { name, locations: [] };
+      rooms.push(room);
+    }
+    locations.forEach(location => {
+      if (!room!.locations.some(existing => normalizeLocation(existing) === normalizeLocation(location))) {
+        room!.locations.push(location);
+      }
+    });
+  });
+  return rooms;
+}
+
+export function formatRoomTemplate(template: TemplateRoom[]): string {
+  return template
+    .map(room => (room.locations.length > 0 ? `${room.name}: ${room.locations.join(', ')}` : room.name))
+    .join('\n');
+}
+
+// Builds a template from what has already been scanned, e.g. to reuse the first unit's layout
+export function templateFromPlaces(places: ScannedPlace[]): TemplateRoom[] {
+  const lines = places
+    .filter(place => place.room_name && place.room_name.trim())
+    .map(place => `${place.room_name}: ${place.location || ''}`);
+  return parseRoomTemplate(lines.join('\n'));
+}
+
+export function listTemplateSpots(template: TemplateRoom[]): TemplateSpot[] {
+  return template.flatMap(room =>
+    room.locations.length > 0
+      ? room.locations.map(location => ({ room: room.name, location }))
+      : [{ room: room.name, location: '' }]
+  );
+}
+
+export function isSameSpot(a: TemplateSpot, b: TemplateSpot) {
+  return isSameRoom(a.room, b.room) && normalizeLocation(a.location) === normalizeLocation(b.location);
+}
+
+function placeCoversSpot(place: ScannedPlace, spot: TemplateSpot) {
+  if (!place.room_name || !isSameRoom(place.room_name, spot.room)) return false;
+  // Any scan of the room covers a room without spots
+  return !spot.location || normalizeLocation(place.location || '') === normalizeLocation(spot.location);
+}
+
+export function computeCoverage(template: TemplateRoom[], places: ScannedPlace[]): TemplateCoverage {
+  const spots = listTemplateSpots(template).map(spot => ({
+    ...spot,
+    scanCount: places.filter(place => placeCoversSpot(place, spot)).length,
+  }));
+  return {
+    spots,
+    scanned: spots.filter(spot => spot.scanCount > 0).length,
+    total: spots.length,
+  };
+}
+
+/**
+ * The first unscanned spot after `current` in template order, wrapping
+ * around to the start. Returns null once every spot has been scanned.
+ */
+export function nextUnscannedSpot(coverage: TemplateCoverage, current?: TemplateSpot | null): TemplateSpot | null {
+  const { spots } = coverage;
+  const start = current ? spots.findIndex(spot => isSameSpot(spot, current)) + 1 : 0;
+  for (let i = 0; i < spots.length; i++) {
+    const spot = spots[(start + i) % spots.length];
+    if (spot.scanCount === 0) return { room: spot.room, location: spot.location };
+  }
+  return null;
+}
@@ -0,0 +1,48 @@
+/**
+ * Room names as people type them ("kitchen ", "Bedrooms") vary enough to
+ * split one room into several sections on the property page. These helpers
+ * keep new scans on the names a property already uses.
+ */
+
+function normalizeRoomName(name: string) {
+  return name.trim().toLowerCase().replace(/\s+/g, ' ').replace(/s$/, '');
+}
+
+function titleCase(name: string) {
+  return name.trim().replace(/\s+/g, ' ').replace(/\b\w/g, letter => letter.toUpperCase());
+}
+
+export function isSameRoom(a: string, b: string) {
+  return normalizeRoomName(a) === normalizeRoomName(b);
+}
+
+// Distinct room names from a property's scans, most used first
+export function listKnownRooms(roomNames: Array<string | null | undefined>): string[] {
+  const counts = new Map<string, { name: string; count: number }>();
+  roomNames.forEach(roomName => {
+    if (!roomName || !roomName.trim()) return;
+    const key = normalizeRoomName(roomName);
+    const entry = counts.get(key);
+    if (entry) entry.count++;
+    else counts.set(key, { name: roomName.trim(), count: 1 });
+  });
+  return Array.from(counts.values())
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+    .map(entry => entry.name);
+}
+
+/**
+ * Snaps a suggested room onto the property's own name for it: the same name
+ * in another case or plural, or the one known room that contains it
+ * ("Bedroom" -> "Master Bedroom"). Anything else is returned title-cased.
+ */
+export function matchKnownRoom(suggested: string, knownRooms: string[]): string {
+  const key = normalizeRoomName(suggested);
+  const exact = knownRooms.find(room => normalizeRoomName(room) === key);
+  if (exact) return exact;
+
+  const containing = knownRooms.filter(room => normalizeRoomName(room).includes(key));
+  if (containing.length === 1) return containing[0];
+
+  return titleCase(suggested);
+}
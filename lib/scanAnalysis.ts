@@ -0,0 +1,72 @@
+import type { InventoryItem, SurfaceFinding, AnalysisProvenance, PlacementSuggestion } from '@/lib/supabase';
+import { analyzeImages, analyzeDamage, suggestPlacement, getVisionProvider, AnalysisOptions } from '@/lib/vision';
+import { getActivePromptVersion } from '@/lib/settings';
+import { matchKnownRoom } from '@/lib/rooms';
+import { AnalysisValidationError } from '@/lib/validation';
+import { AnalysisServiceError, AnalysisTimeoutError, isTransientError } from '@/lib/resilience';
+
+/**
+ * Runs a scan's analysis in either mode. Shared by the scan screen and by
+ * re-running a failed scan from its detail page.
+ */
+
+// 'items' counts movable inventory, 'damage' reports defects in walls, floors and fixtures
+export type ScanMode = 'items' | 'damage';
+
+export interface ScanAnalysis {
+  items: InventoryItem[];
+  findings: SurfaceFinding[];
+  provenance?: AnalysisProvenance;
+}
+
+// Stamped onto every analysis we save; promptVersion is the one actually sent
+export function buildProvenance(promptVersion: string): AnalysisProvenance {
+  const provider = getVisionProvider();
+  return {
+    prompt_version: promptVersion,
+    model: provider.modelId(promptVersion),
+    provider: provider.name,
+    analyzed_at: new Date().toISOString(),
+  };
+}
+
+// Uses the active prompt version from Settings unless options names one
+export async function analyzeScanPhotos(mode: ScanMode, fileUris: string[], options: AnalysisOptions = {}): Promise<ScanAnalysis> {
+  const promptVersion = options.promptVersion || await getActivePromptVersion();
+  const analysisOptions = { ...options, promptVersion };
+
+  console.log(`Starting ${mode} analysis of ${fileUris.length} photo(s) with prompt ${promptVersion}...`);
+  if (mode === 'damage') {
+    const findings = await analyzeDamage(fileUris, analysisOptions);
+    console.log('AI Damage Findings:', JSON.stringify(findings, null, 2));
+    return { items: [], findings, provenance: buildProvenance(promptVersion) };
+  }
+  const items = await analyzeImages(fileUris, analysisOptions);
+  console.log('AI Analysis Results:', JSON.stringify(items, null, 2));
+  return { items, findings: [], provenance: buildProvenance(promptVersion) };
+}
+
+// Room and location to pre-fill before a scan is saved, using the property's own room names where they fit
+export async function suggestScanPlacement(fileUris: string[], knownRooms: string[], options: AnalysisOptions = {}): Promise<PlacementSuggestion> {
+  const promptVersion = options.promptVersion || await getActivePromptVersion();
+  const suggestion = await suggestPlacement(fileUris, knownRooms, { ...options, promptVersion });
+  return { room: matchKnownRoom(suggestion.room, knownRooms), location: suggestion.location };
+}
+
+// Short reason stored on a failed scan and shown wherever it is listed
+export function describeAnalysisFailure(error: unknown): string {
+  if (error instanceof AnalysisValidationError) {
+    return [error.message, ...error.issues.slice(0, 3)].join(' ');
+  }
+  // The service's own messages (e.g. rate limits) are already written for users
+  if (error instanceof AnalysisServiceError) {
+    return error.message;
+  }
+  if (error instanceof AnalysisTimeoutError) {
+    return `${error.message}, even after retrying.`;
+  }
+  if (isTransientError(error)) {
+    return 'The AI service was unavailable, even after retrying.';
+  }
+  return error instanceof Error && error.message ? error.message : 'Analysis failed for an unknown reason.';
+}
@@ -0,0 +1,177 @@
+import { ScanEditResult } from '@/lib/offlineQueue';
+import { ScanResults, saveScanResults } from '@/lib/itemEdits';
+
+/**
+ * Holds the results of one saved scan while they're being edited and keeps
+ * the database in step: changes are saved a moment after the last one, one
+ * write at a time and always with the newest version, so a slow response can
+ * never land on top of a newer edit. Changes can be undone and redone, and
+ * each undo or redo is saved the same way.
+ */
+
+// How long after the last change the results are written
+export const AUTOSAVE_DELAY_MS = 800;
+// Changes this close together (a word typed, a few taps on +) are undone as one step
+export const UNDO_GROUP_MS = 1000;
+export const MAX_UNDO_STEPS = 50;
+
+// 'queued' is as safe as 'saved': the offline queue writes it once there's a connection
+export type EditSaveStatus = 'saved' | 'queued' | 'unsaved' | 'saving' | 'failed';
+
+export interface ScanEditState {
+  results: ScanResults;
+  status: EditSaveStatus;
+  // Why the last write failed; cleared once one succeeds
+  error?: string;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+export interface ScanEditStore {
+  state(): ScanEditState;
+  change(results: ScanResults): void;
+  undo(): void;
+  redo(): void;
+  // Writes anything outstanding now; resolves true once nothing is left unsaved
+  flush(): Promise<boolean>;
+  // Stops saving; anything not yet written is dropped
+  dispose(): void;
+}
+
+export interface ScanEditStoreOptions {
+  delayMs?: number;
+  save?: (propertyId: string, scanId: string, results: ScanResults) => Promise<ScanEditResult>;
+}
+
+const REJECTED_MESSAGE =
+  'The database refused the update. This is likely due to Row Level Security (RLS) policies; enable UPDATE for the "scans" table in Supabase.';
+
+export function createScanEditStore(
+  propertyId: string,
+  scanId: string,
+  initial: ScanResults,
+  onChange: (state: ScanEditState) => void,
+  { delayMs = AUTOSAVE_DELAY_MS, save = saveScanResults }: ScanEditStoreOptions = {}
+): ScanEditStore {
+  let results = initial;
+  let past: ScanResults[] = [];
+  let future: ScanResults[] = [];
+  let lastChangeAt = 0;
+  // Edits made since the last write started
+  let dirty = false;
+  let failed = false;
+  let error: string | undefined;
+  let lastOutcome: 'saved' | 'queued' = 'saved';
+  let inFlight: Promise<void> | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let disposed = false;
+
+  function state(): ScanEditState {
+    let status: EditSaveStatus = lastOutcome;
+    if (inFlight) status = 'saving';
+    else if (dirty) status = failed ? 'failed' : 'unsaved';
+    return { results, status, error, canUndo: past.length > 0, canRedo: future.length > 0 };
+  }
+
+  function emit() {
+    if (!disposed) onChange(state());
+  }
+
+  function clearTimer() {
+    if (timer) clearTimeout(timer);
+    timer = null;
+  }
+
+  function schedule() {
+    clearTimer();
+    timer = setTimeout(() => {
+      timer = null;
+      startWrite();
+    }, delayMs);
+  }
+
+  // Only ever one write at a time; one that finishes with newer edits waiting starts the next
+  function startWrite() {
+    if (disposed || inFlight || !dirty) return inFlight;
+    clearTimer();
+    const snapshot = results;
+    dirty = false;
+    inFlight = (async () => {
+      try {
+        const outcome = await save(propertyId, scanId, snapshot);
+        if (outcome === 'rejected') throw new Error(REJECTED_MESSAGE);
+        lastOutcome = outcome;
+        failed = false;
+        error = undefined;
+      } catch (saveError: any) {
+        console.error(`Failed to save edits to scan ${scanId}:`, saveError);
+        // Kept dirty so leaving warns about it; the next edit or flush tries again
+        dirty = true;
+        failed = true;
+        error = saveError?.message || 'Failed to save changes';
+      } finally {
+        inFlight = null;
+      }
+      if (dirty && !failed) startWrite();
+      emit();
+    })();
+    emit();
+    return inFlight;
+  }
+
+  function apply(next: ScanResults) {
+    results = next;
+    dirty = true;
+    schedule();
+    emit();
+  }
+
+  return {
+    state,
+
+    change(next) {
+      const now = Date.now();
+      if (now - lastChangeAt > UNDO_GROUP_MS || past.length === 0) {
+        past = [...past, results].slice(-MAX_UNDO_STEPS);
+      }
+      future = [];
+      lastChangeAt = now;
+      apply(next);
+    },
+
+    undo() {
+      if (past.length === 0) return;
+      future = [results, ...future];
+      const previous = past[past.length - 1];
+      past = past.slice(0, -1);
+      // The next change starts a step of its own
+      lastChangeAt = 0;
+      apply(previous);
+    },
+
+    redo() {
+      if (future.length === 0) return;
+      past = [...past, results];
+      const [next, ...rest] = future;
+      future = rest;
+      lastChangeAt = 0;
+      apply(next);
+    },
+
+    async flush() {
+      clearTimer();
+      // A write already running may have newer edits waiting behind it
+      while (inFlight) await inFlight;
+      if (dirty) {
+        await startWrite();
+        while (inFlight) await inFlight;
+      }
+      return !dirty;
+    },
+
+    dispose() {
+      clearTimer();
+      disposed = true;
+    },
+  };
+}
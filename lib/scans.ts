@@ -0,0 +1,130 @@
+import { supabase, ScanData, ScanItemRow, InventoryItem, SurfaceFinding, AnalysisProvenance } from '@/lib/supabase';
+import { countItemsNeedingReview, normalizeInventoryItem } from '@/lib/inventory';
+
+/**
+ * Saved scans and their items. Each item is a scan_items row and the
+ * location has a column of its own (see SUPABASE_MIGRATION_V12.md); only the
+ * findings and provenance are left in ai_analysis. Scans are read as a
+ * ScanRecord with all of that flattened out, and written through database
+ * functions so a scan and its items always change together.
+ */
+
+export interface ScanRecord extends Omit<ScanData, 'ai_analysis'> {
+  // In the order the scan lists them, with older free-text conditions mapped onto the scale
+  items: InventoryItem[];
+  findings: SurfaceFinding[];
+  provenance?: AnalysisProvenance;
+}
+
+export interface NewScan {
+  // The offline queue's or burst's id for the scan, so a retried insert fails instead of duplicating it
+  clientId?: string;
+  propertyId: string;
+  roomName: string;
+  location: string;
+  imagePaths: string[];
+  status: 'complete' | 'failed';
+  failureReason?: string | null;
+  items: InventoryItem[];
+  findings: SurfaceFinding[];
+  provenance?: AnalysisProvenance;
+  capturedAt?: string | null;
+  // Defaults to now; queued scans keep the time they were captured
+  createdAt?: string;
+}
+
+// Only the fields given are changed; items replaces the whole list
+export interface ScanChanges {
+  room_name?: string;
+  location?: string;
+  status?: string;
+  failure_reason?: string | null;
+  ai_analysis?: { findings?: SurfaceFinding[]; provenance?: AnalysisProvenance };
+  needs_review?: boolean;
+  items?: InventoryItem[];
+}
+
+const SCAN_COLUMNS = '*, scan_items(*)';
+
+type ScanRow = ScanData & { scan_items?: ScanItemRow[] | null };
+
+function itemFromRow(row: ScanItemRow): InventoryItem {
+  // The condition column can still hold an older scan's free text until it's normalized below
+  const item: Omit<InventoryItem, 'condition'> & { condition: string } = {
+    name: row.name,
+    count: row.count,
+    condition: row.condition,
+  };
+  if (row.damage_notes) item.damage_notes = row.damage_notes;
+  if (row.unit_cost !== null) item.unit_cost = Number(row.unit_cost);
+  if (row.currency) item.currency = row.currency;
+  if (row.cost_source) item.cost_source = row.cost_source;
+  if (row.boxes) item.boxes = row.boxes;
+  if (row.confidence !== null) item.confidence = row.confidence;
+  if (row.reviewed) item.reviewed = true;
+  return normalizeInventoryItem(item);
+}
+
+function toRecord({ scan_items, ai_analysis, ...scan }: ScanRow): ScanRecord {
+  return {
+    ...scan,
+    items: [...(scan_items || [])].sort((a, b) => a.position - b.position).map(itemFromRow),
+    findings: ai_analysis?.findings || [],
+    provenance: ai_analysis?.provenance,
+  };
+}
+
+export async function fetchScan(id: string): Promise<ScanRecord> {
+  const { data, error } = await supabase.from('scans').select(SCAN_COLUMNS).eq('id', id).single();
+  if (error) throw error;
+  return toRecord(data);
+}
+
+// Newest first
+export async function listPropertyScans(propertyId: string): Promise<ScanRecord[]> {
+  const { data, error } = await supabase
+    .from('scans')
+    .select(SCAN_COLUMNS)
+    .eq('property_id', propertyId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data || []).map(toRecord);
+}
+
+/**
+ * Saves a new scan with its items and returns its id. Errors are thrown as
+ * Supabase returns them, so a repeated clientId shows up as a unique
+ * violation (code 23505).
+ */
+export async function insertScan(scan: NewScan): Promise<string> {
+  const { data, error } = await supabase.rpc('insert_scan', {
+    p_scan: {
+      client_id: scan.clientId ?? null,
+      property_id: scan.propertyId,
+      room_name: scan.roomName,
+      location: scan.location,
+      image_path: scan.imagePaths[0],
+      image_paths: scan.imagePaths,
+      status: scan.status,
+      failure_reason: scan.failureReason ?? null,
+      ai_analysis: { findings: scan.findings, provenance: scan.provenance },
+      needs_review: countItemsNeedingReview(scan.items) > 0,
+      captured_at: scan.capturedAt || null,
+      created_at: scan.createdAt ?? null,
+    },
+    p_items: scan.items,
+  });
+  if (error) throw error;
+  return data as string;
+}
+
+// Resolves false when no row was updated: the scan was deleted, or RLS refused the update
+export async function updateScanResults(scanId: string, { items, ...changes }: ScanChanges): Promise<boolean> {
+  const { data, error } = await supabase.rpc('update_scan_results', {
+    p_scan_id: scanId,
+    p_changes: changes,
+    p_items: items ?? null,
+  });
+  if (error) throw error;
+  return data === true;
+}
@@ -0,0 +1,32 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DEFAULT_PROMPT_VERSION, isPromptVersion } from '@/lib/prompts';
+
+/**
+ * Per-device settings. EXPO_PUBLIC_PROMPT_VERSION sets the build's default
+ * prompt version; choosing one in Settings overrides it on this device.
+ */
+
+const PROMPT_VERSION_KEY = 'settings.promptVersion';
+
+function defaultPromptVersion() {
+  const configured = process.env.EXPO_PUBLIC_PROMPT_VERSION;
+  return isPromptVersion(configured) ? configured : DEFAULT_PROMPT_VERSION;
+}
+
+export async function getActivePromptVersion(): Promise<string> {
+  try {
+    const stored = await AsyncStorage.getItem(PROMPT_VERSION_KEY);
+    // A version removed from the registry falls back to the default rather than failing every scan
+    if (isPromptVersion(stored)) return stored;
+  } catch (error) {
+    console.warn('Could not read prompt version setting:', error);
+  }
+  return defaultPromptVersion();
+}
+
+export async function setActivePromptVersion(version: string) {
+  if (!isPromptVersion(version)) {
+    throw new Error(`Unknown prompt version "${version}"`);
+  }
+  await AsyncStorage.setItem(PROMPT_VERSION_KEY, version);
+}
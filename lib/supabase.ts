@@ -1,5 +1,10 @@
 import 'react-native-url-polyfill/auto';
 import { createClient } from '@supabase/supabase-js';
+import type { Condition, Severity } from '@/lib/inventory';
+import * as FileSystem from 'expo-file-system/legacy';
+import { Platform } from 'react-native';
+import { detectFileMimeType } from '@/lib/imagePipeline';
+import { extensionForMimeType } from '@/lib/imageType';
 
 const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL;
 const supabaseKey = process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY;
@@ -10,18 +15,145 @@ if (!supabaseUrl || !supabaseKey) {
 
 export const supabase = createClient(supabaseUrl, supabaseKey);
 
+// Property-level replacement cost that overrides the model's estimate for items with this name
+export interface PriceListEntry {
+  name: string;
+  unit_cost: number;
+  currency: string;
+}
+
+// One canonical item in a property's catalog; see lib/catalog.ts
+export interface CatalogEntry {
+  id: string;
+  name: string;
+  // Other names the same object has been saved under
+  aliases: string[];
+}
+
+// One room in a property's walkthrough template; see lib/roomTemplate.ts
+export interface TemplateRoom {
+  name: string;
+  // Spots to photograph in the room; empty means the room as a whole
+  locations: string[];
+}
+
+// Where a tag sighting came from: tagging during an inventory, or an audit of a scan
+export type SightingSource = 'inventory' | 'audit';
+
+// An item carrying a QR or barcode asset tag; see lib/assets.ts
+export interface Asset {
+  id: string;
+  tag_code: string;
+  tag_type?: string | null;
+  name: string;
+  // Where it was last seen
+  property_id: string | null;
+  room_name: string | null;
+  image_paths: string[];
+  created_at: string;
+}
+
+// One "seen at" event for an asset's tag
+export interface AssetSighting {
+  id: string;
+  asset_id: string;
+  property_id: string | null;
+  room_name: string | null;
+  location?: string | null;
+  condition?: Condition | null;
+  image_path?: string | null;
+  source: SightingSource;
+  scan_id?: string | null;
+  seen_at: string;
+}
+
 export interface Property {
   id: string;
   name: string;
   address: string;
   image_url?: string;
+  price_list?: PriceListEntry[] | null;
+  catalog?: CatalogEntry[] | null;
+  room_template?: TemplateRoom[] | null;
   created_at: string;
 }
 
+// Normalized (0-1) region of a scan photo, measured from its top-left corner
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Index into the scan's image_paths; omitted means the first photo
+  image?: number;
+}
+
 export interface InventoryItem {
   name: string;
   count: number;
-  condition: string;
+  condition: Condition;
+  damage_notes?: string;
+  // Estimated replacement cost of a single unit
+  unit_cost?: number;
+  currency?: string;
+  // Where unit_cost came from; 'manual' edits are never overridden by the price list
+  cost_source?: 'ai' | 'manual';
+  // One box per detected instance of the item
+  boxes?: BoundingBox[];
+  // The model's confidence in this row (name and count), 0-1; absent on older scans
+  confidence?: number;
+  // Set once a person has confirmed or corrected the row
+  reviewed?: boolean;
+}
+
+// Damage to the unit itself (walls, floors, fixtures) rather than a movable item
+export interface SurfaceFinding {
+  surface: string;
+  location: string;
+  description: string;
+  severity: Severity;
+  region?: BoundingBox;
+}
+
+// Where a photo was taken, as guessed by the model; only ever used to pre-fill the scan form
+export interface PlacementSuggestion {
+  room: string;
+  location: string;
+}
+
+// What produced a scan's analysis, so results can be traced back to a prompt change
+export interface AnalysisProvenance {
+  prompt_version: string;
+  model: string;
+  provider: string;
+  analyzed_at: string;
+}
+
+export type AuditStatus = 'Match' | 'Mismatch' | 'Missing';
+
+export interface AuditResult {
+  item: string;
+  expected_count: number;
+  found_count: number;
+  status: AuditStatus;
+}
+
+export type AuditChangeKind = 'added' | 'moved' | 'condition_changed';
+
+// Something that differs between a scan's photo and the audit photo, beyond the counts
+export interface AuditChange {
+  kind: AuditChangeKind;
+  item: string;
+  description: string;
+  // Only set for condition_changed
+  previous_condition?: Condition;
+  current_condition?: Condition;
+}
+
+export interface AuditVerification {
+  results: AuditResult[];
+  // Empty when the audit had no baseline photo to compare against
+  changes: AuditChange[];
 }
 
 export interface ScanData {
@@ -30,6 +162,124 @@ export interface ScanData {
   room_name: string;
   status: string;
   image_path: string;
+  // Every photo of the location; image_path is always the first of these
+  image_paths?: string[] | null;
   property_id: string;
-  ai_analysis: InventoryItem[] | { items: InventoryItem[]; location?: string };
+  // Where in the room the photos were taken, e.g. "North wall"
+  location: string | null;
+  // Items are scan_items rows (see SUPABASE_MIGRATION_V12.md); read scans through lib/scans
+  ai_analysis: { findings?: SurfaceFinding[]; provenance?: AnalysisProvenance } | null;
+  // Why the analysis gave up; only set while status is 'failed'
+  failure_reason?: string | null;
+  // Some low-confidence items haven't been confirmed or corrected yet
+  needs_review?: boolean | null;
+  // When an imported photo was originally taken; empty for camera scans
+  captured_at?: string | null;
+}
+
+// One of a scan's items, in the order the scan lists them
+export interface ScanItemRow {
+  id: string;
+  created_at: string;
+  scan_id: string;
+  position: number;
+  name: string;
+  count: number;
+  condition: string;
+  damage_notes: string | null;
+  unit_cost: number | null;
+  currency: string | null;
+  cost_source: 'ai' | 'manual' | null;
+  boxes: BoundingBox[] | null;
+  confidence: number | null;
+  reviewed: boolean;
+}
+
+// When the scan's photo was taken, which for imports can be long before it was saved
+export function scanTakenAt(scan: Pick<ScanData, 'created_at' | 'captured_at'>): string {
+  return scan.captured_at || scan.created_at;
+}
+
+export function getPhotoUrl(path: string) {
+  return supabase.storage.from('Photos').getPublicUrl(path).data.publicUrl;
+}
+
+// Scans saved before multi-photo support only have image_path
+export function getScanImagePaths(scan: Pick<ScanData, 'image_path' | 'image_paths'>): string[] {
+  if (scan.image_paths && scan.image_paths.length > 0) return scan.image_paths;
+  return scan.image_path ? [scan.image_path] : [];
+}
+
+// Uploads a local photo to the Photos bucket and returns its storage path. Giving
+// a fixed name makes the upload idempotent: retrying overwrites the same object.
+export async function uploadPhoto(uri: string, index = 0, options: { name?: string } = {}) {
+  const mimeType = await detectFileMimeType(uri);
+  const fileName = `${options.name || `${Date.now()}-${index}`}.${extensionForMimeType(mimeType)}`;
+
+  let body: FormData | Blob;
+  if (Platform.OS === 'web') {
+    // Web photos are blob: or data: URLs, which FormData can't take by uri
+    body = await (await fetch(uri)).blob();
+  } else {
+    body = new FormData();
+    body.append('file', {
+      uri,
+      name: fileName,
+      type: mimeType,
+    } as any);
+  }
+
+  console.log('Attempting upload to Photos bucket:', fileName);
+  const { data, error } = await supabase.storage
+    .from('Photos')
+    .upload(fileName, body, { upsert: !!options.name, contentType: mimeType });
+
+  if (error) {
+    console.error('Storage upload error details:', error);
+    throw error;
+  }
+  console.log('Upload successful:', data);
+  return fileName;
+}
+
+// Local copies of stored photos, for re-running analysis on a saved scan
+export async function downloadPhotos(paths: string[]) {
+  const uris: string[] = [];
+  for (const path of paths) {
+    const { uri } = await FileSystem.downloadAsync(getPhotoUrl(path), `${FileSystem.cacheDirectory}${path}`);
+    uris.push(uri);
+  }
+  return uris;
+}
+
+export async function fetchCatalog(propertyId: string): Promise<CatalogEntry[]> {
+  const { data, error } = await supabase.from('properties').select('catalog').eq('id', propertyId).single();
+  if (error) throw error;
+  return data?.catalog || [];
+}
+
+// Catalog changes from this device run one at a time, so none starts from a copy another is about to replace
+let catalogWrites: Promise<unknown> = Promise.resolve();
+
+/**
+ * Applies a change to the catalog as it is saved right now rather than to a
+ * copy a screen loaded earlier, so names filed from another screen or device
+ * in the meantime are kept. Resolves to the catalog as saved.
+ */
+export function updateCatalog(propertyId: string, change: (catalog: CatalogEntry[]) => CatalogEntry[]): Promise<CatalogEntry[]> {
+  const write = catalogWrites.then(async () => {
+    const saved = await fetchCatalog(propertyId);
+    const next = change(saved);
+    if (next === saved) return saved;
+    const { error } = await supabase.from('properties').update({ catalog: next }).eq('id', propertyId);
+    if (error) throw error;
+    return next;
+  });
+  catalogWrites = write.catch(() => {});
+  return write;
+}
+
+export async function saveRoomTemplate(propertyId: string, roomTemplate: TemplateRoom[]) {
+  const { error } = await supabase.from('properties').update({ room_template: roomTemplate }).eq('id', propertyId);
+  if (error) throw error;
 }
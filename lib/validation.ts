@@ -0,0 +1,383 @@
+import type { InventoryItem, AuditResult, AuditStatus, AuditChange, AuditChangeKind, AuditVerification, BoundingBox, SurfaceFinding, PlacementSuggestion } from '@/lib/supabase';
+import { normalizeCondition, CONDITIONS, Condition, SEVERITIES, Severity } from '@/lib/inventory';
+import { DEFAULT_CURRENCY } from '@/lib/valuation';
+import { QUERY_INTENTS, InventoryQuery, QueryIntent } from '@/lib/inventoryQuery';
+
+/**
+ * Thrown when a model response can't be turned into a valid analysis,
+ * even after coercion and a repair attempt. `issues` is a list of
+ * human-readable problems suitable for showing to the user.
+ */
+export class AnalysisValidationError extends Error {
+  issues: string[];
+  rawText?: string;
+
+  constructor(message: string, issues: string[] = [], rawText?: string) {
+    super(message);
+    this.name = 'AnalysisValidationError';
+    this.issues = issues;
+    this.rawText = rawText;
+  }
+}
+
+// Strip markdown fences and any chatter around the JSON payload, then parse it.
+export function parseModelJson(text: string): unknown {
+  const cleaned = text.replace(/```json/gi, '').replace(/```/g, '').trim();
+
+  const start = cleaned.search(/[[{]/);
+  const end = Math.max(cleaned.lastIndexOf('}'), cleaned.lastIndexOf(']'));
+  if (start === -1 || end < start) {
+    throw new AnalysisValidationError('Response did not contain JSON', ['No JSON object found in response'], text);
+  }
+
+  try {
+    return JSON.parse(cleaned.slice(start, end + 1));
+  } catch (error: any) {
+    throw new AnalysisValidationError('Response was not valid JSON', [error.message || 'Invalid JSON'], text);
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Accepts numbers and numeric strings ("3", " 2 "), rejects anything else.
+function coerceCount(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return Math.max(0, Math.round(value));
+  }
+  if (typeof value === 'string' && /^\s*\d+(\.\d+)?\s*$/.test(value)) {
+    return Math.max(0, Math.round(parseFloat(value)));
+  }
+  return null;
+}
+
+// One amount with an optional currency symbol or code either side: "$120", "1,200.50", "USD 80", "45 EUR"
+const PRICE_PATTERN = /^(?:[a-z]{3}\s*)?[$€£¥]?\s*(\d{1,3}(?:,\d{3})+|\d+)(\.\d+)?\s*(?:[a-z]{3})?$/i;
+
+// Accepts numbers and price-like strings; the currency symbol is dropped. Ranges
+// ("100-150"), negatives and amounts with other text around them are unreadable.
+function coerceCost(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isFinite(value) && value >= 0) return value;
+  if (typeof value === 'string') {
+    const match = PRICE_PATTERN.exec(value.trim());
+    if (match) return parseFloat(match[1].replace(/,/g, '') + (match[2] || ''));
+  }
+  return null;
+}
+
+// Accepts 0-1 or a percentage (0-100, with or without "%")
+function coerceConfidence(value: unknown): number | null {
+  let number: number | null = null;
+  if (typeof value === 'number' && Number.isFinite(value)) number = value;
+  if (typeof value === 'string' && /^\s*\d+(\.\d+)?\s*%?\s*$/.test(value)) number = parseFloat(value);
+  if (number === null || number < 0) return null;
+  if (number > 1) number = number / 100;
+  return number > 1 ? null : number;
+}
+
+function coerceCurrency(value: unknown): string | null {
+  if (typeof value === 'string' && /^\s*[a-z]{3}\s*$/i.test(value)) return value.trim().toUpperCase();
+  return null;
+}
+
+function coerceName(value: unknown): string | null {
+  if (typeof value === 'string' && value.trim()) return value.trim();
+  if (typeof value === 'number') return String(value);
+  return null;
+}
+
+function clamp01(value: number) {
+  return Math.min(1, Math.max(0, value));
+}
+
+// Accepts { x, y, width, height } or Gemini's native [ymin, xmin, ymax, xmax],
+// on either a 0-1 or 0-1000 scale. Anything else is dropped rather than guessed.
+function coerceBox(raw: unknown): BoundingBox | null {
+  let x: number, y: number, width: number, height: number;
+  let image: number | undefined;
+
+  if (Array.isArray(raw) && raw.length === 4 && raw.every(v => typeof v === 'number')) {
+    const [ymin, xmin, ymax, xmax] = raw;
+    x = xmin;
+    y = ymin;
+    width = xmax - xmin;
+    height = ymax - ymin;
+  } else if (isRecord(raw) && [raw.x, raw.y, raw.width, raw.height].every(v => typeof v === 'number')) {
+    ({ x, y, width, height } = raw);
+    if (typeof raw.image === 'number' && raw.image >= 0) image = Math.floor(raw.image);
+  } else {
+    return null;
+  }
+
+  if ([x, y, width, height].some(v => v > 1)) {
+    x /= 1000;
+    y /= 1000;
+    width /= 1000;
+    height /= 1000;
+  }
+
+  x = clamp01(x);
+  y = clamp01(y);
+  width = Math.min(width, 1 - x);
+  height = Math.min(height, 1 - y);
+  if (!(width > 0) || !(height > 0)) return null;
+
+  return image === undefined ? { x, y, width, height } : { x, y, width, height, image };
+}
+
+function coerceBoxes(value: unknown): BoundingBox[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const boxes = value.map(coerceBox).filter((box): box is BoundingBox => box !== null);
+  return boxes.length > 0 ? boxes : undefined;
+}
+
+// Finds the array under `key`, or accepts the bare array if the model skipped the wrapper.
+function unwrapList(data: unknown, key: string): unknown[] | null {
+  if (Array.isArray(data)) return data;
+  if (isRecord(data) && Array.isArray(data[key])) return data[key];
+  return null;
+}
+
+export function validateInventoryItems(data: unknown): InventoryItem[] {
+  const list = unwrapList(data, 'items');
+  if (!list) {
+    throw new AnalysisValidationError('Unexpected analysis shape', ["Expected an object with an 'items' array"]);
+  }
+
+  const issues: string[] = [];
+  const items: InventoryItem[] = [];
+
+  list.forEach((raw, index) => {
+    if (!isRecord(raw)) {
+      issues.push(`Item ${index + 1} is not an object`);
+      return;
+    }
+
+    const name = coerceName(raw.name);
+    const count = coerceCount(raw.count);
+    if (!name) issues.push(`Item ${index + 1} is missing a name`);
+    if (count === null) issues.push(`Item ${index + 1}${name ? ` (${name})` : ''} has no numeric count`);
+    if (!name || count === null) return;
+
+    // Off-scale grades are mapped onto the scale, keeping the original wording as notes
+    const { condition, notes } = normalizeCondition(raw.condition);
+    const item: InventoryItem = { name, count, condition };
+    const damageNotes = typeof raw.damage_notes === 'string' && raw.damage_notes.trim() ? raw.damage_notes.trim() : notes;
+    if (damageNotes) item.damage_notes = damageNotes;
+    // A missing or unreadable estimate just leaves the item unvalued
+    const unitCost = coerceCost(raw.unit_cost);
+    if (unitCost !== null) {
+      item.unit_cost = unitCost;
+      item.currency = coerceCurrency(raw.currency) || DEFAULT_CURRENCY;
+      item.cost_source = 'ai';
+    }
+    const boxes = coerceBoxes(raw.boxes);
+    if (boxes) item.boxes = boxes;
+    // Without a confidence the item is simply never flagged for review
+    const confidence = coerceConfidence(raw.confidence);
+    if (confidence !== null) item.confidence = confidence;
+    items.push(item);
+  });
+
+  if (issues.length > 0) {
+    throw new AnalysisValidationError('Analysis contained invalid items', issues);
+  }
+  return items;
+}
+
+const SEVERITY_SYNONYMS: Record<string, Severity> = {
+  low: 'Minor',
+  minor: 'Minor',
+  medium: 'Moderate',
+  moderate: 'Moderate',
+  high: 'Severe',
+  major: 'Severe',
+  severe: 'Severe',
+};
+
+function coerceSeverity(value: unknown): Severity | null {
+  if (typeof value !== 'string') return null;
+  return SEVERITY_SYNONYMS[value.trim().toLowerCase()] || null;
+}
+
+export function validateSurfaceFindings(data: unknown): SurfaceFinding[] {
+  const list = unwrapList(data, 'findings');
+  if (!list) {
+    throw new AnalysisValidationError('Unexpected damage report shape', ["Expected an object with a 'findings' array"]);
+  }
+
+  const issues: string[] = [];
+  const findings: SurfaceFinding[] = [];
+
+  list.forEach((raw, index) => {
+    if (!isRecord(raw)) {
+      issues.push(`Finding ${index + 1} is not an object`);
+      return;
+    }
+
+    const description = coerceName(raw.description);
+    const severity = coerceSeverity(raw.severity);
+    if (!description) issues.push(`Finding ${index + 1} is missing a description`);
+    if (!severity) issues.push(`Finding ${index + 1} severity must be one of ${SEVERITIES.join(', ')}`);
+    if (!description || !severity) return;
+
+    const finding: SurfaceFinding = {
+      surface: coerceName(raw.surface) || 'Other',
+      location: coerceName(raw.location) || '',
+      description,
+      severity,
+    };
+    const region = coerceBox(raw.region);
+    if (region) finding.region = region;
+    findings.push(finding);
+  });
+
+  if (issues.length > 0) {
+    throw new AnalysisValidationError('Damage report contained invalid findings', issues);
+  }
+  return findings;
+}
+
+export function statusForCounts(expected: number, found: number): AuditStatus {
+  if (found === expected) return 'Match';
+  return found === 0 ? 'Missing' : 'Mismatch';
+}
+
+export function validateAuditResults(data: unknown): AuditResult[] {
+  const list = unwrapList(data, 'results');
+  if (!list) {
+    throw new AnalysisValidationError('Unexpected verification shape', ["Expected an object with a 'results' array"]);
+  }
+
+  const issues: string[] = [];
+  const results: AuditResult[] = [];
+
+  list.forEach((raw, index) => {
+    if (!isRecord(raw)) {
+      issues.push(`Result ${index + 1} is not an object`);
+      return;
+    }
+
+    const item = coerceName(raw.item ?? raw.name);
+    const expected = coerceCount(raw.expected_count);
+    const found = coerceCount(raw.found_count);
+    if (!item) issues.push(`Result ${index + 1} is missing an item name`);
+    if (expected === null) issues.push(`Result ${index + 1} has no numeric expected_count`);
+    if (found === null) issues.push(`Result ${index + 1} has no numeric found_count`);
+    if (!item || expected === null || found === null) return;
+
+    // The status is derivable from the counts, so trust the counts over a missing or bad label
+    const status = statusForCounts(expected, found);
+    results.push({ item, expected_count: expected, found_count: found, status });
+  });
+
+  if (issues.length > 0) {
+    throw new AnalysisValidationError('Verification contained invalid results', issues);
+  }
+  return results;
+}
+
+const CHANGE_KIND_SYNONYMS: Record<string, AuditChangeKind> = {
+  added: 'added',
+  new: 'added',
+  moved: 'moved',
+  relocated: 'moved',
+  condition_changed: 'condition_changed',
+  condition: 'condition_changed',
+  damaged: 'condition_changed',
+};
+
+function coerceChangeKind(value: unknown): AuditChangeKind | null {
+  if (typeof value !== 'string') return null;
+  return CHANGE_KIND_SYNONYMS[value.trim().toLowerCase().replace(/[\s-]+/g, '_')] || null;
+}
+
+function validateAuditChanges(list: unknown[]): AuditChange[] {
+  const issues: string[] = [];
+  const changes: AuditChange[] = [];
+
+  list.forEach((raw, index) => {
+    if (!isRecord(raw)) {
+      issues.push(`Change ${index + 1} is not an object`);
+      return;
+    }
+
+    const kind = coerceChangeKind(raw.kind ?? raw.type);
+    const item = coerceName(raw.item ?? raw.name);
+    if (!kind) issues.push(`Change ${index + 1} kind must be one of: added, moved, condition_changed`);
+    if (!item) issues.push(`Change ${index + 1} is missing an item name`);
+    if (!kind || !item) return;
+
+    const change: AuditChange = { kind, item, description: coerceName(raw.description) || '' };
+    if (kind === 'condition_changed') {
+      // Grades are optional here; the description still says what changed
+      if (raw.previous_condition) change.previous_condition = normalizeCondition(raw.previous_condition).condition;
+      if (raw.current_condition) change.current_condition = normalizeCondition(raw.current_condition).condition;
+    }
+    changes.push(change);
+  });
+
+  if (issues.length > 0) {
+    throw new AnalysisValidationError('Verification contained invalid changes', issues);
+  }
+  return changes;
+}
+
+// A bare results array is a list-only verification, so it has no changes
+export function validateAuditVerification(data: unknown): AuditVerification {
+  const results = validateAuditResults(data);
+  const rawChanges = isRecord(data) ? data.changes : undefined;
+  if (rawChanges !== undefined && rawChanges !== null && !Array.isArray(rawChanges)) {
+    throw new AnalysisValidationError('Unexpected verification shape', ["'changes' must be an array"]);
+  }
+  return { results, changes: Array.isArray(rawChanges) ? validateAuditChanges(rawChanges) : [] };
+}
+
+export function validatePlacement(data: unknown): PlacementSuggestion {
+  if (!isRecord(data)) {
+    throw new AnalysisValidationError('Unexpected placement shape', ["Expected an object with 'room' and 'location'"]);
+  }
+  const room = coerceName(data.room);
+  if (!room) {
+    throw new AnalysisValidationError('Placement is missing a room', ["'room' must be a non-empty string"]);
+  }
+  // A room on its own is still useful, so a missing location is not an error
+  return { room, location: coerceName(data.location) || '' };
+}
+
+function coerceNameList(value: unknown): string[] | null {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) return null;
+  return value.map(coerceName).filter((name): name is string => !!name);
+}
+
+export function validateInventoryQuery(data: unknown): InventoryQuery {
+  if (!isRecord(data)) {
+    throw new AnalysisValidationError('Unexpected query shape', ["Expected an object with 'intent', 'items', 'rooms' and 'conditions'"]);
+  }
+
+  const issues: string[] = [];
+  const intent = typeof data.intent === 'string' ? data.intent.trim().toLowerCase() : '';
+  if (!QUERY_INTENTS.includes(intent as QueryIntent)) {
+    issues.push(`'intent' must be one of ${QUERY_INTENTS.join(', ')}`);
+  }
+  const items = coerceNameList(data.items);
+  const rooms = coerceNameList(data.rooms);
+  if (!items) issues.push("'items' must be an array of item names");
+  if (!rooms) issues.push("'rooms' must be an array of room names");
+
+  const conditions: Condition[] = [];
+  const rawConditions = coerceNameList(data.conditions);
+  if (!rawConditions) issues.push("'conditions' must be an array");
+  (rawConditions || []).forEach(raw => {
+    const condition = CONDITIONS.find(c => c.toLowerCase() === raw.toLowerCase());
+    if (condition) conditions.push(condition);
+    else issues.push(`Condition "${raw}" must be one of ${CONDITIONS.join(', ')}`);
+  });
+
+  if (issues.length > 0 || !items || !rooms) {
+    throw new AnalysisValidationError('Query could not be understood', issues);
+  }
+  return { intent: intent as QueryIntent, items, rooms, conditions };
+}
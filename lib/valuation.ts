@@ -0,0 +1,61 @@
+import type { InventoryItem, PriceListEntry } from '@/lib/supabase';
+
+// Used when neither the model nor the price list says otherwise
+export const DEFAULT_CURRENCY = 'USD';
+
+// Sums keyed by currency code; mixed currencies are never converted
+export type Totals = Record<string, number>;
+
+function priceKey(name: string) {
+  return name.trim().toLowerCase();
+}
+
+/**
+ * The replacement cost we actually use for an item. A cost the user typed in
+ * wins, then the property's price list, then the model's estimate.
+ */
+export function effectiveUnitCost(item: InventoryItem, priceList: PriceListEntry[] = []): { unitCost: number; currency: string } | null {
+  if (item.cost_source !== 'manual') {
+    const entry = priceList.find(e => priceKey(e.name) === priceKey(item.name));
+    if (entry) return { unitCost: entry.unit_cost, currency: entry.currency || DEFAULT_CURRENCY };
+  }
+  if (typeof item.unit_cost === 'number') {
+    return { unitCost: item.unit_cost, currency: item.currency || DEFAULT_CURRENCY };
+  }
+  return null;
+}
+
+export function addTotals(...totals: Totals[]): Totals {
+  const result: Totals = {};
+  totals.forEach(t => {
+    Object.entries(t).forEach(([currency, amount]) => {
+      result[currency] = (result[currency] || 0) + amount;
+    });
+  });
+  return result;
+}
+
+export function valueItems(items: InventoryItem[], priceList: PriceListEntry[] = []): Totals {
+  const totals: Totals = {};
+  items.forEach(item => {
+    const cost = effectiveUnitCost(item, priceList);
+    if (!cost) return;
+    totals[cost.currency] = (totals[cost.currency] || 0) + cost.unitCost * (item.count || 0);
+  });
+  return totals;
+}
+
+export function formatMoney(amount: number, currency: string = DEFAULT_CURRENCY) {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+  } catch (e) {
+    // Unknown currency codes make Intl throw
+    return `${currency} ${amount.toFixed(2)}`;
+  }
+}
+
+export function formatTotals(totals: Totals) {
+  const entries = Object.entries(totals);
+  if (entries.length === 0) return '-';
+  return entries.map(([currency, amount]) => formatMoney(amount, currency)).join(' + ');
+}
@@ -0,0 +1,75 @@
+import * as FileSystem from 'expo-file-system/legacy';
+import * as VideoThumbnails from 'expo-video-thumbnails';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { decode as decodeJpeg } from 'jpeg-js';
+import { decodeBase64 } from '@/lib/imageType';
+import { preparePhoto } from '@/lib/imagePipeline';
+import { throwIfCancelled } from '@/lib/resilience';
+import { FrameSample, MAX_KEYFRAMES, differenceHash, measureSharpness, selectKeyframes, toGrayscale } from '@/lib/keyframes';
+
+/**
+ * Turns a recorded walkthrough into the photos of a scan: samples frames
+ * across the video, scores each on a small decoded copy, and runs the chosen
+ * keyframes through preparePhoto like any other photo.
+ */
+
+// Recording stops on its own after this long; one room rarely needs more
+export const MAX_VIDEO_SECONDS = 60;
+
+// Sample at least this far apart, and never more than MAX_SAMPLES frames in total
+const MIN_SAMPLE_INTERVAL_MS = 500;
+const MAX_SAMPLES = 40;
+
+// Width of the copy each frame is scored on; enough for edges, cheap to decode in JS
+const ANALYSIS_WIDTH = 96;
+
+async function scoreFrame(uri: string, timeMs: number): Promise<FrameSample> {
+  const small = await ImageManipulator.manipulate(uri).resize({ width: ANALYSIS_WIDTH }).renderAsync();
+  const saved = await small.saveAsync({ format: SaveFormat.JPEG, compress: 0.9, base64: true });
+  FileSystem.deleteAsync(saved.uri, { idempotent: true }).catch(() => {});
+
+  const { width, height, data } = decodeJpeg(decodeBase64(saved.base64 || ''), { useTArray: true, formatAsRGBA: true });
+  const gray = toGrayscale(data, width, height);
+  return { uri, timeMs, sharpness: measureSharpness(gray), hash: differenceHash(gray) };
+}
+
+/**
+ * Returns prepared keyframe URIs in time order. durationMs is how long the
+ * recording ran; frames past the real end of the video are skipped. The
+ * video and any frames not chosen are deleted.
+ */
+export async function extractKeyframes(
+  videoUri: string,
+  durationMs: number,
+  maxFrames: number = MAX_KEYFRAMES,
+  signal?: AbortSignal
+): Promise<string[]> {
+  const interval = Math.max(MIN_SAMPLE_INTERVAL_MS, durationMs / MAX_SAMPLES);
+  const samples: FrameSample[] = [];
+  const keyframes: string[] = [];
+  try {
+    for (let time = 0; time < Math.max(durationMs, 1); time += interval) {
+      throwIfCancelled(signal);
+      try {
+        const frame = await VideoThumbnails.getThumbnailAsync(videoUri, { time: Math.round(time), quality: 1 });
+        samples.push(await scoreFrame(frame.uri, time));
+      } catch (error) {
+        console.warn(`Could not read the frame at ${Math.round(time)}ms:`, error);
+      }
+    }
+    console.log(`Scored ${samples.length} frame(s) from a ${Math.round(durationMs / 1000)}s video`);
+
+    const chosen = selectKeyframes(samples, maxFrames);
+    for (const frame of chosen) {
+      throwIfCancelled(signal);
+      keyframes.push((await preparePhoto(frame.uri)).uri);
+    }
+    return keyframes;
+  } finally {
+    FileSystem.deleteAsync(videoUri, { idempotent: true }).catch(() => {});
+    // preparePhoto hands back the original frame if it can't process it, so keep those
+    samples
+      .filter(sample => !keyframes.includes(sample.uri))
+      .forEach(sample => FileSystem.deleteAsync(sample.uri, { idempotent: true }).catch(() => {}));
+  }
+}
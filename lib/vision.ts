@@ -0,0 +1,129 @@
+import * as FileSystem from 'expo-file-system/legacy';
+import type { InventoryItem, AuditVerification, SurfaceFinding, PlacementSuggestion } from '@/lib/supabase';
+import { createGeminiProvider, EncodedImage } from '@/lib/gemini';
+import { DEFAULT_IMAGE_MIME_TYPE, detectBase64ImageMimeType } from '@/lib/imageType';
+import { fakeProvider } from '@/lib/fakeVision';
+import { proxyProvider } from '@/lib/proxyVision';
+import type { InventoryQuery, QueryVocabulary } from '@/lib/inventoryQuery';
+
+/**
+ * A backend that can look at photos. Screens never talk to a provider
+ * directly; they call the exported helpers below, which route to whichever
+ * provider EXPO_PUBLIC_VISION_PROVIDER selects.
+ */
+export interface AnalysisOptions {
+  // The same photos' paths in the Photos bucket when they've already been
+  // uploaded. Providers that analyse remotely use them instead of uploading
+  // again; local providers ignore them.
+  storagePaths?: string[];
+  // Aborting rejects the call with AnalysisCancelledError
+  signal?: AbortSignal;
+  // Registry version from lib/prompts; defaults to DEFAULT_PROMPT_VERSION
+  promptVersion?: string;
+}
+
+// The photo a scan was saved with, which an audit photo is compared against
+export interface AuditBaseline {
+  // Read the same way as the audit photo's URI
+  uri: string;
+  // The photo's path in the Photos bucket, so remote providers needn't upload it again
+  storagePath?: string;
+}
+
+export interface VisionProvider {
+  name: string;
+  // The model a prompt version runs on with this provider, for provenance
+  modelId(promptVersion: string): string;
+  analyzeImage(fileUri: string, options?: AnalysisOptions): Promise<InventoryItem[]>;
+  // Several angles of one location, deduplicated into a single list
+  analyzeImages(fileUris: string[], options?: AnalysisOptions): Promise<InventoryItem[]>;
+  // Surface defects (scuffs, holes, stains) on the unit itself rather than items
+  analyzeDamage(fileUris: string[], options?: AnalysisOptions): Promise<SurfaceFinding[]>;
+  // Counts the expected items in the audit photo and, given a baseline, what changed since it
+  verifyInventory(imageUri: string, expectedItemsList: string, baseline: AuditBaseline | null, options?: AnalysisOptions): Promise<AuditVerification>;
+  // Which room the photos show and where in it, preferring the property's existing rooms
+  suggestPlacement(fileUris: string[], knownRooms: string[], options?: AnalysisOptions): Promise<PlacementSuggestion>;
+  // Text only: turns a question about the inventory into a query we run ourselves
+  interpretQuestion(question: string, vocabulary: QueryVocabulary, options?: AnalysisOptions): Promise<InventoryQuery>;
+}
+
+async function readLocalImage(fileUri: string): Promise<EncodedImage> {
+  // Audit baselines are saved scan photos, so they arrive as public URLs
+  if (/^https?:\/\//i.test(fileUri)) {
+    const download = await FileSystem.downloadAsync(fileUri, `${FileSystem.cacheDirectory}baseline-${Date.now()}.img`);
+    try {
+      if (download.status !== 200) throw new Error(`Could not download ${fileUri} (${download.status})`);
+      return await readLocalImage(download.uri);
+    } finally {
+      FileSystem.deleteAsync(download.uri, { idempotent: true }).catch(() => {});
+    }
+  }
+
+  // Photos imported on web are blob: or data: URLs, which the file system API can't read
+  if (/^(blob|data):/i.test(fileUri)) {
+    const blob = await (await fetch(fileUri)).blob();
+    const dataUrl = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+    const data = dataUrl.slice(dataUrl.indexOf(',') + 1);
+    return { data, mimeType: detectBase64ImageMimeType(data) || blob.type || DEFAULT_IMAGE_MIME_TYPE };
+  }
+
+  const base64String = await FileSystem.readAsStringAsync(fileUri, {
+    encoding: 'base64',
+  });
+  return { data: base64String, mimeType: detectBase64ImageMimeType(base64String) || DEFAULT_IMAGE_MIME_TYPE };
+}
+
+const providers: Record<string, VisionProvider> = {
+  fake: fakeProvider,
+  proxy: proxyProvider,
+};
+
+// Talks to Gemini straight from the device, so the key would end up in the bundle.
+// Release builds drop this branch, and the key with it.
+if (__DEV__) {
+  providers.gemini = createGeminiProvider({
+    getApiKey: () => process.env.EXPO_PUBLIC_GOOGLE_API_KEY,
+    loadImage: readLocalImage,
+  });
+}
+
+export function getVisionProvider(): VisionProvider {
+  const name = process.env.EXPO_PUBLIC_VISION_PROVIDER || 'proxy';
+  const provider = providers[name];
+  if (!provider) {
+    if (name === 'gemini') {
+      throw new Error('The gemini vision provider is only available in development builds. Use proxy instead.');
+    }
+    throw new Error(`Unknown vision provider "${name}". Expected one of: ${Object.keys(providers).join(', ')}`);
+  }
+  return provider;
+}
+
+export function analyzeImage(fileUri: string, options?: AnalysisOptions) {
+  return getVisionProvider().analyzeImage(fileUri, options);
+}
+
+export function analyzeImages(fileUris: string[], options?: AnalysisOptions) {
+  return getVisionProvider().analyzeImages(fileUris, options);
+}
+
+export function analyzeDamage(fileUris: string[], options?: AnalysisOptions) {
+  return getVisionProvider().analyzeDamage(fileUris, options);
+}
+
+export function verifyInventory(imageUri: string, expectedItemsList: string, baseline: AuditBaseline | null, options?: AnalysisOptions) {
+  return getVisionProvider().verifyInventory(imageUri, expectedItemsList, baseline, options);
+}
+
+export function suggestPlacement(fileUris: string[], knownRooms: string[], options?: AnalysisOptions) {
+  return getVisionProvider().suggestPlacement(fileUris, knownRooms, options);
+}
+
+export function interpretQuestion(question: string, vocabulary: QueryVocabulary, options?: AnalysisOptions) {
+  return getVisionProvider().interpretQuestion(question, vocabulary, options);
+}
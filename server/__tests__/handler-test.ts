@@ -0,0 +1,46 @@
+import { createAnalysisHandler } from '@/server/handler';
+import { createRateLimiter } from '@/server/rateLimit';
+import type { VisionProvider } from '@/lib/vision';
+
+const provider = {
+  name: 'stub',
+  modelId: () => 'stub-model',
+  analyzeImages: async () => [{ name: 'Chair', count: 1, condition: 'Good' }],
+} as unknown as VisionProvider;
+
+function analysisRequest(token: string) {
+  return new Request('http://localhost/', {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ action: 'items', image_paths: ['photo.jpg'] }),
+  });
+}
+
+describe('createAnalysisHandler', () => {
+  it('limits a client address however many user ids it signs in as', async () => {
+    let users = 0;
+    const handle = createAnalysisHandler({
+      provider,
+      verifyUser: async () => `anonymous-${++users}`,
+      rateLimiter: createRateLimiter(10, 60 * 1000),
+      ipRateLimiter: createRateLimiter(2, 60 * 1000),
+    });
+
+    expect((await handle(analysisRequest('first'), '10.0.0.1')).status).toBe(200);
+    expect((await handle(analysisRequest('second'), '10.0.0.1')).status).toBe(200);
+    const limited = await handle(analysisRequest('third'), '10.0.0.1');
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('Retry-After')).toBe('60');
+    expect((await handle(analysisRequest('fourth'), '10.0.0.2')).status).toBe(200);
+  });
+
+  it('rejects a missing token', async () => {
+    const handle = createAnalysisHandler({
+      provider,
+      verifyUser: async () => null,
+      rateLimiter: createRateLimiter(10, 60 * 1000),
+      ipRateLimiter: createRateLimiter(10, 60 * 1000),
+    });
+    expect((await handle(analysisRequest(''), '10.0.0.1')).status).toBe(401);
+  });
+});
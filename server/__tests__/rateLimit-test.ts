@@ -0,0 +1,27 @@
+import { createRateLimiter } from '@/server/rateLimit';
+
+describe('createRateLimiter', () => {
+  it('allows up to the limit per window, then reports when to retry', () => {
+    let time = 0;
+    const limiter = createRateLimiter(2, 60 * 1000, () => time);
+    expect(limiter.take('a').allowed).toBe(true);
+    expect(limiter.take('a').allowed).toBe(true);
+    time = 15 * 1000;
+    expect(limiter.take('a')).toEqual({ allowed: false, retryAfterSeconds: 45 });
+  });
+
+  it('counts each key separately', () => {
+    const limiter = createRateLimiter(1, 60 * 1000, () => 0);
+    expect(limiter.take('a').allowed).toBe(true);
+    expect(limiter.take('b').allowed).toBe(true);
+    expect(limiter.take('a').allowed).toBe(false);
+  });
+
+  it('starts a new window once the old one has passed', () => {
+    let time = 0;
+    const limiter = createRateLimiter(1, 60 * 1000, () => time);
+    limiter.take('a');
+    time = 60 * 1000;
+    expect(limiter.take('a').allowed).toBe(true);
+  });
+});
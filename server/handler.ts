@@ -0,0 +1,199 @@
+import type { VisionProvider } from '@/lib/vision';
+import type { RateLimiter } from '@/server/rateLimit';
+import { AnalysisValidationError } from '@/lib/validation';
+import { isTransientError } from '@/lib/resilience';
+import { isPromptVersion, listPromptTemplates } from '@/lib/prompts';
+import type { QueryVocabulary } from '@/lib/inventoryQuery';
+
+/**
+ * The analysis endpoint as a plain fetch-style handler, so the same code runs
+ * under the Node server in server/index.ts or inside a Supabase Edge Function
+ * (`Deno.serve((req, info) => handler(req, info.remoteAddr.hostname))`). Everything environment-specific
+ * (how photos are read, how tokens are checked) is passed in.
+ *
+ * Success responses mirror the model's own JSON: { items }, { findings },
+ * { results, changes }, { room, location } or the query for a question. Failures are { error, issues? } with a matching status code;
+ * 503 means the model was still unavailable after retries.
+ */
+
+export type AnalysisAction = 'items' | 'damage' | 'verify' | 'placement' | 'question';
+
+export interface AnalysisRequest {
+  action: AnalysisAction;
+  // Paths in the Photos bucket, in the order the photos were taken; empty for 'question'
+  image_paths: string[];
+  // JSON list of the expected items; only used by 'verify'
+  expected_items?: string;
+  // The scan's own photo, which 'verify' compares the audit photo against when given
+  baseline_path?: string;
+  // Room names the property already uses; only used by 'placement'
+  known_rooms?: string[];
+  // The user's question and the property's item and room names; only used by 'question'
+  question?: string;
+  vocabulary?: QueryVocabulary;
+  // Registry version from lib/prompts; omitted means the default
+  prompt_version?: string;
+}
+
+export interface AnalysisHandlerOptions {
+  // Provider whose image refs are storage paths
+  provider: VisionProvider;
+  // Resolves a bearer token to the caller's user id, or null if it isn't valid
+  verifyUser: (token: string) => Promise<string | null>;
+  // Per user id
+  rateLimiter: RateLimiter;
+  // Per client address, checked before the token: the app signs in anonymously,
+  // so anyone can mint as many user ids as they like
+  ipRateLimiter: RateLimiter;
+}
+
+// One scan never has more photos than this; the app stops adding angles here
+export const MAX_IMAGES_PER_REQUEST = 8;
+// Far more rooms than any real property; keeps the prompt small
+const MAX_KNOWN_ROOMS = 50;
+const MAX_QUESTION_LENGTH = 500;
+const MAX_VOCABULARY_NAMES = 1000;
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+function rateLimited(retryAfterSeconds: number) {
+  return json(429, { error: 'Rate limit exceeded' }, { 'Retry-After': String(retryAfterSeconds) });
+}
+
+function json(status: number, body: unknown, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...CORS_HEADERS, ...headers },
+  });
+}
+
+function isNameList(value: unknown, max: number): value is string[] {
+  return Array.isArray(value) && value.length <= max && value.every(name => typeof name === 'string');
+}
+
+function parseRequest(body: unknown): { request?: AnalysisRequest; error?: string } {
+  if (!body || typeof body !== 'object') return { error: 'Request body must be a JSON object' };
+  const { action, image_paths, expected_items, baseline_path, known_rooms, question, vocabulary, prompt_version } = body as Record<string, unknown>;
+
+  if (action !== 'items' && action !== 'damage' && action !== 'verify' && action !== 'placement' && action !== 'question') {
+    return { error: "'action' must be one of: items, damage, verify, placement, question" };
+  }
+  if (prompt_version !== undefined && !isPromptVersion(prompt_version)) {
+    return { error: `'prompt_version' must be one of: ${listPromptTemplates().map(t => t.version).join(', ')}` };
+  }
+  if (action === 'question') {
+    if (typeof question !== 'string' || question.trim() === '' || question.length > MAX_QUESTION_LENGTH) {
+      return { error: `'question' must be a non-empty string of at most ${MAX_QUESTION_LENGTH} characters` };
+    }
+    const { items, rooms } = (vocabulary || {}) as Record<string, unknown>;
+    if (!isNameList(items, MAX_VOCABULARY_NAMES) || !isNameList(rooms, MAX_VOCABULARY_NAMES)) {
+      return { error: "'vocabulary' must be { items: string[], rooms: string[] }" };
+    }
+    return {
+      request: {
+        action,
+        image_paths: [],
+        question,
+        vocabulary: { items, rooms },
+        ...(prompt_version !== undefined ? { prompt_version } : {}),
+      },
+    };
+  }
+  if (!Array.isArray(image_paths) || image_paths.length === 0) {
+    return { error: "'image_paths' must be a non-empty array" };
+  }
+  if (image_paths.length > MAX_IMAGES_PER_REQUEST) {
+    return { error: `At most ${MAX_IMAGES_PER_REQUEST} photos can be analyzed at once` };
+  }
+  if (image_paths.some(path => typeof path !== 'string' || path.trim() === '')) {
+    return { error: "'image_paths' must only contain storage paths" };
+  }
+  if (action === 'verify' && (typeof expected_items !== 'string' || expected_items.trim() === '')) {
+    return { error: "'expected_items' is required for verify" };
+  }
+  if (baseline_path !== undefined && (action !== 'verify' || typeof baseline_path !== 'string' || baseline_path.trim() === '')) {
+    return { error: "'baseline_path' must be a storage path and is only used by verify" };
+  }
+  if (known_rooms !== undefined && !isNameList(known_rooms, MAX_KNOWN_ROOMS)) {
+    return { error: `'known_rooms' must be an array of at most ${MAX_KNOWN_ROOMS} room names` };
+  }
+
+  return {
+    request: {
+      action,
+      image_paths: image_paths as string[],
+      ...(action === 'verify' ? { expected_items: expected_items as string } : {}),
+      ...(typeof baseline_path === 'string' ? { baseline_path } : {}),
+      ...(action === 'placement' ? { known_rooms: known_rooms || [] } : {}),
+      ...(prompt_version !== undefined ? { prompt_version } : {}),
+    },
+  };
+}
+
+async function runAnalysis(provider: VisionProvider, request: AnalysisRequest, signal: AbortSignal) {
+  const options = { signal, promptVersion: request.prompt_version };
+  switch (request.action) {
+    case 'items':
+      return { items: await provider.analyzeImages(request.image_paths, options) };
+    case 'damage':
+      return { findings: await provider.analyzeDamage(request.image_paths, options) };
+    case 'verify':
+      return provider.verifyInventory(
+        request.image_paths[0],
+        request.expected_items || '[]',
+        request.baseline_path ? { uri: request.baseline_path } : null,
+        options
+      );
+    case 'placement':
+      return provider.suggestPlacement(request.image_paths, request.known_rooms || [], options);
+    case 'question':
+      return provider.interpretQuestion(request.question || '', request.vocabulary || { items: [], rooms: [] }, options);
+  }
+}
+
+// clientIp is the caller's address as the hosting server sees it
+export function createAnalysisHandler({ provider, verifyUser, rateLimiter, ipRateLimiter }: AnalysisHandlerOptions) {
+  return async function handleAnalysisRequest(req: Request, clientIp: string): Promise<Response> {
+    if (req.method === 'OPTIONS') return new Response(null, { status: 204, headers: CORS_HEADERS });
+    if (req.method !== 'POST') return json(405, { error: 'Method not allowed' });
+
+    const ipLimit = ipRateLimiter.take(clientIp);
+    if (!ipLimit.allowed) return rateLimited(ipLimit.retryAfterSeconds);
+
+    const match = /^Bearer\s+(.+)$/i.exec(req.headers.get('Authorization') || '');
+    const userId = match ? await verifyUser(match[1]) : null;
+    if (!userId) return json(401, { error: 'Unauthorized' });
+
+    const limit = rateLimiter.take(userId);
+    if (!limit.allowed) return rateLimited(limit.retryAfterSeconds);
+
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch (e) {
+      return json(400, { error: 'Request body must be valid JSON' });
+    }
+    const { request, error } = parseRequest(body);
+    if (!request) return json(400, { error });
+
+    try {
+      // req.signal fires when the client goes away, so an abandoned analysis stops early
+      return json(200, await runAnalysis(provider, request, req.signal));
+    } catch (analysisError) {
+      if (analysisError instanceof AnalysisValidationError) {
+        return json(422, { error: analysisError.message, issues: analysisError.issues });
+      }
+      if (isTransientError(analysisError)) {
+        // Still failing after our own retries; the client may try again later
+        console.warn(`Analysis (${request.action}) unavailable for user ${userId}:`, analysisError);
+        return json(503, { error: 'The AI service is busy or not responding. Please try again.' });
+      }
+      console.error(`Analysis (${request.action}) failed for user ${userId}:`, analysisError);
+      return json(500, { error: 'Analysis failed. Please try again.' });
+    }
+  };
+}
@@ -0,0 +1,150 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { createClient } from '@supabase/supabase-js';
+import type { VisionProvider } from '@/lib/vision';
+import { createGeminiProvider } from '@/lib/gemini';
+import { fakeProvider } from '@/lib/fakeVision';
+import { DEFAULT_IMAGE_MIME_TYPE, IMAGE_SIGNATURE_BYTES, detectImageMimeType } from '@/lib/imageType';
+import { createAnalysisHandler } from '@/server/handler';
+import { createRateLimiter } from '@/server/rateLimit';
+
+/**
+ * Standalone Node server for the analysis endpoint (`npm run server`).
+ *
+ *   SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY  required; used to check tokens and read photos
+ *   GOOGLE_API_KEY                           required unless ANALYSIS_BACKEND=fake
+ *   ANALYSIS_BACKEND                         'gemini' (default) or 'fake' for offline fixtures
+ *   RATE_LIMIT_PER_MINUTE                    analyses per user per minute, default 10
+ *   RATE_LIMIT_PER_IP_PER_MINUTE             requests per client address per minute, default 30
+ *   TRUST_PROXY                              set when behind a reverse proxy, to take the client address from X-Forwarded-For
+ *   LOCAL_DEV_TOKEN                          optional bearer token accepted without Supabase, for local testing
+ *   PORT                                     default 8787
+ */
+
+const PORT = Number(process.env.PORT) || 8787;
+const RATE_LIMIT_PER_MINUTE = Number(process.env.RATE_LIMIT_PER_MINUTE) || 10;
+const RATE_LIMIT_PER_IP_PER_MINUTE = Number(process.env.RATE_LIMIT_PER_IP_PER_MINUTE) || 30;
+// Requests are a few paths and names; a real one is a few kilobytes at most
+const MAX_BODY_BYTES = 256 * 1024;
+
+const supabaseUrl = process.env.SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+if (!supabaseUrl || !serviceRoleKey) {
+  throw new Error('Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY environment variable');
+}
+
+const supabase = createClient(supabaseUrl, serviceRoleKey, {
+  auth: { persistSession: false, autoRefreshToken: false },
+});
+
+async function loadStorageImage(path: string) {
+  const { data, error } = await supabase.storage.from('Photos').download(path);
+  if (error || !data) {
+    throw new Error(`Could not read ${path} from storage: ${error?.message || 'no data'}`);
+  }
+  const buffer = Buffer.from(await data.arrayBuffer());
+  // Storage's content type is whatever the uploader claimed, so trust the bytes first
+  const mimeType = detectImageMimeType(Array.from(buffer.subarray(0, IMAGE_SIGNATURE_BYTES)))
+    || data.type
+    || DEFAULT_IMAGE_MIME_TYPE;
+  return { data: buffer.toString('base64'), mimeType };
+}
+
+async function verifyUser(token: string) {
+  if (process.env.LOCAL_DEV_TOKEN && token === process.env.LOCAL_DEV_TOKEN) return 'local-dev';
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+  return data.user.id;
+}
+
+const provider: VisionProvider = process.env.ANALYSIS_BACKEND === 'fake'
+  ? fakeProvider
+  : createGeminiProvider({
+      getApiKey: () => process.env.GOOGLE_API_KEY,
+      loadImage: loadStorageImage,
+    });
+
+const handleAnalysisRequest = createAnalysisHandler({
+  provider,
+  verifyUser,
+  rateLimiter: createRateLimiter(RATE_LIMIT_PER_MINUTE, 60 * 1000),
+  ipRateLimiter: createRateLimiter(RATE_LIMIT_PER_IP_PER_MINUTE, 60 * 1000),
+});
+
+class PayloadTooLargeError extends Error {
+  constructor() {
+    super(`Request body is larger than ${MAX_BODY_BYTES} bytes`);
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+// Stops reading as soon as the body passes MAX_BODY_BYTES rather than buffering all of it
+async function readBody(req: IncomingMessage) {
+  if (Number(req.headers['content-length']) > MAX_BODY_BYTES) throw new PayloadTooLargeError();
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) throw new PayloadTooLargeError();
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+function clientIp(req: IncomingMessage) {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (process.env.TRUST_PROXY && typeof forwarded === 'string' && forwarded.trim()) {
+    return forwarded.split(',')[0].trim();
+  }
+  return req.socket.remoteAddress || 'unknown';
+}
+
+function sendError(res: ServerResponse, status: number, error: string) {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify({ error }));
+}
+
+async function toRequest(req: IncomingMessage, signal: AbortSignal) {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (typeof value === 'string') headers.set(name, value);
+    else if (Array.isArray(value)) headers.set(name, value.join(', '));
+  }
+  const hasBody = req.method !== 'GET' && req.method !== 'HEAD';
+  return new Request(`http://${req.headers.host || 'localhost'}${req.url || '/'}`, {
+    method: req.method,
+    headers,
+    body: hasBody ? await readBody(req) : undefined,
+    signal,
+  });
+}
+
+async function sendResponse(res: ServerResponse, response: Response) {
+  res.statusCode = response.status;
+  response.headers.forEach((value, name) => res.setHeader(name, value));
+  res.end(Buffer.from(await response.arrayBuffer()));
+}
+
+createServer(async (req, res) => {
+  // Lets the handler stop working on a request whose client has disconnected
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  try {
+    await sendResponse(res, await handleAnalysisRequest(await toRequest(req, controller.signal), clientIp(req)));
+  } catch (error) {
+    if (error instanceof PayloadTooLargeError) {
+      // Closing the connection stops the client from sending the rest
+      res.setHeader('Connection', 'close');
+      sendError(res, 413, error.message);
+      return;
+    }
+    console.error('Unhandled analysis server error:', error);
+    sendError(res, 500, 'Internal server error');
+  }
+}).listen(PORT, () => {
+  console.log(`Analysis server (${provider.name}) listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,48 @@
+/**
+ * Fixed-window request counter kept in memory. Good enough for a single
+ * server process; several instances would each enforce the limit separately.
+ */
+
+// Expired windows are swept once this many callers are being tracked
+const MAX_TRACKED_KEYS = 10000;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // Seconds until the caller's window resets; only meaningful when not allowed
+  retryAfterSeconds: number;
+}
+
+export interface RateLimiter {
+  take(key: string): RateLimitResult;
+}
+
+export function createRateLimiter(limit: number, windowMs: number, now: () => number = Date.now): RateLimiter {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  return {
+    take(key: string) {
+      const time = now();
+      if (windows.size > MAX_TRACKED_KEYS) {
+        windows.forEach((entry, entryKey) => {
+          if (time - entry.start >= windowMs) windows.delete(entryKey);
+        });
+      }
+
+      let window = windows.get(key);
+      if (!window || time - window.start >= windowMs) {
+        window = { start: time, count: 0 };
+        windows.set(key, window);
+      }
+
+      if (window.count >= limit) {
+        return {
+          allowed: false,
+          retryAfterSeconds: Math.ceil((window.start + windowMs - time) / 1000),
+        };
+      }
+
+      window.count++;
+      return { allowed: true, retryAfterSeconds: 0 };
+    },
+  };
+}